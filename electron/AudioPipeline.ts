@@ -0,0 +1,162 @@
+// AudioPipeline.ts
+// Recorded audio -> 16 kHz WAV (ffmpeg) -> text (whisper.cpp) -> reply (LLM provider).
+// Binaries are spawned with argument arrays, never through a shell, and every temp file
+// lives in a per-run directory that is removed when the run ends.
+
+import path from "node:path"
+import fs from "node:fs"
+import os from "node:os"
+import { spawn } from "node:child_process"
+import { TranscriptionConfig } from "./TranscriptionEngine"
+import { joinSegments, runWhisper } from "./WhisperBatchEngine"
+
+// Recording formats the app accepts, by file extension
+export const AUDIO_MIME_TYPES: Record<string, string> = {
+  mp3: "audio/mp3",
+  m4a: "audio/mp4",
+  wav: "audio/wav",
+  webm: "audio/webm",
+  mp4: "video/mp4"
+}
+
+export type AudioPipelineStage = "convert" | "transcribe" | "generate"
+
+export class AudioPipelineError extends Error {
+  constructor(
+    public readonly stage: AudioPipelineStage,
+    message: string
+  ) {
+    super(`Audio ${stage} failed: ${message}`)
+    this.name = "AudioPipelineError"
+  }
+}
+
+export interface AudioPipelineConfig {
+  ffmpegPath: string
+  whisper: TranscriptionConfig["whisper"]
+}
+
+export interface AudioPipelineResult {
+  transcription: string
+  text: string
+}
+
+// Speech band plus a gain boost; the quiet VAD chunks transcribe noticeably better with it
+const SPEECH_FILTER = "volume=3.0,highpass=f=200,lowpass=f=3000"
+const STDERR_TAIL = 2000
+
+// FFMPEG_PATH defaults to ffmpeg on the PATH; whisper paths come from the transcription config
+export function loadAudioPipelineConfig(
+  whisper: TranscriptionConfig["whisper"],
+  env: NodeJS.ProcessEnv = process.env
+): AudioPipelineConfig {
+  return { ffmpegPath: env.FFMPEG_PATH || "ffmpeg", whisper }
+}
+
+// Aborting kills the process and rejects with the signal's reason
+function runProcess(
+  stage: AudioPipelineStage,
+  command: string,
+  args: string[],
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { windowsHide: true, stdio: ["ignore", "ignore", "pipe"], signal })
+    let stderr = ""
+    child.stderr.on("data", (chunk) => {
+      stderr = (stderr + chunk.toString()).slice(-STDERR_TAIL)
+    })
+    child.on("error", (error) =>
+      reject(
+        signal?.aborted
+          ? signal.reason
+          : new AudioPipelineError(stage, `could not start ${command}: ${error.message}`)
+      )
+    )
+    child.on("close", (code) => {
+      if (code === 0) resolve()
+      else reject(new AudioPipelineError(stage, `${path.basename(command)} exited with ${code}: ${stderr.trim()}`))
+    })
+  })
+}
+
+export class AudioPipeline {
+  constructor(private readonly config: AudioPipelineConfig) {}
+
+  // Falls back to a plain conversion when the filter chain is rejected (e.g. a minimal ffmpeg build)
+  private async convert(inputPath: string, outputPath: string): Promise<void> {
+    const base = ["-hide_banner", "-loglevel", "error", "-y", "-i", inputPath]
+    const output = ["-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", outputPath]
+    try {
+      await runProcess("convert", this.config.ffmpegPath, [...base, "-af", SPEECH_FILTER, ...output])
+    } catch (error: any) {
+      console.warn("[AudioPipeline] Filtered conversion failed, retrying without filters:", error.message)
+      await runProcess("convert", this.config.ffmpegPath, [...base, ...output])
+    }
+  }
+
+  // Converts a whole recording (audio or video) and cuts it into chunkSeconds-long WAVs,
+  // returned in playback order
+  public async split(
+    inputPath: string,
+    outputDir: string,
+    chunkSeconds: number,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    await runProcess(
+      "convert",
+      this.config.ffmpegPath,
+      [
+        "-hide_banner", "-loglevel", "error", "-y", "-i", inputPath,
+        "-vn", "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le",
+        "-f", "segment", "-segment_time", String(chunkSeconds), "-reset_timestamps", "1",
+        path.join(outputDir, "chunk-%05d.wav")
+      ],
+      signal
+    )
+    const chunks = (await fs.promises.readdir(outputDir)).filter((name) => /^chunk-\d+\.wav$/.test(name)).sort()
+    if (chunks.length === 0) throw new AudioPipelineError("convert", `no audio found in ${path.basename(inputPath)}`)
+    return chunks.map((name) => path.join(outputDir, name))
+  }
+
+  private async transcribe(wavPath: string, language?: string): Promise<string> {
+    try {
+      return joinSegments(await runWhisper("whisper-batch", this.config.whisper, wavPath, language))
+    } catch (error: any) {
+      throw new AudioPipelineError("transcribe", error.message)
+    }
+  }
+
+  public async run(
+    audio: Buffer,
+    extension: string,
+    generate: (transcription: string) => Promise<string>,
+    language?: string
+  ): Promise<AudioPipelineResult> {
+    const startTime = Date.now()
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "audio-pipeline-"))
+    try {
+      const inputPath = path.join(workDir, `input.${extension}`)
+      const wavPath = path.join(workDir, "speech.wav")
+      await fs.promises.writeFile(inputPath, audio)
+
+      await this.convert(inputPath, wavPath)
+      const transcription = await this.transcribe(wavPath, language)
+      console.log(`[AudioPipeline] Transcribed in ${Date.now() - startTime}ms: ${transcription}`)
+
+      let text: string
+      try {
+        text = await generate(transcription)
+      } catch (error: any) {
+        if (error?.name === "AbortError") throw error
+        throw new AudioPipelineError("generate", error.message)
+      }
+      console.log(`[AudioPipeline] Total processing time: ${Date.now() - startTime}ms`)
+      return { transcription, text }
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch((error) =>
+        console.error(`[AudioPipeline] Could not remove ${workDir}:`, error)
+      )
+    }
+  }
+}
@@ -0,0 +1,102 @@
+// CallImporter.ts
+// Stores a recorded call (audio or video file) as a session, just like a live call ends up:
+// the recording is converted and cut into chunks, each chunk is transcribed by the configured
+// transcription engine and stored as a transcript entry at its offset into the call.
+
+import path from "node:path"
+import fs from "node:fs"
+import os from "node:os"
+import { AUDIO_MIME_TYPES, AudioPipeline } from "./AudioPipeline"
+import { SessionStore } from "./SessionStore"
+import { PCM_BYTES_PER_SECOND, TranscriptionEngine } from "./TranscriptionEngine"
+
+export const IMPORT_EXTENSIONS = Object.keys(AUDIO_MIME_TYPES)
+
+export type ImportStage = "convert" | "transcribe" | "done"
+
+export interface ImportProgress {
+  stage: ImportStage
+  completed: number // chunks transcribed so far
+  total: number // chunks in the recording, 0 until it has been converted
+}
+
+export interface ImportResult {
+  sessionId: string
+  entryCount: number
+}
+
+const WAV_HEADER_BYTES = 44
+
+const clockTime = (at: number) =>
+  new Date(at).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit", hour12: true })
+
+export class CallImporter {
+  constructor(
+    private readonly pipeline: AudioPipeline,
+    private readonly sessions: SessionStore,
+    private readonly getEngine: () => TranscriptionEngine,
+    private readonly chunkSeconds: number
+  ) {}
+
+  public async run(
+    filePath: string,
+    onProgress: (progress: ImportProgress) => void,
+    signal?: AbortSignal,
+    language?: string
+  ): Promise<ImportResult> {
+    const extension = path.extname(filePath).slice(1).toLowerCase()
+    if (!IMPORT_EXTENSIONS.includes(extension)) {
+      throw new Error(`Cannot import .${extension} files (expected ${IMPORT_EXTENSIONS.join(", ")})`)
+    }
+    const { mtimeMs } = await fs.promises.stat(filePath)
+    const engine = this.getEngine()
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "call-import-"))
+    let sessionId: string | null = null
+    try {
+      signal?.throwIfAborted()
+      onProgress({ stage: "convert", completed: 0, total: 0 })
+      const chunks = await this.pipeline.split(filePath, workDir, this.chunkSeconds, signal)
+      const lastChunk = await fs.promises.stat(chunks[chunks.length - 1])
+      const durationMs =
+        ((chunks.length - 1) * this.chunkSeconds +
+          Math.max(0, lastChunk.size - WAV_HEADER_BYTES) / PCM_BYTES_PER_SECOND) *
+        1000
+      // Conferencing tools write the file when the call ends
+      const startedAt = Math.round(mtimeMs - durationMs)
+
+      const session = await this.sessions.startSession(path.parse(filePath).name, startedAt, language)
+      sessionId = session.id
+      let entryCount = 0
+      for (const [index, chunk] of chunks.entries()) {
+        signal?.throwIfAborted()
+        onProgress({ stage: "transcribe", completed: index, total: chunks.length })
+        const text = await engine.transcribeFile(chunk, { language }, signal)
+        if (!text) continue
+        const at = startedAt + index * this.chunkSeconds * 1000
+        await this.sessions.addFinal(sessionId, { text, at })
+        await this.sessions.addEntry(sessionId, {
+          type: "live",
+          text,
+          timestamp: clockTime(at),
+          at,
+          source: "transcription"
+        })
+        entryCount++
+      }
+      if (entryCount === 0) throw new Error(`No speech found in ${path.basename(filePath)}`)
+
+      await this.sessions.endSession(sessionId, startedAt + Math.round(durationMs))
+      onProgress({ stage: "done", completed: chunks.length, total: chunks.length })
+      return { sessionId, entryCount }
+    } catch (error) {
+      // A half-imported call is worse than none; the file can simply be imported again
+      if (sessionId) await this.sessions.deleteSession(sessionId)
+      throw error
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true }).catch((error) =>
+        console.error(`[CallImporter] Could not remove ${workDir}:`, error)
+      )
+    }
+  }
+}
@@ -0,0 +1,340 @@
+// CrmStore.ts
+// Local CRM records (companies, contacts, deals) kept in userData/crm.json
+
+import path from "node:path"
+import fs from "node:fs"
+import { app } from "electron"
+import { v4 as uuidv4 } from "uuid"
+
+interface RecordMeta {
+  id: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface Company extends RecordMeta {
+  name: string
+  domain: string
+  industry: string
+  notes: string
+}
+
+export interface Contact extends RecordMeta {
+  name: string
+  email: string
+  phone: string
+  title: string
+  companyId: string | null
+  notes: string
+}
+
+export interface StageChange {
+  from: string | null // null when the deal was created
+  to: string
+  at: number
+}
+
+export interface Deal extends RecordMeta {
+  title: string
+  companyId: string | null
+  contactId: string | null
+  amount: number | null
+  stage: string // PipelineStage id
+  closeDate: string | null // YYYY-MM-DD
+  budget: string // as the prospect stated it
+  timeline: string
+  decisionMakers: string[]
+  competitors: string[]
+  nextSteps: string[]
+  notes: string
+  stageHistory: StageChange[]
+}
+
+export interface PipelineStage {
+  id: string
+  name: string
+  probability: number // 0-100, used to weight deal amounts
+}
+
+// Attaches call context (a stored session or a screenshot file) to a contact
+export interface ContactLink {
+  contactId: string
+  kind: "session" | "screenshot"
+  ref: string // session id, or the path of the screenshot's copy in crm_attachments
+  linkedAt: number
+}
+
+export interface CrmRecords {
+  companies: Company
+  contacts: Contact
+  deals: Deal
+}
+
+export type CrmCollection = keyof CrmRecords
+export type CrmInput<C extends CrmCollection> = Partial<
+  Omit<CrmRecords[C], keyof RecordMeta | "stageHistory">
+>
+
+interface CrmData {
+  companies: Company[]
+  contacts: Contact[]
+  deals: Deal[]
+  links: ContactLink[]
+  stages: PipelineStage[]
+}
+
+const DEFAULT_STAGES: PipelineStage[] = [
+  { id: "lead", name: "Lead", probability: 10 },
+  { id: "qualified", name: "Qualified", probability: 25 },
+  { id: "proposal", name: "Proposal", probability: 50 },
+  { id: "negotiation", name: "Negotiation", probability: 75 },
+  { id: "won", name: "Closed Won", probability: 100 },
+  { id: "lost", name: "Closed Lost", probability: 0 }
+]
+
+const DEFAULTS: { [C in CrmCollection]: Omit<CrmRecords[C], keyof RecordMeta | "stageHistory"> } = {
+  companies: { name: "", domain: "", industry: "", notes: "" },
+  contacts: { name: "", email: "", phone: "", title: "", companyId: null, notes: "" },
+  deals: {
+    title: "",
+    companyId: null,
+    contactId: null,
+    amount: null,
+    stage: "", // first pipeline stage
+    closeDate: null,
+    budget: "",
+    timeline: "",
+    decisionMakers: [],
+    competitors: [],
+    nextSteps: [],
+    notes: ""
+  }
+}
+
+export class CrmStore {
+  private readonly filePath: string
+  private readonly attachmentDir: string
+  private data: CrmData
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor() {
+    this.filePath = path.join(app.getPath("userData"), "crm.json")
+    this.attachmentDir = path.join(app.getPath("userData"), "crm_attachments")
+    if (!fs.existsSync(this.attachmentDir)) {
+      fs.mkdirSync(this.attachmentDir, { recursive: true })
+    }
+    this.data = this.load()
+  }
+
+  private load(): CrmData {
+    const empty: CrmData = {
+      companies: [],
+      contacts: [],
+      deals: [],
+      links: [],
+      stages: DEFAULT_STAGES
+    }
+    if (!fs.existsSync(this.filePath)) return empty
+    try {
+      const data: CrmData = { ...empty, ...JSON.parse(fs.readFileSync(this.filePath, "utf-8")) }
+      // Deals saved by older versions lack the newer fields
+      data.deals = data.deals.map(
+        (deal): Deal => ({ ...structuredClone(DEFAULTS.deals), stageHistory: [], ...deal })
+      )
+      return data
+    } catch (error) {
+      // Keep the unreadable file around instead of overwriting it on the next save
+      const backup = `${this.filePath}.corrupt-${Date.now()}`
+      console.error(`[CrmStore] Could not read ${this.filePath}, moved to ${backup}:`, error)
+      fs.renameSync(this.filePath, backup)
+      return empty
+    }
+  }
+
+  // Writes go to a temp file first so a crash never leaves a half-written crm.json
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(this.data, null, 2)
+    this.writeQueue = this.writeQueue
+      .catch(() => {})
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`
+        await fs.promises.writeFile(tempPath, snapshot, "utf-8")
+        await fs.promises.rename(tempPath, this.filePath)
+      })
+    return this.writeQueue
+  }
+
+  private validate<C extends CrmCollection>(collection: C, record: CrmRecords[C]): void {
+    const label = collection === "deals" ? "title" : "name"
+    const value = (record as unknown as Record<string, unknown>)[label]
+    if (typeof value !== "string" || !value.trim()) {
+      throw new Error(`A ${label} is required`)
+    }
+    if (collection === "deals") {
+      const stage = (record as Deal).stage
+      if (!this.data.stages.some((s) => s.id === stage)) {
+        throw new Error(`Unknown pipeline stage: ${stage}`)
+      }
+    }
+  }
+
+  public list<C extends CrmCollection>(collection: C): CrmRecords[C][] {
+    return [...(this.data[collection] as CrmRecords[C][])]
+  }
+
+  public get<C extends CrmCollection>(collection: C, id: string): CrmRecords[C] | null {
+    return (this.data[collection] as CrmRecords[C][]).find((record) => record.id === id) ?? null
+  }
+
+  public async create<C extends CrmCollection>(
+    collection: C,
+    input: CrmInput<C>
+  ): Promise<CrmRecords[C]> {
+    const now = Date.now()
+    const record = {
+      ...structuredClone(DEFAULTS[collection]),
+      ...input,
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now
+    } as CrmRecords[C]
+    if (collection === "deals") {
+      const deal = record as Deal
+      if (!deal.stage) deal.stage = this.data.stages[0].id
+      deal.stageHistory = [{ from: null, to: deal.stage, at: now }]
+    }
+    this.validate(collection, record)
+    ;(this.data[collection] as CrmRecords[C][]).push(record)
+    await this.save()
+    return record
+  }
+
+  public async update<C extends CrmCollection>(
+    collection: C,
+    id: string,
+    patch: CrmInput<C>
+  ): Promise<CrmRecords[C]> {
+    const records = this.data[collection] as CrmRecords[C][]
+    const index = records.findIndex((record) => record.id === id)
+    if (index === -1) throw new Error(`No ${collection} record with id ${id}`)
+
+    const previous = records[index]
+    const updated = { ...previous, ...patch, id, updatedAt: Date.now() }
+    if (collection === "deals") {
+      const before = previous as Deal
+      const after = updated as Deal
+      after.stageHistory = before.stageHistory
+      if (after.stage !== before.stage) {
+        after.stageHistory = [
+          ...before.stageHistory,
+          { from: before.stage, to: after.stage, at: after.updatedAt }
+        ]
+      }
+    }
+    this.validate(collection, updated)
+    records[index] = updated
+    await this.save()
+    return updated
+  }
+
+  public async delete(collection: CrmCollection, id: string): Promise<{ success: boolean }> {
+    const records = this.data[collection] as RecordMeta[]
+    const index = records.findIndex((record) => record.id === id)
+    if (index === -1) return { success: false }
+    records.splice(index, 1)
+
+    // Detach references instead of cascading deletes
+    if (collection === "companies") {
+      for (const contact of this.data.contacts) {
+        if (contact.companyId === id) contact.companyId = null
+      }
+      for (const deal of this.data.deals) {
+        if (deal.companyId === id) deal.companyId = null
+      }
+    } else if (collection === "contacts") {
+      for (const deal of this.data.deals) {
+        if (deal.contactId === id) deal.contactId = null
+      }
+      const removed = this.data.links.filter((link) => link.contactId === id)
+      this.data.links = this.data.links.filter((link) => link.contactId !== id)
+      await Promise.all(removed.map((link) => this.removeAttachment(link)))
+    }
+    await this.save()
+    return { success: true }
+  }
+
+  public getStages(): PipelineStage[] {
+    return [...this.data.stages]
+  }
+
+  // Replaces the pipeline; deals left in a removed stage move to the first one
+  public async setStages(stages: PipelineStage[]): Promise<PipelineStage[]> {
+    if (stages.length === 0) throw new Error("The pipeline needs at least one stage")
+    const ids = new Set<string>()
+    for (const stage of stages) {
+      if (!stage.name?.trim()) throw new Error("Every stage needs a name")
+      if (!(stage.probability >= 0 && stage.probability <= 100)) {
+        throw new Error(`Probability for ${stage.name} must be between 0 and 100`)
+      }
+      if (ids.has(stage.id)) throw new Error(`Duplicate stage id: ${stage.id}`)
+      ids.add(stage.id)
+    }
+
+    const now = Date.now()
+    const fallback = stages[0].id
+    for (const deal of this.data.deals) {
+      if (ids.has(deal.stage)) continue
+      deal.stageHistory.push({ from: deal.stage, to: fallback, at: now })
+      deal.stage = fallback
+      deal.updatedAt = now
+    }
+    this.data.stages = stages.map((stage) => ({ ...stage, name: stage.name.trim() }))
+    await this.save()
+    return this.getStages()
+  }
+
+  public async moveDeal(id: string, stageId: string): Promise<Deal> {
+    return this.update("deals", id, { stage: stageId })
+  }
+
+  public getLinks(contactId: string): ContactLink[] {
+    return this.data.links.filter((link) => link.contactId === contactId)
+  }
+
+  public getContactFor(kind: ContactLink["kind"], ref: string): string | null {
+    return this.data.links.find((link) => link.kind === kind && link.ref === ref)?.contactId ?? null
+  }
+
+  private async removeAttachment(link: ContactLink): Promise<void> {
+    if (link.kind !== "screenshot") return
+    await fs.promises.unlink(link.ref).catch((error) => {
+      console.error(`[CrmStore] Could not remove attachment ${link.ref}:`, error)
+    })
+  }
+
+  // A session belongs to at most one contact; linking again moves it
+  public async linkSession(contactId: string, sessionId: string): Promise<void> {
+    if (!this.get("contacts", contactId)) throw new Error(`No contact with id ${contactId}`)
+    this.data.links = this.data.links.filter((l) => !(l.kind === "session" && l.ref === sessionId))
+    this.data.links.push({ contactId, kind: "session", ref: sessionId, linkedAt: Date.now() })
+    await this.save()
+  }
+
+  // Screenshots are copied so they outlive the queue (which deletes its files on reset)
+  public async attachScreenshot(contactId: string, screenshotPath: string): Promise<string> {
+    if (!this.get("contacts", contactId)) throw new Error(`No contact with id ${contactId}`)
+    const copyPath = path.join(this.attachmentDir, `${uuidv4()}${path.extname(screenshotPath)}`)
+    await fs.promises.copyFile(screenshotPath, copyPath)
+    this.data.links.push({ contactId, kind: "screenshot", ref: copyPath, linkedAt: Date.now() })
+    await this.save()
+    return copyPath
+  }
+
+  public async unlink(kind: ContactLink["kind"], ref: string): Promise<void> {
+    const removed = this.data.links.filter((l) => l.kind === kind && l.ref === ref)
+    if (removed.length === 0) return
+    this.data.links = this.data.links.filter((l) => !(l.kind === kind && l.ref === ref))
+    await Promise.all(removed.map((link) => this.removeAttachment(link)))
+    await this.save()
+  }
+}
@@ -0,0 +1,119 @@
+// DeepgramEngine.ts
+// Live transcription over Deepgram's streaming WebSocket API (or the local mock server)
+
+import fs from "node:fs"
+import WebSocket from "ws"
+import {
+  AUTO_LANGUAGE,
+  TranscriptionConfig,
+  TranscriptionEngine,
+  TranscriptionError,
+  TranscriptionEvent,
+  TranscriptionStream,
+  TranscriptionStreamOptions
+} from "./TranscriptionEngine"
+
+const CLOSE_TIMEOUT_MS = 3000
+
+export class DeepgramEngine implements TranscriptionEngine {
+  public readonly name = "deepgram" as const
+
+  constructor(private readonly config: TranscriptionConfig["deepgram"]) {}
+
+  private buildUrl(options: TranscriptionStreamOptions, live: boolean): URL {
+    const url = new URL(this.config.url)
+    if (!live) url.protocol = url.protocol === "wss:" ? "https:" : "http:"
+    url.searchParams.set("model", this.config.model)
+    const language = options.language || this.config.language
+    if (language !== AUTO_LANGUAGE) {
+      url.searchParams.set("language", language)
+    } else if (live) {
+      // Streaming cannot detect the language up front, but multi follows code-switching speakers
+      url.searchParams.set("language", "multi")
+    } else {
+      url.searchParams.set("detect_language", "true")
+    }
+    url.searchParams.set("smart_format", "true")
+    url.searchParams.set("diarize", String(options.diarize ?? true))
+    if (live) {
+      url.searchParams.set("encoding", "linear16")
+      url.searchParams.set("sample_rate", "16000")
+      url.searchParams.set("interim_results", "true")
+      url.searchParams.set("utterance_end_ms", "1000")
+      url.searchParams.set("vad_events", "true")
+    }
+    return url
+  }
+
+  public async openStream(
+    options: TranscriptionStreamOptions,
+    onEvent: (event: TranscriptionEvent) => void
+  ): Promise<TranscriptionStream> {
+    const protocols = this.config.apiKey ? ["token", this.config.apiKey] : undefined
+    const socket = new WebSocket(this.buildUrl(options, true), protocols)
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once("open", () => resolve())
+      socket.once("error", (error) =>
+        reject(new TranscriptionError(this.name, `Could not connect: ${error.message}`))
+      )
+    })
+
+    socket.on("message", (data) => {
+      let event: TranscriptionEvent
+      try {
+        event = JSON.parse(data.toString())
+      } catch (error) {
+        console.error("[DeepgramEngine] Unreadable message:", error)
+        return
+      }
+      onEvent(event)
+    })
+    socket.on("error", (error) => onEvent({ type: "Error", message: error.message }))
+
+    return {
+      write: (pcm) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(pcm)
+      },
+      close: () =>
+        new Promise<void>((resolve) => {
+          if (socket.readyState !== WebSocket.OPEN) return resolve()
+          // Deepgram sends the remaining results, then closes the socket itself
+          const timer = setTimeout(() => socket.terminate(), CLOSE_TIMEOUT_MS)
+          socket.once("close", () => {
+            clearTimeout(timer)
+            resolve()
+          })
+          socket.send(JSON.stringify({ type: "CloseStream" }))
+        })
+    }
+  }
+
+  public async transcribeFile(
+    wavPath: string,
+    options: TranscriptionStreamOptions = {},
+    signal?: AbortSignal
+  ): Promise<string> {
+    let response: Response
+    try {
+      response = await fetch(this.buildUrl(options, false), {
+        method: "POST",
+        headers: {
+          "Content-Type": "audio/wav",
+          ...(this.config.apiKey ? { Authorization: `Token ${this.config.apiKey}` } : {})
+        },
+        body: new Uint8Array(await fs.promises.readFile(wavPath)),
+        signal
+      })
+    } catch (error: any) {
+      signal?.throwIfAborted()
+      throw new TranscriptionError(this.name, `Request failed: ${error.message}`)
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "")
+      throw new TranscriptionError(this.name, `${response.status} ${response.statusText} ${detail}`.trim())
+    }
+    const result: any = await response.json()
+    return (result.results?.channels?.[0]?.alternatives?.[0]?.transcript ?? "").trim()
+  }
+}
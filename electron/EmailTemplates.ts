@@ -0,0 +1,96 @@
+// EmailTemplates.ts
+// Follow-up email templates the rep can pick from, plus plain text/HTML/.eml rendering of a draft
+
+import { EmailDraft } from "./ResponseSchemas"
+
+export type EmailTemplateId = "recap" | "proposal" | "meeting-request" | "break-up"
+
+export const EMAIL_TEMPLATES: Record<EmailTemplateId, { label: string; instructions: string }> = {
+  recap: {
+    label: "Call recap",
+    instructions:
+      "Thank them for their time, recap what was discussed and agreed, and list the next steps with owners and dates."
+  },
+  proposal: {
+    label: "Proposal",
+    instructions:
+      "Tie the proposal to the needs and budget they described, outline what is being offered, and ask for a decision or a review call."
+  },
+  "meeting-request": {
+    label: "Meeting request",
+    instructions:
+      "Reference the call briefly and ask for a specific follow-up meeting, explaining who should attend and why it is worth their time."
+  },
+  "break-up": {
+    label: "Break-up",
+    instructions:
+      "Politely note that you have not heard back, make it easy to say no or not now, and leave the door open. Keep it short and without pressure."
+  }
+}
+
+export const EMAIL_SECTIONS = ["subject", "opening", "body", "call_to_action", "closing"] as const
+export type EmailSection = (typeof EMAIL_SECTIONS)[number]
+
+// Details the rep types in before drafting
+export interface EmailAccountDetails {
+  name: string
+  email: string
+  company: string
+  stage: string
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+
+const bodySections = (draft: EmailDraft) =>
+  [draft.opening, draft.body, draft.call_to_action, draft.closing].filter((section) => section.trim())
+
+export function renderEmailText(draft: EmailDraft): string {
+  return bodySections(draft).join("\n\n")
+}
+
+export function renderEmailHtml(draft: EmailDraft): string {
+  const paragraphs = bodySections(draft)
+    .flatMap((section) => section.split(/\n{2,}/))
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+  return `<html><body>${paragraphs.join("\n")}</body></html>`
+}
+
+// RFC 2047 encoded-word so non-ASCII subjects survive mail clients
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`
+
+const base64Lines = (text: string) =>
+  Buffer.from(text, "utf-8")
+    .toString("base64")
+    .replace(/.{1,76}/g, "$&\r\n")
+
+// An unsent multipart message that opens as a draft in most mail clients
+export function buildEml(draft: EmailDraft, to: string): string {
+  const boundary = `----=_Part_${Date.now().toString(36)}`
+  return [
+    ...(to.trim() ? [`To: ${encodeHeader(to.trim())}`] : []),
+    `Subject: ${encodeHeader(draft.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "X-Unsent: 1",
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    'Content-Type: text/plain; charset="utf-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(renderEmailText(draft)),
+    `--${boundary}`,
+    'Content-Type: text/html; charset="utf-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(renderEmailHtml(draft)),
+    `--${boundary}--`,
+    ""
+  ].join("\r\n")
+}
@@ -0,0 +1,115 @@
+// GeminiProvider.ts
+
+import {
+  GoogleGenerativeAI,
+  GenerativeModel,
+  GenerateContentStreamResult,
+  GenerationConfig,
+  InputContent,
+  Part
+} from "@google/generative-ai"
+import {
+  ChatMessage,
+  GenerateOptions,
+  InlineMedia,
+  LLMProvider
+} from "./LLMProvider"
+
+export class GeminiProvider implements LLMProvider {
+  public readonly name = "gemini" as const
+  public readonly supportsImages = true
+  private client: GenerativeModel
+
+  constructor(apiKey: string, public readonly model: string) {
+    const genAI = new GoogleGenerativeAI(apiKey)
+    this.client = genAI.getGenerativeModel({ model })
+  }
+
+  private toGenerationConfig(options?: GenerateOptions): GenerationConfig {
+    return {
+      temperature: options?.temperature,
+      maxOutputTokens: options?.maxOutputTokens
+    }
+  }
+
+  private toPart(media: InlineMedia): Part {
+    return { inlineData: { data: media.data, mimeType: media.mimeType } }
+  }
+
+  // The SDK has no abort support, so cancellation stops reading the stream instead
+  private async collectStream(
+    result: GenerateContentStreamResult,
+    options: GenerateOptions
+  ): Promise<string> {
+    let text = ""
+    for await (const chunk of result.stream) {
+      options.signal?.throwIfAborted()
+      const piece = chunk.text()
+      if (piece) {
+        text += piece
+        options.onChunk?.(piece)
+      }
+    }
+    return text
+  }
+
+  private async generate(parts: Part[], options?: GenerateOptions): Promise<string> {
+    const request = {
+      contents: [{ role: "user", parts }],
+      generationConfig: this.toGenerationConfig(options)
+    }
+    if (options?.onChunk) {
+      return this.collectStream(await this.client.generateContentStream(request), options)
+    }
+    const result = await this.client.generateContent(request)
+    const response = await result.response
+    return response.text()
+  }
+
+  public async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.generate([{ text: prompt }], options)
+  }
+
+  public async generateWithImages(
+    prompt: string,
+    images: InlineMedia[],
+    options?: GenerateOptions
+  ): Promise<string> {
+    return this.generate([{ text: prompt }, ...images.map((image) => this.toPart(image))], options)
+  }
+
+  public async generateWithAudio(
+    prompt: string,
+    audio: InlineMedia,
+    options?: GenerateOptions
+  ): Promise<string> {
+    return this.generate([{ text: prompt }, this.toPart(audio)], options)
+  }
+
+  public async chat(messages: ChatMessage[], options?: GenerateOptions): Promise<string> {
+    // Gemini has no system role in chat history, so fold system messages into the first user turn
+    const system = messages.filter((m) => m.role === "system").map((m) => m.content)
+    const turns = messages.filter((m) => m.role !== "system")
+    const last = turns.pop()
+    if (!last || last.role !== "user") {
+      throw new Error("Chat must end with a user message")
+    }
+
+    const history: InputContent[] = turns.map((m) => ({
+      role: m.role === "assistant" ? "model" : "user",
+      parts: [{ text: m.content }]
+    }))
+    const prompt = [...system, last.content].join("\n\n")
+
+    const session = this.client.startChat({
+      history,
+      generationConfig: this.toGenerationConfig(options)
+    })
+    if (options?.onChunk) {
+      return this.collectStream(await session.sendMessageStream(prompt), options)
+    }
+    const result = await session.sendMessage(prompt)
+    const response = await result.response
+    return response.text()
+  }
+}
@@ -1,42 +1,167 @@
-import { GoogleGenerativeAI, GenerativeModel } from "@google/generative-ai"
 import fs from "fs"
 import path from "path"
-import { exec } from "child_process"
-import { promisify } from "util"
+import { GenerateOptions, InlineMedia, LLMProvider } from "./LLMProvider"
+import { OcrHelper } from "./OcrHelper"
+import { Redactor } from "./Redactor"
+import { AUDIO_MIME_TYPES, AudioPipeline } from "./AudioPipeline"
+import { AUTO_LANGUAGE } from "./TranscriptionEngine"
+import { EMAIL_TEMPLATES, EmailAccountDetails, EmailSection, EmailTemplateId } from "./EmailTemplates"
+import {
+  CallSummary,
+  callSummarySchema,
+  CrmExtraction,
+  crmExtractionSchema,
+  EmailDraft,
+  emailDraftSchema,
+  emailSectionSchema,
+  parseStructured,
+  ProblemExtraction,
+  problemExtractionSchema,
+  Schema,
+  SchemaValidationError,
+  SolutionResponse,
+  solutionResponseSchema,
+  StructuredOutputError,
+  StructuredStage
+} from "./ResponseSchemas"
 
-const execAsync = promisify(exec)
+// First request plus up to two repair attempts
+const MAX_STRUCTURED_ATTEMPTS = 3
+
+// Passed by the IPC layer when the renderer wants partial chunks as they arrive
+export type StreamOptions = Pick<GenerateOptions, "onChunk" | "signal">
+
+// Spoken language of the call and the one live suggestions are written in. Either may be
+// AUTO_LANGUAGE; for answers that means whatever language the other party speaks.
+export interface LanguageOptions {
+  call?: string
+  answer?: string
+}
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" })
+
+function languageName(code: string): string {
+  try {
+    return languageNames.of(code) ?? code
+  } catch {
+    return code
+  }
+}
 
 export class LLMHelper {
-  private model: GenerativeModel
+  private provider: LLMProvider
+  private audioPipeline: AudioPipeline
+  private ocr: OcrHelper
+  private redactor: Redactor
   private readonly systemPrompt = `You are Wingman AI, a helpful, proactive assistant for any kind of problem or situation (not just coding). For any user input, analyze the situation, provide a clear problem statement, relevant context, and suggest several possible responses or actions the user could take next. Always explain your reasoning. Present your suggestions as a list of options or next steps.`
 
-  constructor(apiKey: string) {
-    const genAI = new GoogleGenerativeAI(apiKey)
-    this.model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" })
+  // provider is expected to mask text itself (RedactingProvider); screenshots and audio are
+  // prepared here because only the helper knows where they come from
+  constructor(provider: LLMProvider, audioPipeline: AudioPipeline, ocr: OcrHelper, redactor: Redactor) {
+    this.provider = provider
+    this.audioPipeline = audioPipeline
+    this.ocr = ocr
+    this.redactor = redactor
+  }
+
+  public getProvider(): LLMProvider {
+    return this.provider
+  }
+
+  // Appended to prompts whose reply the rep reads during the call
+  private answerInstruction(languages?: LanguageOptions): string {
+    const answer = languages?.answer
+    if (!answer) return ""
+    return answer === AUTO_LANGUAGE
+      ? "\n\nAnswer in the language the other party is speaking."
+      : `\n\nAnswer in ${languageName(answer)}, whatever language the conversation is in.`
   }
 
-  private async fileToGenerativePart(imagePath: string) {
-    const imageData = await fs.promises.readFile(imagePath)
-    return {
-      inlineData: {
-        data: imageData.toString("base64"),
-        mimeType: "image/png"
+  private async fileToInlineMedia(filePath: string, mimeType: string): Promise<InlineMedia> {
+    const data = await fs.promises.readFile(filePath)
+    return { data: data.toString("base64"), mimeType }
+  }
+
+  // With redaction on, what is found in the screenshot's text is blacked out first
+  private async screenshotToInlineMedia(imagePath: string): Promise<InlineMedia> {
+    if (!this.redactor.isEnabled()) return this.fileToInlineMedia(imagePath, "image/png")
+    const { data } = await this.redactor.redactImage(imagePath)
+    return { data: data.toString("base64"), mimeType: "image/png" }
+  }
+
+  // Vision models get the screenshots themselves. Text-only models get the text OCR read from
+  // them, and so does a vision request that fails before anything was streamed, e.g. because
+  // the vision model is unavailable.
+  private async generateWithScreenshots(
+    prompt: string,
+    imagePaths: string[],
+    options?: GenerateOptions
+  ): Promise<string> {
+    if (this.provider.supportsImages) {
+      // Outside the try: a screenshot that cannot be masked must fail the request
+      const images = await Promise.all(imagePaths.map(path => this.screenshotToInlineMedia(path)))
+      let streamed = false
+      try {
+        return await this.provider.generateWithImages(prompt, images, {
+          ...options,
+          onChunk: options?.onChunk && ((chunk) => {
+            streamed = true
+            options.onChunk!(chunk)
+          })
+        })
+      } catch (error: any) {
+        if (streamed || error?.name === "AbortError" || options?.signal?.aborted) throw error
+        console.warn(`[LLMHelper] Image request failed, using OCR text instead: ${error?.message ?? error}`)
       }
     }
+
+    const texts = await Promise.all(imagePaths.map(path => this.ocr.recognizeText(path)))
+    const screenshots = texts
+      .map((text, index) => `--- Screenshot ${index + 1} ---\n${text || "(no readable text)"}`)
+      .join("\n\n")
+    return this.provider.generateText(
+      `${prompt}\n\nThe screenshots are not attached as images. This is the text read from them:\n\n${screenshots}`,
+      options
+    )
   }
 
-  private cleanJsonResponse(text: string): string {
-    // Remove markdown code block syntax if present
-    text = text.replace(/^```(?:json)?\n/, '').replace(/\n```$/, '');
-    // Remove any leading/trailing whitespace
-    text = text.trim();
-    return text;
+  // Asks for JSON, validates it against the schema and re-asks with the validation error
+  // until the reply is usable or MAX_STRUCTURED_ATTEMPTS is reached
+  private async generateStructured<T>(
+    stage: StructuredStage,
+    schema: Schema<T>,
+    prompt: string,
+    imagePaths: string[] = []
+  ): Promise<T> {
+    let currentPrompt = prompt
+    let lastError: SchemaValidationError | null = null
+
+    for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+      const response = imagePaths.length
+        ? await this.generateWithScreenshots(currentPrompt, imagePaths)
+        : await this.provider.generateText(currentPrompt)
+      try {
+        return parseStructured(response, schema)
+      } catch (error) {
+        if (!(error instanceof SchemaValidationError)) throw error
+        lastError = error
+        console.warn(
+          `[LLMHelper] Invalid ${stage} response (attempt ${attempt}/${MAX_STRUCTURED_ATTEMPTS}): ${error.message}`
+        )
+        currentPrompt = `${prompt}\n\nYour previous response could not be used because the field "${error.field}" ${error.reason}.\nPrevious response:\n${response}\n\nReturn ONLY the corrected JSON object.`
+      }
+    }
+
+    throw new StructuredOutputError(
+      stage,
+      lastError!.field,
+      lastError!.reason,
+      MAX_STRUCTURED_ATTEMPTS
+    )
   }
 
-  public async extractProblemFromImages(imagePaths: string[]) {
+  public async extractProblemFromImages(imagePaths: string[]): Promise<ProblemExtraction> {
     try {
-      const imageParts = await Promise.all(imagePaths.map(path => this.fileToGenerativePart(path)))
-      
       const prompt = `${this.systemPrompt}\n\nYou are a wingman. Please analyze these images and extract the following information in JSON format:\n{
   "problem_statement": "A clear statement of the problem or situation depicted in the images.",
   "context": "Relevant background or context from the images.",
@@ -44,17 +169,14 @@ export class LLMHelper {
   "reasoning": "Explanation of why these suggestions are appropriate."
 }\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.`
 
-      const result = await this.model.generateContent([prompt, ...imageParts])
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
-      return JSON.parse(text)
+      return await this.generateStructured("problem", problemExtractionSchema, prompt, imagePaths)
     } catch (error) {
       console.error("Error extracting problem from images:", error)
       throw error
     }
   }
 
-  public async generateSolution(problemInfo: any) {
+  public async generateSolution(problemInfo: Record<string, unknown>): Promise<SolutionResponse> {
     const prompt = `${this.systemPrompt}\n\nGiven this problem or situation:\n${JSON.stringify(problemInfo, null, 2)}\n\nPlease provide your response in the following JSON format:\n{
   "solution": {
     "code": "The code or main answer here.",
@@ -65,13 +187,9 @@ export class LLMHelper {
   }
 }\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.`
 
-    console.log("[LLMHelper] Calling Gemini LLM for solution...");
+    console.log(`[LLMHelper] Calling ${this.provider.name} LLM for solution...`);
     try {
-      const result = await this.model.generateContent(prompt)
-      console.log("[LLMHelper] Gemini LLM returned result.");
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
-      const parsed = JSON.parse(text)
+      const parsed = await this.generateStructured("solution", solutionResponseSchema, prompt)
       console.log("[LLMHelper] Parsed LLM response:", parsed)
       return parsed
     } catch (error) {
@@ -80,10 +198,12 @@ export class LLMHelper {
     }
   }
 
-  public async debugSolutionWithImages(problemInfo: any, currentCode: string, debugImagePaths: string[]) {
+  public async debugSolutionWithImages(
+    problemInfo: Record<string, unknown>,
+    currentCode: string,
+    debugImagePaths: string[]
+  ): Promise<SolutionResponse> {
     try {
-      const imageParts = await Promise.all(debugImagePaths.map(path => this.fileToGenerativePart(path)))
-      
       const prompt = `${this.systemPrompt}\n\nYou are a wingman. Given:\n1. The original problem or situation: ${JSON.stringify(problemInfo, null, 2)}\n2. The current response or approach: ${currentCode}\n3. The debug information in the provided images\n\nPlease analyze the debug information and provide feedback in this JSON format:\n{
   "solution": {
     "code": "The code or main answer here.",
@@ -94,10 +214,7 @@ export class LLMHelper {
   }
 }\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.`
 
-      const result = await this.model.generateContent([prompt, ...imageParts])
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
-      const parsed = JSON.parse(text)
+      const parsed = await this.generateStructured("debug", solutionResponseSchema, prompt, debugImagePaths)
       console.log("[LLMHelper] Parsed debug LLM response:", parsed)
       return parsed
     } catch (error) {
@@ -106,19 +223,118 @@ export class LLMHelper {
     }
   }
 
+  // Pulls account fields out of a call transcript; anything not said comes back null or empty
+  public async extractCrmFields(transcript: string): Promise<CrmExtraction> {
+    const prompt = `You are a sales operations assistant. Read this sales call transcript and extract CRM data in the following JSON format:\n{
+  "contacts": [{ "name": "Full name of a prospect-side person mentioned or speaking", "title": "Job title if stated, otherwise empty", "email": "Email if stated, otherwise empty" }],
+  "company": "The prospect's company name, or null",
+  "budget": "Budget as stated, e.g. \"$50k per year\", or null",
+  "timeline": "Buying or implementation timeline as stated, or null",
+  "decision_makers": ["People who sign off or influence the decision"],
+  "competitors": ["Competing vendors or tools mentioned"],
+  "next_steps": ["Agreed next steps"]
+}\nOnly include facts stated in the transcript, never guess. Use null or an empty array when something was not mentioned.\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.\n\nTranscript:\n${transcript}`
+
+    try {
+      return await this.generateStructured("crm-extraction", crmExtractionSchema, prompt)
+    } catch (error) {
+      console.error("[LLMHelper] Error extracting CRM fields:", error)
+      throw error
+    }
+  }
+
+  // today (YYYY-MM-DD) lets the model turn "by Friday" into a due date
+  // language: what the rep reads, so calls held in another language are summarized for them
+  public async summarizeCall(transcript: string, today: string, language?: string): Promise<CallSummary> {
+    const prompt = `You are a sales operations assistant. Summarize this sales call transcript in the following JSON format:\n{
+  "tldr": "Two or three sentences on what happened and where the deal stands",
+  "key_points": ["Main topics and facts discussed"],
+  "objections": ["Concerns or pushback the prospect raised"],
+  "commitments": {
+    "rep": ["What the rep's side promised to do"],
+    "prospect": ["What the prospect's side promised to do"]
+  },
+  "action_items": [{ "title": "Concrete follow-up task", "owner": "Who does it, or empty if unclear", "due_date": "YYYY-MM-DD, or null if no date was mentioned" }]
+}\nToday is ${today}; resolve relative dates such as "next Tuesday" against it. Only include what was said in the call and use empty arrays when a section has nothing.${language ? ` Write every text value in ${languageName(language)}, whatever language the call was held in.` : ""}\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.\n\nTranscript:\n${transcript}`
+
+    try {
+      return await this.generateStructured("call-summary", callSummarySchema, prompt)
+    } catch (error) {
+      console.error("[LLMHelper] Error summarizing call:", error)
+      throw error
+    }
+  }
+
+  private emailContext(
+    transcript: string,
+    account: EmailAccountDetails,
+    templateId: EmailTemplateId,
+    summary: CallSummary | null
+  ): string {
+    const template = EMAIL_TEMPLATES[templateId]
+    return `You are a sales rep writing a follow-up email after a call.\nEmail type: ${template.label}. ${template.instructions}\nRecipient: ${account.name || "unknown"}${account.company ? ` at ${account.company}` : ""}${account.stage ? ` (deal stage: ${account.stage})` : ""}.\nWrite in a warm, concise, professional tone. Only reference facts from the call; never invent prices, dates or commitments.${summary ? `\n\nCall summary:\n${JSON.stringify(summary, null, 2)}` : ""}\n\nTranscript:\n${transcript}`
+  }
+
+  public async draftFollowUpEmail(
+    transcript: string,
+    account: EmailAccountDetails,
+    templateId: EmailTemplateId,
+    summary: CallSummary | null
+  ): Promise<EmailDraft> {
+    const prompt = `${this.emailContext(transcript, account, templateId, summary)}\n\nReturn the email in the following JSON format:\n{
+  "subject": "Subject line",
+  "opening": "Greeting and first line",
+  "body": "Main content; separate paragraphs with blank lines",
+  "call_to_action": "The specific ask",
+  "closing": "Sign-off"
+}\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.`
+
+    try {
+      return await this.generateStructured("email-draft", emailDraftSchema, prompt)
+    } catch (error) {
+      console.error("[LLMHelper] Error drafting follow-up email:", error)
+      throw error
+    }
+  }
+
+  // Rewrites one section while keeping the rest of the (possibly hand-edited) draft as context
+  public async regenerateEmailSection(
+    transcript: string,
+    account: EmailAccountDetails,
+    templateId: EmailTemplateId,
+    summary: CallSummary | null,
+    draft: EmailDraft,
+    section: EmailSection
+  ): Promise<string> {
+    const prompt = `${this.emailContext(transcript, account, templateId, summary)}\n\nCurrent draft:\n${JSON.stringify(draft, null, 2)}\n\nRewrite only the "${section}" section so it reads differently but still fits the rest of the draft. Return it in the following JSON format:\n{ "text": "The new ${section}" }\nImportant: Return ONLY the JSON object, without any markdown formatting or code blocks.`
+
+    try {
+      const { text } = await this.generateStructured("email-draft", emailSectionSchema, prompt)
+      return text
+    } catch (error) {
+      console.error("[LLMHelper] Error regenerating email section:", error)
+      throw error
+    }
+  }
+
   public async analyzeAudioFile(audioPath: string) {
     try {
-      const audioData = await fs.promises.readFile(audioPath);
-      const audioPart = {
-        inlineData: {
-          data: audioData.toString("base64"),
-          mimeType: "audio/mp3"
-        }
-      };
+      const extension = path.extname(audioPath).slice(1).toLowerCase()
+      // Raw audio cannot be masked, so with redaction on only its local transcription is sent
+      if (this.redactor.isEnabled()) {
+        const { text } = await this.audioPipeline.run(
+          await fs.promises.readFile(audioPath),
+          extension,
+          (transcription) =>
+            this.provider.generateText(
+              `${this.systemPrompt}\n\nAudio transcription: "${transcription}"\n\nDescribe this audio clip in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the audio. Do not return a structured JSON object, just answer naturally as you would to a user.`
+            )
+        )
+        return { text, timestamp: Date.now() }
+      }
+      const audio = await this.fileToInlineMedia(audioPath, AUDIO_MIME_TYPES[extension] ?? "audio/mp3");
       const prompt = `${this.systemPrompt}\n\nDescribe this audio clip in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the audio. Do not return a structured JSON object, just answer naturally as you would to a user.`;
-      const result = await this.model.generateContent([prompt, audioPart]);
-      const response = await result.response;
-      const text = response.text();
+      const text = await this.provider.generateWithAudio(prompt, audio);
       return { text, timestamp: Date.now() };
     } catch (error) {
       console.error("Error analyzing audio file:", error);
@@ -126,205 +342,36 @@ export class LLMHelper {
     }
   }
 
-  // LOCAL SLM FOR AUDIO ONLY - Using whisper.cpp + Ollama
-  public async analyzeAudioFromBase64(data: string, mimeType: string) {
+  // LOCAL TRANSCRIPTION - whisper.cpp, then the configured provider for the suggestion
+  public async analyzeAudioFromBase64(
+    data: string,
+    mimeType: string,
+    stream?: StreamOptions,
+    languages?: LanguageOptions
+  ) {
     try {
-      const startTime = Date.now();
-      console.log("[LLMHelper] Starting local audio processing...");
-      
-      // Create temp directory if it doesn't exist
-      const tempDir = path.join(process.cwd(), 'temp');
-      await fs.promises.mkdir(tempDir, { recursive: true });
-      
-      // Determine file extension from mimeType
-      const ext = mimeType.includes('webm') ? 'webm' : 'wav';  // Default to wav
-      
-      const audioPath = path.join(tempDir, `audio_${Date.now()}.${ext}`);
-      
-      // Save audio to temp file
-      await fs.promises.writeFile(audioPath, Buffer.from(data, 'base64'));
-      console.log(`[LLMHelper] Audio saved to: ${audioPath}`);
-      
-      // Verify file exists and has content
-      const stats = await fs.promises.stat(audioPath);
-      console.log(`[LLMHelper] Audio file size: ${stats.size} bytes`);
-      
-      if (stats.size < 1000) {
-        console.warn("[LLMHelper] Audio file is very small, might be silent");
-      }
-      
-      // Convert to WAV for whisper with VOLUME BOOST
-      let processPath = audioPath;  // Start with original path
-      
-      // ALWAYS convert to WAV with volume boost for better results
-      const boostedWavPath = audioPath.replace(`.${ext}`, '_boosted.wav');
-      
-      try {
-        if (ext !== 'wav') {
-          // Convert and boost volume in one step
-          const convertCmd = `ffmpeg -i "${audioPath}" -af "volume=3.0,highpass=f=200,lowpass=f=3000" -ar 16000 -ac 1 -c:a pcm_s16le "${boostedWavPath}" -y`;
-          console.log(`[LLMHelper] Converting to WAV with volume boost...`);
-          console.log(`[LLMHelper] Command: ${convertCmd}`);
-          
-          await execAsync(convertCmd);
-          
-          if (fs.existsSync(boostedWavPath)) {
-            const wavStats = await fs.promises.stat(boostedWavPath);
-            console.log(`[LLMHelper] WAV created: ${boostedWavPath} (${wavStats.size} bytes)`);
-            processPath = boostedWavPath;  // UPDATE processPath to the new WAV file
-          } else {
-            console.error("[LLMHelper] WAV conversion failed");
-            throw new Error("WAV conversion failed");
-          }
-        } else {
-          // Even for WAV files, boost the volume
-          const boostCmd = `ffmpeg -i "${audioPath}" -af "volume=3.0" "${boostedWavPath}" -y`;
-          console.log(`[LLMHelper] Boosting volume for WAV file...`);
-          await execAsync(boostCmd);
-          
-          if (fs.existsSync(boostedWavPath)) {
-            processPath = boostedWavPath;  // UPDATE processPath to boosted WAV
-            console.log("[LLMHelper] Volume boosted WAV created");
-          } else {
-            processPath = audioPath;
-          }
-        }
-      } catch (e: any) {
-        console.error("[LLMHelper] FFmpeg error:", e.message);
-        // Try simpler conversion without filters
-        try {
-          const simpleWavPath = audioPath.replace(`.${ext}`, '.wav');
-          const simpleCmd = `ffmpeg -i "${audioPath}" -ar 16000 -ac 1 "${simpleWavPath}" -y`;
-          console.log("[LLMHelper] Trying simple conversion without filters...");
-          await execAsync(simpleCmd);
-          
-          if (fs.existsSync(simpleWavPath)) {
-            processPath = simpleWavPath;  // UPDATE processPath
-            console.log("[LLMHelper] Simple WAV conversion succeeded");
-          }
-        } catch (e2) {
-          console.error("[LLMHelper] All conversions failed, using original");
-          processPath = audioPath;
-        }
-      }
-      
-      // Verify the file we're about to process exists
-      if (!fs.existsSync(processPath)) {
-        throw new Error(`Audio file not found after conversion: ${processPath}`);
-      }
-      
-      console.log(`[LLMHelper] FINAL: Will use this file for whisper: ${processPath}`);
-      
-      // Transcribe with whisper.cpp (fastest)
-      console.log("[LLMHelper] Transcribing with whisper.cpp...");
-      
-      // Use the CORRECT whisper-cli binary that EXISTS in your build/bin folder
-      const whisperCommand = `./whisper.cpp/build/bin/whisper-cli -m ./whisper.cpp/models/ggml-tiny.en.bin -f "${processPath}" -t 8 --no-timestamps -l en`;
-      
-      console.log(`[LLMHelper] Running command: ${whisperCommand}`);
-      
-      const { stdout, stderr } = await execAsync(whisperCommand);
-      
-      // Extract transcription from output
-      let transcription = '';
-      
-      // whisper.cpp outputs directly to stdout when using -otxt
-      if (stdout) {
-        // Parse the output to get just the transcription text
-        const lines = stdout.split('\n');
-        for (const line of lines) {
-          // Skip metadata lines, get actual transcription
-          if (line && !line.startsWith('[') && !line.includes('whisper_') && !line.includes('main:')) {
-            transcription += line + ' ';
-          }
-        }
-        transcription = transcription.trim();
-      }
-      
-      // Also check for output file
-      const transcriptionFile = audioPath.replace(`.${ext}`, '.txt');
-      try {
-        const fileContent = await fs.promises.readFile(transcriptionFile, 'utf-8');
-        if (fileContent) {
-          transcription = fileContent.trim();
-        }
-        fs.promises.unlink(transcriptionFile).catch(() => {});
-      } catch (e) {
-        // File might not exist, use stdout transcription
-      }
-      
-      console.log(`\n[LIVE TRANSCRIPTION]: ${transcription}\n`);
-      console.log(`[LLMHelper] Transcription complete in ${Date.now() - startTime}ms`);
-      
-      // Process with Ollama local LLM
-      console.log("[LLMHelper] Processing with Ollama...");
-
-      // CHANGE: Properly escape the transcription for JSON
-      const escapedTranscription = transcription
-        .replace(/\\/g, '\\\\')  // Escape backslashes first
-        .replace(/"/g, '\\"')     // Escape quotes
-        .replace(/\n/g, '\\n')    // Escape newlines
-        .replace(/\r/g, '\\r')    // Escape carriage returns
-        .replace(/\t/g, '\\t');   // Escape tabs
-
-      const ollamaPrompt = `${this.systemPrompt}\n\nAudio transcription: "${escapedTranscription}"\n\n Provide a suggestion to the users question.`;
-
-      // CHANGE: Build the JSON payload as an object first, then stringify it
-      const ollamaPayload = {
-        model: "qwen2.5:0.5b",
-        prompt: ollamaPrompt,
-        stream: false,
-        options: {
-          temperature: 0.3,
-          num_predict: 100,
-          num_ctx: 512,
-          num_thread: 8,
-          seed: 42
-        }
-      };
-
-      // CHANGE: Write to temp file to avoid shell escaping issues
-      const payloadPath = path.join(tempDir, `ollama_payload_${Date.now()}.json`);
-      await fs.promises.writeFile(payloadPath, JSON.stringify(ollamaPayload));
-
-      // CHANGE: Use curl with file input instead of inline JSON
-      const ollamaCommand = `curl -s http://localhost:11434/api/generate -d @"${payloadPath}"`;
-
-      const { stdout: ollamaOutput } = await execAsync(ollamaCommand);
-      const ollamaResponse = JSON.parse(ollamaOutput);
-
-      // CHANGE: Clean up the payload file
-      fs.promises.unlink(payloadPath).catch(() => {});
-
-      console.log(`[LLMHelper] Total processing time: ${Date.now() - startTime}ms`);
-      
-      // Clean up temp file
-      fs.promises.unlink(audioPath).catch(() => {});
-      
-      return { 
-        text: ollamaResponse.response, 
-        timestamp: Date.now()
-      };
-      
+      const extension = mimeType.includes("webm") ? "webm" : "wav"
+      const { text } = await this.audioPipeline.run(
+        Buffer.from(data, "base64"),
+        extension,
+        (transcription) =>
+          this.provider.generateText(
+            `${this.systemPrompt}\n\nAudio transcription: "${transcription}"\n\n Provide a suggestion to the users question.${this.answerInstruction(languages)}`,
+            { temperature: 0.3, maxOutputTokens: 100, ...stream }
+          ),
+        languages?.call
+      )
+      return { text, timestamp: Date.now() }
     } catch (error) {
-      console.error("Error analyzing audio from base64:", error);
-      throw error;
+      console.error("Error analyzing audio from base64:", error)
+      throw error
     }
   }
 
-  public async analyzeImageFile(imagePath: string) {
+  public async analyzeImageFile(imagePath: string, stream?: StreamOptions) {
     try {
-      const imageData = await fs.promises.readFile(imagePath);
-      const imagePart = {
-        inlineData: {
-          data: imageData.toString("base64"),
-          mimeType: "image/png"
-        }
-      };
       const prompt = `${this.systemPrompt}\n\nDescribe the content of this image in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the image. Do not return a structured JSON object, just answer naturally as you would to a user. Be concise and brief.`;
-      const result = await this.model.generateContent([prompt, imagePart]);
-      const response = await result.response;
-      const text = response.text();
+      const text = await this.generateWithScreenshots(prompt, [imagePath], stream);
       return { text, timestamp: Date.now() };
     } catch (error) {
       console.error("Error analyzing image file:", error);
@@ -332,14 +379,31 @@ export class LLMHelper {
     }
   }
 
-  public async chatWithGemini(message: string): Promise<string> {
+  public async chatWithGemini(
+    message: string,
+    stream?: StreamOptions,
+    languages?: LanguageOptions
+  ): Promise<string> {
     try {
-      const result = await this.model.generateContent(message);
-      const response = await result.response;
-      return response.text();
+      return await this.provider.chat(
+        [{ role: "user", content: `${message}${this.answerInstruction(languages)}` }],
+        stream
+      );
     } catch (error) {
       console.error("[LLMHelper] Error in chatWithGemini:", error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  // Live translation of one utterance for the rep; text already in the target language comes back unchanged
+  public async translate(text: string, language: string): Promise<string> {
+    try {
+      const target = languageName(language)
+      const prompt = `Translate this utterance from a sales call into ${target}. Reply with the translation only, without quotes or notes. If it is already in ${target}, repeat it unchanged.\n\n${text}`
+      return (await this.provider.generateText(prompt, { temperature: 0 })).trim()
+    } catch (error) {
+      console.error("[LLMHelper] Error translating:", error)
+      throw error
+    }
+  }
+}
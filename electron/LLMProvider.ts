@@ -0,0 +1,115 @@
+// LLMProvider.ts
+
+export type LLMProviderName = "gemini" | "openai" | "ollama"
+
+// Base64 payload plus its mime type, e.g. a screenshot or an audio clip
+export interface InlineMedia {
+  data: string
+  mimeType: string
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface GenerateOptions {
+  temperature?: number
+  maxOutputTokens?: number
+  signal?: AbortSignal
+  // When set the provider streams and calls this with every partial chunk;
+  // the returned promise still resolves with the full text
+  onChunk?: (chunk: string) => void
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  readonly model: string
+  // False for text-only models; screenshots are then sent as their OCR text
+  readonly supportsImages: boolean
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>
+  generateWithImages(
+    prompt: string,
+    images: InlineMedia[],
+    options?: GenerateOptions
+  ): Promise<string>
+  generateWithAudio(
+    prompt: string,
+    audio: InlineMedia,
+    options?: GenerateOptions
+  ): Promise<string>
+  chat(messages: ChatMessage[], options?: GenerateOptions): Promise<string>
+}
+
+export interface LLMConfig {
+  provider: LLMProviderName
+  model: string
+  apiKey?: string
+  baseUrl?: string
+  vision: boolean
+}
+
+export class LLMProviderError extends Error {
+  constructor(
+    public readonly provider: LLMProviderName,
+    message: string,
+    public readonly status?: number
+  ) {
+    super(`[${provider}] ${message}`)
+    this.name = "LLMProviderError"
+  }
+}
+
+// Shared by the HTTP based providers (OpenAI-compatible and Ollama)
+export async function postJson(
+  provider: LLMProviderName,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal
+    })
+  } catch (error: any) {
+    if (error?.name === "AbortError") throw error
+    throw new LLMProviderError(provider, `Request to ${url} failed: ${error.message}`)
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "")
+    throw new LLMProviderError(
+      provider,
+      `${response.status} ${response.statusText}${detail ? `: ${detail}` : ""}`,
+      response.status
+    )
+  }
+  return response
+}
+
+// Splits a streamed fetch body into lines (SSE for OpenAI, NDJSON for Ollama)
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+    let newline = buffer.indexOf("\n")
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim()
+      buffer = buffer.slice(newline + 1)
+      if (line) yield line
+      newline = buffer.indexOf("\n")
+    }
+  }
+  const rest = (buffer + decoder.decode()).trim()
+  if (rest) yield rest
+}
@@ -0,0 +1,84 @@
+// LLMProviderFactory.ts
+
+import { GeminiProvider } from "./GeminiProvider"
+import { OllamaProvider } from "./OllamaProvider"
+import { OpenAIProvider } from "./OpenAIProvider"
+import { LLMConfig, LLMProvider, LLMProviderName } from "./LLMProvider"
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  gemini: "gemini-2.0-flash",
+  openai: "gpt-4o-mini",
+  ollama: "qwen2.5:0.5b"
+}
+
+// The default Ollama model is text-only; the others take images
+const DEFAULT_VISION: Record<LLMProviderName, boolean> = {
+  gemini: true,
+  openai: true,
+  ollama: false
+}
+
+const DEFAULT_BASE_URLS: Record<LLMProviderName, string | undefined> = {
+  gemini: undefined,
+  openai: "https://api.openai.com/v1",
+  ollama: "http://localhost:11434"
+}
+
+// Reads the provider selection from the environment (.env is loaded by ProcessingHelper):
+//   LLM_PROVIDER  gemini (default) | openai | ollama
+//   LLM_MODEL     overrides the provider's default model
+//   LLM_VISION    true | false, whether the model takes images (screenshots go as OCR text otherwise)
+//   GEMINI_API_KEY / OPENAI_API_KEY, OPENAI_BASE_URL, OLLAMA_HOST
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const provider = (env.LLM_PROVIDER || "gemini").toLowerCase() as LLMProviderName
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${env.LLM_PROVIDER}" (expected gemini, openai or ollama)`
+    )
+  }
+
+  const apiKey =
+    provider === "gemini"
+      ? env.GEMINI_API_KEY
+      : provider === "openai"
+      ? env.OPENAI_API_KEY
+      : undefined
+  const baseUrl =
+    provider === "openai"
+      ? env.OPENAI_BASE_URL
+      : provider === "ollama"
+      ? env.OLLAMA_HOST
+      : undefined
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    apiKey,
+    baseUrl: baseUrl || DEFAULT_BASE_URLS[provider],
+    vision: env.LLM_VISION ? env.LLM_VISION.toLowerCase() === "true" : DEFAULT_VISION[provider]
+  }
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case "gemini":
+      if (!config.apiKey) {
+        throw new Error("GEMINI_API_KEY not found in environment variables")
+      }
+      return new GeminiProvider(config.apiKey, config.model)
+    case "openai":
+      // The key is optional so self-hosted OpenAI-compatible servers work too
+      return new OpenAIProvider(
+        config.model,
+        config.baseUrl || DEFAULT_BASE_URLS.openai!,
+        config.apiKey,
+        config.vision
+      )
+    case "ollama":
+      return new OllamaProvider(
+        config.model,
+        config.baseUrl || DEFAULT_BASE_URLS.ollama!,
+        config.vision
+      )
+  }
+}
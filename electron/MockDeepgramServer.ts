@@ -0,0 +1,172 @@
+// MockDeepgramServer.ts
+// A local stand-in for Deepgram's /v1/listen so live transcription can be developed offline.
+// It does no speech recognition: a simple energy detector decides when someone is talking,
+// and each utterance is "transcribed" as the next line of a scripted sales call, sent as
+// SpeechStarted, interim Results, a final Results and UtteranceEnd like the real API.
+//
+// Started by the app when DEEPGRAM_MOCK=true, or on its own with `npm run mock:deepgram`.
+
+import http from "node:http"
+import { v4 as uuidv4 } from "uuid"
+import { WebSocketServer, WebSocket } from "ws"
+import { PCM_BYTES_PER_SECOND, TranscriptWord } from "./TranscriptionEngine"
+import { DEFAULT_MOCK_DEEPGRAM_PORT } from "./TranscriptionEngineFactory"
+
+const SCRIPT = [
+  "Thanks for making the time today, how are things going on your side?",
+  "Pretty busy, we are trying to get the new support team onboarded before the end of the quarter.",
+  "Makes sense. What does your current process for handling tickets look like?",
+  "Honestly it is mostly spreadsheets and a shared inbox, which is why we started looking around.",
+  "Got it. Who else would be involved in evaluating a tool like ours?",
+  "Our VP of operations signs off, and IT will want to review security before anything goes live.",
+  "Do you have a budget range in mind for this project?",
+  "We set aside around forty thousand for the first year.",
+  "Great. How about I send over a proposal and we book a technical review with IT next week?",
+  "That works for us, Thursday afternoon would be best."
+]
+
+const SPEECH_RMS = 500 // Int16 RMS above which a frame counts as speech
+const SILENCE_TO_FINAL_S = 0.8
+const INTERIM_EVERY_S = 0.5
+const SECONDS_PER_WORD = 0.3
+
+function frameRms(pcm: Buffer): number {
+  const samples = Math.floor(pcm.length / 2)
+  if (samples === 0) return 0
+  let sum = 0
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(i * 2)
+    sum += sample * sample
+  }
+  return Math.sqrt(sum / samples)
+}
+
+function results(
+  requestId: string,
+  line: string,
+  wordCount: number,
+  start: number,
+  end: number,
+  speaker: number | undefined,
+  isFinal: boolean
+) {
+  const tokens = line.split(/\s+/).slice(0, wordCount)
+  const step = tokens.length > 0 ? (end - start) / tokens.length : 0
+  const words: TranscriptWord[] = tokens.map((token, index) => ({
+    word: token.toLowerCase().replace(/[^\w']/g, ""),
+    punctuated_word: token,
+    start: start + index * step,
+    end: start + (index + 1) * step,
+    ...(speaker === undefined ? {} : { speaker })
+  }))
+  return {
+    type: "Results",
+    channel_index: [0, 1],
+    start,
+    duration: end - start,
+    is_final: isFinal,
+    speech_final: isFinal,
+    channel: { alternatives: [{ transcript: tokens.join(" "), confidence: 0.99, words }] },
+    metadata: { request_id: requestId, model_info: { name: "mock" } }
+  }
+}
+
+function handleConnection(socket: WebSocket, request: http.IncomingMessage, lineCursor: { next: number }) {
+  const params = new URL(request.url ?? "/", "http://localhost").searchParams
+  const diarize = params.get("diarize") === "true"
+  const requestId = uuidv4()
+  const send = (message: object) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+  }
+
+  let receivedBytes = 0
+  let utterance: { line: string; speaker: number | undefined; start: number } | null = null
+  let lastSpeechAt = 0
+  let lastInterimAt = 0
+
+  const now = () => receivedBytes / PCM_BYTES_PER_SECOND
+  const wordsSoFar = (line: string, start: number) =>
+    Math.min(line.split(/\s+/).length, Math.max(1, Math.floor((now() - start) / SECONDS_PER_WORD)))
+
+  const finish = () => {
+    if (!utterance) return
+    const { line, speaker, start } = utterance
+    const end = Math.max(lastSpeechAt, start + 0.1)
+    send(results(requestId, line, Infinity, start, end, speaker, true))
+    send({ type: "UtteranceEnd", channel: [0, 1], last_word_end: end })
+    utterance = null
+  }
+
+  socket.on("message", (data, isBinary) => {
+    if (!isBinary) {
+      const message = JSON.parse(data.toString())
+      if (message.type === "CloseStream") {
+        finish()
+        socket.close(1000, "CloseStream")
+      }
+      return // KeepAlive and anything else needs no reply
+    }
+
+    const pcm = data as Buffer
+    receivedBytes += pcm.length
+    const speaking = frameRms(pcm) >= SPEECH_RMS
+
+    if (speaking) {
+      lastSpeechAt = now()
+      if (!utterance) {
+        const index = lineCursor.next++ % SCRIPT.length
+        utterance = { line: SCRIPT[index], speaker: diarize ? index % 2 : undefined, start: now() }
+        lastInterimAt = now()
+        send({ type: "SpeechStarted", channel: [0, 1], timestamp: utterance.start })
+      }
+    }
+
+    if (!utterance) return
+    if (now() - lastSpeechAt >= SILENCE_TO_FINAL_S) {
+      finish()
+    } else if (now() - lastInterimAt >= INTERIM_EVERY_S) {
+      lastInterimAt = now()
+      const { line, speaker, start } = utterance
+      send(results(requestId, line, wordsSoFar(line, start), start, now(), speaker, false))
+    }
+  })
+
+  socket.on("close", () => finish())
+}
+
+export function startMockDeepgramServer(port: number = DEFAULT_MOCK_DEEPGRAM_PORT): Promise<http.Server> {
+  // The script carries on across connections so every stream hears a different line
+  const lineCursor = { next: 0 }
+
+  // Pre-recorded requests get the next scripted line as the whole transcript
+  const server = http.createServer((request, response) => {
+    request.resume()
+    request.on("end", () => {
+      const transcript = SCRIPT[lineCursor.next++ % SCRIPT.length]
+      response.writeHead(200, { "Content-Type": "application/json" })
+      response.end(
+        JSON.stringify({
+          metadata: { request_id: uuidv4() },
+          results: { channels: [{ alternatives: [{ transcript, confidence: 0.99, words: [] }] }] }
+        })
+      )
+    })
+  })
+  const wss = new WebSocketServer({ server })
+  wss.on("connection", (socket, request) => handleConnection(socket, request, lineCursor))
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject)
+    server.listen(port, "127.0.0.1", () => {
+      console.log(`[MockDeepgram] Listening on ws://127.0.0.1:${port}/v1/listen`)
+      resolve(server)
+    })
+  })
+}
+
+if (require.main === module) {
+  startMockDeepgramServer(Number(process.env.DEEPGRAM_MOCK_PORT) || undefined).catch((error) => {
+    console.error("[MockDeepgram] Could not start:", error)
+    process.exit(1)
+  })
+}
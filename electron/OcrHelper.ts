@@ -0,0 +1,179 @@
+// OcrHelper.ts
+// Reads the text in screenshots with tesseract.js, so text-only models can work with them and
+// they can be searched. Results are cached next to the image as <name>.ocr.json.
+
+import path from "node:path"
+import fs from "node:fs"
+import { app } from "electron"
+import { Bbox, createWorker, Worker } from "tesseract.js"
+
+// Pixels of the screenshot, origin top-left
+export interface OcrBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface OcrWord {
+  text: string
+  confidence: number // 0-100
+  box: OcrBox
+}
+
+export interface OcrLine {
+  text: string
+  confidence: number
+  box: OcrBox
+  words: OcrWord[]
+}
+
+export interface OcrResult {
+  text: string
+  confidence: number
+  lines: OcrLine[]
+}
+
+export interface OcrMatch {
+  path: string
+  lines: OcrLine[] // the lines containing the query
+}
+
+export interface OcrConfig {
+  languages: string[] // tesseract codes, e.g. eng, deu
+  langPath?: string // folder with <lang>.traineddata; downloaded once into userData otherwise
+}
+
+// Bump when OcrResult changes so stale caches are read again
+const CACHE_VERSION = 1
+
+// OCR_LANGUAGES  "+"-separated tesseract languages (default eng)
+// OCR_LANG_PATH  local folder with the traineddata files, for machines without internet
+export function loadOcrConfig(env: NodeJS.ProcessEnv = process.env): OcrConfig {
+  return {
+    languages: (env.OCR_LANGUAGES || "eng").split("+").map((lang) => lang.trim()).filter(Boolean),
+    langPath: env.OCR_LANG_PATH || undefined
+  }
+}
+
+export const ocrCachePath = (imagePath: string) =>
+  path.join(path.dirname(imagePath), `${path.parse(imagePath).name}.ocr.json`)
+
+const toBox = ({ x0, y0, x1, y1 }: Bbox): OcrBox => ({
+  x: x0,
+  y: y0,
+  width: x1 - x0,
+  height: y1 - y0
+})
+
+export class OcrHelper {
+  private worker: Promise<Worker> | null = null
+  // One tesseract worker recognizes one image at a time; requests for the same image share a run
+  private queue: Promise<unknown> = Promise.resolve()
+  private readonly pending = new Map<string, Promise<OcrResult>>()
+
+  constructor(private readonly config: OcrConfig = loadOcrConfig()) {}
+
+  // The worker loads several MB of language data, so it is only started on first use
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      const cachePath = path.join(app.getPath("userData"), "tesseract")
+      fs.mkdirSync(cachePath, { recursive: true })
+      this.worker = createWorker(this.config.languages, undefined, {
+        cachePath,
+        ...(this.config.langPath ? { langPath: this.config.langPath, gzip: false } : {})
+      })
+      this.worker.catch(() => {
+        this.worker = null
+      })
+    }
+    return this.worker
+  }
+
+  public recognize(imagePath: string): Promise<OcrResult> {
+    const running = this.pending.get(imagePath)
+    if (running) return running
+
+    const result = this.readCache(imagePath).then((cached) => {
+      if (cached) return cached
+      const run = this.queue.catch(() => {}).then(() => this.run(imagePath))
+      this.queue = run
+      return run
+    })
+    this.pending.set(imagePath, result)
+    result
+      .finally(() => this.pending.delete(imagePath))
+      .catch(() => {})
+    return result
+  }
+
+  // Text of the image, or null when OCR failed; callers treat unreadable images as empty
+  public async recognizeText(imagePath: string): Promise<string | null> {
+    try {
+      return (await this.recognize(imagePath)).text
+    } catch (error) {
+      console.error(`[OcrHelper] Could not read text from ${imagePath}:`, error)
+      return null
+    }
+  }
+
+  // Case-insensitive; images that cannot be read are left out
+  public async search(query: string, imagePaths: string[]): Promise<OcrMatch[]> {
+    const needle = query.trim().toLowerCase()
+    if (!needle) return []
+    const matches: OcrMatch[] = []
+    for (const imagePath of imagePaths) {
+      try {
+        const { lines } = await this.recognize(imagePath)
+        const hits = lines.filter((line) => line.text.toLowerCase().includes(needle))
+        if (hits.length) matches.push({ path: imagePath, lines: hits })
+      } catch (error) {
+        console.error(`[OcrHelper] Skipping ${imagePath} in search:`, error)
+      }
+    }
+    return matches
+  }
+
+  public async dispose(): Promise<void> {
+    const worker = this.worker
+    this.worker = null
+    if (worker) await (await worker).terminate()
+  }
+
+  private async readCache(imagePath: string): Promise<OcrResult | null> {
+    try {
+      const cached = JSON.parse(await fs.promises.readFile(ocrCachePath(imagePath), "utf-8"))
+      return cached.version === CACHE_VERSION ? cached.result : null
+    } catch {
+      return null
+    }
+  }
+
+  private async run(imagePath: string): Promise<OcrResult> {
+    const worker = await this.getWorker()
+    const { data } = await worker.recognize(imagePath, {}, { text: true, blocks: true })
+    const result: OcrResult = {
+      text: data.text.trim(),
+      confidence: data.confidence,
+      lines: data.lines.map((line) => ({
+        text: line.text.trim(),
+        confidence: line.confidence,
+        box: toBox(line.bbox),
+        words: line.words.map((word) => ({
+          text: word.text,
+          confidence: word.confidence,
+          box: toBox(word.bbox)
+        }))
+      }))
+    }
+    // The image may have been deleted while it was being read
+    if (fs.existsSync(imagePath)) {
+      await fs.promises.writeFile(
+        ocrCachePath(imagePath),
+        JSON.stringify({ version: CACHE_VERSION, result }),
+        "utf-8"
+      )
+    }
+    return result
+  }
+}
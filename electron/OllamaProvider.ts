@@ -0,0 +1,129 @@
+// OllamaProvider.ts
+// Talks to a local Ollama daemon so the app can run without any cloud API
+
+import {
+  ChatMessage,
+  GenerateOptions,
+  InlineMedia,
+  LLMProvider,
+  LLMProviderError,
+  postJson,
+  readLines
+} from "./LLMProvider"
+
+export class OllamaProvider implements LLMProvider {
+  public readonly name = "ollama" as const
+
+  constructor(
+    public readonly model: string,
+    private readonly host: string,
+    public readonly supportsImages: boolean = false
+  ) {}
+
+  private url(endpoint: string): string {
+    return `${this.host.replace(/\/$/, "")}${endpoint}`
+  }
+
+  private toOptions(options?: GenerateOptions) {
+    return {
+      temperature: options?.temperature,
+      num_predict: options?.maxOutputTokens
+    }
+  }
+
+  // Ollama streams newline-delimited JSON objects until one has done: true
+  private async collectStream(
+    response: Response,
+    pick: (json: any) => unknown,
+    onChunk: (chunk: string) => void
+  ): Promise<string> {
+    let text = ""
+    for await (const line of readLines(response)) {
+      const json = JSON.parse(line)
+      if (json.error) throw new LLMProviderError(this.name, json.error)
+      const piece = pick(json)
+      if (typeof piece === "string" && piece) {
+        text += piece
+        onChunk(piece)
+      }
+      if (json.done) break
+    }
+    return text
+  }
+
+  private async generate(
+    prompt: string,
+    images: string[] | undefined,
+    options?: GenerateOptions
+  ): Promise<string> {
+    const response = await postJson(
+      this.name,
+      this.url("/api/generate"),
+      {
+        model: this.model,
+        prompt,
+        images,
+        stream: Boolean(options?.onChunk),
+        options: this.toOptions(options)
+      },
+      {},
+      options?.signal
+    )
+    if (options?.onChunk) {
+      return this.collectStream(response, (json) => json.response, options.onChunk)
+    }
+    const json: any = await response.json()
+    if (typeof json?.response !== "string") {
+      throw new LLMProviderError(this.name, "Response did not contain any text")
+    }
+    return json.response
+  }
+
+  public async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.generate(prompt, undefined, options)
+  }
+
+  public async generateWithImages(
+    prompt: string,
+    images: InlineMedia[],
+    options?: GenerateOptions
+  ): Promise<string> {
+    // Requires a vision model (llava, llama3.2-vision, ...)
+    return this.generate(
+      prompt,
+      images.map((image) => image.data),
+      options
+    )
+  }
+
+  public async generateWithAudio(): Promise<string> {
+    throw new LLMProviderError(
+      this.name,
+      "Ollama models cannot take audio input; transcribe the audio first"
+    )
+  }
+
+  public async chat(messages: ChatMessage[], options?: GenerateOptions): Promise<string> {
+    const response = await postJson(
+      this.name,
+      this.url("/api/chat"),
+      {
+        model: this.model,
+        messages,
+        stream: Boolean(options?.onChunk),
+        options: this.toOptions(options)
+      },
+      {},
+      options?.signal
+    )
+    if (options?.onChunk) {
+      return this.collectStream(response, (json) => json.message?.content, options.onChunk)
+    }
+    const json: any = await response.json()
+    const content = json?.message?.content
+    if (typeof content !== "string") {
+      throw new LLMProviderError(this.name, "Response did not contain a message")
+    }
+    return content
+  }
+}
@@ -0,0 +1,113 @@
+// OpenAIProvider.ts
+// Works against api.openai.com and any server exposing the same /chat/completions API
+// (LM Studio, vLLM, llama.cpp server, LocalAI, ...)
+
+import {
+  ChatMessage,
+  GenerateOptions,
+  InlineMedia,
+  LLMProvider,
+  LLMProviderError,
+  postJson,
+  readLines
+} from "./LLMProvider"
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "input_audio"; input_audio: { data: string; format: string } }
+
+interface OpenAIMessage {
+  role: "system" | "user" | "assistant"
+  content: string | OpenAIContentPart[]
+}
+
+export class OpenAIProvider implements LLMProvider {
+  public readonly name = "openai" as const
+
+  constructor(
+    public readonly model: string,
+    private readonly baseUrl: string,
+    private readonly apiKey?: string,
+    public readonly supportsImages: boolean = true
+  ) {}
+
+  private async complete(messages: OpenAIMessage[], options?: GenerateOptions): Promise<string> {
+    const headers: Record<string, string> = {}
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`
+
+    const response = await postJson(
+      this.name,
+      `${this.baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        model: this.model,
+        messages,
+        temperature: options?.temperature,
+        max_tokens: options?.maxOutputTokens,
+        stream: Boolean(options?.onChunk)
+      },
+      headers,
+      options?.signal
+    )
+
+    if (options?.onChunk) {
+      // Server-sent events: "data: {...}" per delta, terminated by "data: [DONE]"
+      let text = ""
+      for await (const line of readLines(response)) {
+        if (!line.startsWith("data:")) continue
+        const data = line.slice(5).trim()
+        if (data === "[DONE]") break
+        const piece = JSON.parse(data)?.choices?.[0]?.delta?.content
+        if (typeof piece === "string" && piece) {
+          text += piece
+          options.onChunk(piece)
+        }
+      }
+      return text
+    }
+
+    const json: any = await response.json()
+    const content = json?.choices?.[0]?.message?.content
+    if (typeof content !== "string") {
+      throw new LLMProviderError(this.name, "Response did not contain a message")
+    }
+    return content
+  }
+
+  public async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.complete([{ role: "user", content: prompt }], options)
+  }
+
+  public async generateWithImages(
+    prompt: string,
+    images: InlineMedia[],
+    options?: GenerateOptions
+  ): Promise<string> {
+    const content: OpenAIContentPart[] = [
+      { type: "text", text: prompt },
+      ...images.map((image) => ({
+        type: "image_url" as const,
+        image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+      }))
+    ]
+    return this.complete([{ role: "user", content }], options)
+  }
+
+  public async generateWithAudio(
+    prompt: string,
+    audio: InlineMedia,
+    options?: GenerateOptions
+  ): Promise<string> {
+    // input_audio only accepts wav and mp3
+    const format = audio.mimeType.includes("wav") ? "wav" : "mp3"
+    const content: OpenAIContentPart[] = [
+      { type: "text", text: prompt },
+      { type: "input_audio", input_audio: { data: audio.data, format } }
+    ]
+    return this.complete([{ role: "user", content }], options)
+  }
+
+  public async chat(messages: ChatMessage[], options?: GenerateOptions): Promise<string> {
+    return this.complete(messages, options)
+  }
+}
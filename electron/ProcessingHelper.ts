@@ -1,7 +1,17 @@
 // ProcessingHelper.ts
 
 import { AppState } from "./main"
-import { LLMHelper } from "./LLMHelper"
+import { LanguageOptions, LLMHelper, StreamOptions } from "./LLMHelper"
+import { createLLMProvider, loadLLMConfig } from "./LLMProviderFactory"
+import { RedactingProvider } from "./RedactingProvider"
+import { loadWhisperConfig } from "./TranscriptionEngineFactory"
+import { AudioPipeline, loadAudioPipelineConfig } from "./AudioPipeline"
+import { CallImporter, ImportProgress, ImportResult, IMPORT_EXTENSIONS } from "./CallImporter"
+import { CallSummary, CrmExtraction, EmailDraft, StructuredOutputError } from "./ResponseSchemas"
+import { EmailAccountDetails, EmailSection, EmailTemplateId } from "./EmailTemplates"
+import { Task } from "./TaskStore"
+import { formatTranscript } from "./SessionStore"
+import { app } from "electron"
 import dotenv from "dotenv"
 
 dotenv.config()
@@ -9,20 +19,34 @@ dotenv.config()
 const isDev = process.env.NODE_ENV === "development"
 const isDevTest = process.env.IS_DEV_TEST === "true"
 const MOCK_API_WAIT_TIME = Number(process.env.MOCK_API_WAIT_TIME) || 500
+// Imported recordings are transcribed in chunks of this many seconds
+const IMPORT_CHUNK_SECONDS = Number(process.env.IMPORT_CHUNK_SECONDS) || 30
 
 export class ProcessingHelper {
   private appState: AppState
   private llmHelper: LLMHelper
+  private callImporter: CallImporter
   private currentProcessingAbortController: AbortController | null = null
   private currentExtraProcessingAbortController: AbortController | null = null
 
   constructor(appState: AppState) {
     this.appState = appState
-    const apiKey = process.env.GEMINI_API_KEY
-    if (!apiKey) {
-      throw new Error("GEMINI_API_KEY not found in environment variables")
-    }
-    this.llmHelper = new LLMHelper(apiKey)
+    const config = loadLLMConfig()
+    console.log(`[ProcessingHelper] Using ${config.provider} provider (${config.model})`)
+    const audioPipeline = new AudioPipeline(loadAudioPipelineConfig(loadWhisperConfig(app.getAppPath())))
+    const redactor = appState.getRedactor()
+    this.llmHelper = new LLMHelper(
+      new RedactingProvider(createLLMProvider(config), redactor),
+      audioPipeline,
+      appState.getOcrHelper(),
+      redactor
+    )
+    this.callImporter = new CallImporter(
+      audioPipeline,
+      appState.getSessionStore(),
+      () => appState.getTranscriptionEngine(),
+      IMPORT_CHUNK_SECONDS
+    )
   }
 
   public async processScreenshots(): Promise<void> {
@@ -41,7 +65,7 @@ export class ProcessingHelper {
       // Check if last screenshot is an audio file
       const allPaths = this.appState.getScreenshotHelper().getScreenshotQueue();
       const lastPath = allPaths[allPaths.length - 1];
-      if (lastPath.endsWith('.mp3') || lastPath.endsWith('.wav')) {
+      if (IMPORT_EXTENSIONS.some(extension => lastPath.toLowerCase().endsWith(`.${extension}`))) {
         mainWindow.webContents.send(this.appState.PROCESSING_EVENTS.INITIAL_START);
         this.appState.setView('solutions');
         try {
@@ -118,10 +142,17 @@ export class ProcessingHelper {
 
       } catch (error: any) {
         console.error("Debug processing error:", error)
-        mainWindow.webContents.send(
-          this.appState.PROCESSING_EVENTS.DEBUG_ERROR,
-          error.message
-        )
+        if (error instanceof StructuredOutputError) {
+          mainWindow.webContents.send(
+            this.appState.PROCESSING_EVENTS.STRUCTURED_OUTPUT_ERROR,
+            { stage: error.stage, field: error.field, reason: error.reason }
+          )
+        } else {
+          mainWindow.webContents.send(
+            this.appState.PROCESSING_EVENTS.DEBUG_ERROR,
+            error.message
+          )
+        }
       } finally {
         this.currentExtraProcessingAbortController = null
       }
@@ -142,9 +173,14 @@ export class ProcessingHelper {
     this.appState.setHasDebugged(false)
   }
 
-  public async processAudioBase64(data: string, mimeType: string) {
+  public async processAudioBase64(
+    data: string,
+    mimeType: string,
+    stream?: StreamOptions,
+    languages?: LanguageOptions
+  ) {
     // Directly use LLMHelper to analyze inline base64 audio
-    return this.llmHelper.analyzeAudioFromBase64(data, mimeType);
+    return this.llmHelper.analyzeAudioFromBase64(data, mimeType, stream, languages);
   }
 
   // Add audio file processing method
@@ -152,6 +188,84 @@ export class ProcessingHelper {
     return this.llmHelper.analyzeAudioFile(filePath);
   }
 
+  // Transcribes a recorded call into a new, already ended session
+  public async importRecording(
+    filePath: string,
+    onProgress: (progress: ImportProgress) => void,
+    signal?: AbortSignal,
+    language?: string
+  ): Promise<ImportResult> {
+    return this.callImporter.run(filePath, onProgress, signal, language)
+  }
+
+  public async extractCrmFields(sessionId: string): Promise<CrmExtraction> {
+    const session = await this.appState.getSessionStore().getSession(sessionId)
+    const transcript = formatTranscript(session)
+    if (!transcript.trim()) {
+      throw new Error("This session has no transcript to extract from")
+    }
+    return this.llmHelper.extractCrmFields(transcript)
+  }
+
+  // Summarizes a finished call, stores the summary in its log and turns action items into tasks
+  public async finishSession(sessionId: string): Promise<{ summary: CallSummary; tasks: Task[] }> {
+    const session = await this.appState.getSessionStore().getSession(sessionId)
+    const transcript = formatTranscript(session)
+    if (!transcript.trim()) {
+      throw new Error("This session has no transcript to summarize")
+    }
+
+    const today = new Date().toLocaleDateString("en-CA") // YYYY-MM-DD in local time
+    const { repLanguage } = this.appState.getSettingsStore().get().language
+    const summary = await this.llmHelper.summarizeCall(transcript, today, repLanguage)
+    await this.appState.getSessionStore().saveSummary(sessionId, summary)
+    const tasks = await this.appState.getTaskStore().replaceForSession(
+      sessionId,
+      summary.action_items.map((item) => ({
+        title: item.title,
+        owner: item.owner,
+        dueDate: item.due_date
+      }))
+    )
+    return { summary, tasks }
+  }
+
+  private async loadTranscript(sessionId: string) {
+    const session = await this.appState.getSessionStore().getSession(sessionId)
+    const transcript = formatTranscript(session)
+    if (!transcript.trim()) {
+      throw new Error("This session has no transcript to write from")
+    }
+    return { session, transcript }
+  }
+
+  public async draftFollowUpEmail(
+    sessionId: string,
+    account: EmailAccountDetails,
+    templateId: EmailTemplateId
+  ): Promise<EmailDraft> {
+    const { session, transcript } = await this.loadTranscript(sessionId)
+    return this.llmHelper.draftFollowUpEmail(transcript, account, templateId, session.summary)
+  }
+
+  public async regenerateEmailSection(
+    sessionId: string,
+    account: EmailAccountDetails,
+    templateId: EmailTemplateId,
+    draft: EmailDraft,
+    section: EmailSection
+  ): Promise<string> {
+    const { session, transcript } = await this.loadTranscript(sessionId)
+    return this.llmHelper.regenerateEmailSection(
+      transcript,
+      account,
+      templateId,
+      session.summary,
+      draft,
+      section
+    )
+  }
+
   public getLLMHelper() {
     return this.llmHelper;
   }
@@ -0,0 +1,79 @@
+// RedactingProvider.ts
+// Wraps the configured provider so every prompt is masked on its way out and the original
+// values are put back into the reply. Images must already be masked by the caller (LLMHelper
+// does this from the screenshot's OCR text); audio cannot be checked, so it is refused.
+
+import {
+  ChatMessage,
+  GenerateOptions,
+  InlineMedia,
+  LLMProvider,
+  LLMProviderName
+} from "./LLMProvider"
+import { RedactionError, RedactionSession, Redactor } from "./Redactor"
+
+export class RedactingProvider implements LLMProvider {
+  public readonly name: LLMProviderName
+  public readonly model: string
+  public readonly supportsImages: boolean
+
+  constructor(
+    private readonly inner: LLMProvider,
+    private readonly redactor: Redactor
+  ) {
+    this.name = inner.name
+    this.model = inner.model
+    this.supportsImages = inner.supportsImages
+  }
+
+  private async run(
+    options: GenerateOptions | undefined,
+    call: (session: RedactionSession, options?: GenerateOptions) => Promise<string>
+  ): Promise<string> {
+    const session = this.redactor.session()
+    const stream = options?.onChunk ? session.restoreStream(options.onChunk) : null
+    const text = await call(session, stream ? { ...options, onChunk: stream.push } : options)
+    stream?.flush()
+    if (session.matches.length) {
+      const kinds = [...new Set(session.matches.map((match) => match.kind))].join(", ")
+      console.log(`[Redactor] Masked ${session.matches.length} value(s) (${kinds}) before calling ${this.name}`)
+    }
+    return session.restore(text)
+  }
+
+  public generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.run(options, (session, opts) => this.inner.generateText(session.redact(prompt), opts))
+  }
+
+  public generateWithImages(
+    prompt: string,
+    images: InlineMedia[],
+    options?: GenerateOptions
+  ): Promise<string> {
+    return this.run(options, (session, opts) =>
+      this.inner.generateWithImages(session.redact(prompt), images, opts)
+    )
+  }
+
+  public generateWithAudio(
+    prompt: string,
+    audio: InlineMedia,
+    options?: GenerateOptions
+  ): Promise<string> {
+    if (this.redactor.isEnabled()) {
+      return Promise.reject(
+        new RedactionError("Audio cannot be checked for sensitive data; transcribe it locally first")
+      )
+    }
+    return this.inner.generateWithAudio(prompt, audio, options)
+  }
+
+  public chat(messages: ChatMessage[], options?: GenerateOptions): Promise<string> {
+    return this.run(options, (session, opts) =>
+      this.inner.chat(
+        messages.map((message) => ({ ...message, content: session.redact(message.content) })),
+        opts
+      )
+    )
+  }
+}
@@ -0,0 +1,287 @@
+// Redactor.ts
+// Finds sensitive data in text and in OCR'd screenshots so it can be masked before a request
+// leaves the machine. Text gets numbered placeholders ([EMAIL_1]) that are swapped back into
+// the reply, so the rep still sees the real values; screenshots get black boxes. The originals
+// on disk are never changed.
+
+import sharp from "sharp"
+import { RedactionSettings } from "./SettingsStore"
+import { OcrBox, OcrHelper, OcrLine } from "./OcrHelper"
+
+export type RedactionKind = "email" | "phone" | "card" | "national-id" | "pattern" | "keyword"
+
+export interface RedactionMatch {
+  kind: RedactionKind
+  start: number
+  end: number
+  text: string
+}
+
+export interface RedactedText {
+  text: string
+  matches: RedactionMatch[]
+}
+
+export interface RedactedRegion {
+  kind: RedactionKind
+  box: OcrBox
+}
+
+export interface RedactedImage {
+  data: Buffer // PNG
+  regions: RedactedRegion[]
+}
+
+export class RedactionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "RedactionError"
+  }
+}
+
+const PLACEHOLDER_LABELS: Record<RedactionKind, string> = {
+  email: "EMAIL",
+  phone: "PHONE",
+  card: "CARD",
+  "national-id": "NATIONAL_ID",
+  pattern: "REDACTED",
+  keyword: "REDACTED"
+}
+
+// When two matches cover the same text the earlier kind wins (an SSN also looks like a phone number)
+const KIND_PRIORITY: RedactionKind[] = ["card", "national-id", "email", "phone", "pattern", "keyword"]
+
+const EMAIL = /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi
+const PHONE = /(?<![\w+])\+?\(?\d(?:[\s().-]{0,2}\d){6,14}(?!\w)/g
+const CARD = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g
+const SSN = /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g
+const NINO = /\b[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/gi
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+const PLACEHOLDER = /\[[A-Z_]+_\d+\]/g
+// A streamed "[" followed by this many characters without "]" is not a placeholder
+const MAX_PLACEHOLDER_LENGTH = 24
+// Masks reach a little past the OCR box so antialiased glyph edges are covered too
+const BOX_PADDING = 2
+
+const digitsOf = (value: string) => value.replace(/\D/g, "")
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Whole words only, unless the keyword itself starts or ends with punctuation
+function keywordRegExp(keyword: string): RegExp {
+  const trimmed = keyword.trim()
+  const start = /^\w/.test(trimmed) ? "\\b" : ""
+  const end = /\w$/.test(trimmed) ? "\\b" : ""
+  return new RegExp(`${start}${escapeRegExp(trimmed)}${end}`, "gi")
+}
+
+export function findSensitive(text: string, settings: RedactionSettings): RedactionMatch[] {
+  if (!settings.enabled || !text) return []
+  const found: RedactionMatch[] = []
+  const collect = (regex: RegExp, kind: RedactionKind, accept: (value: string) => boolean = () => true) => {
+    for (const match of text.matchAll(regex)) {
+      if (!match[0] || !accept(match[0])) continue
+      found.push({ kind, start: match.index!, end: match.index! + match[0].length, text: match[0] })
+    }
+  }
+
+  if (settings.cards) {
+    collect(CARD, "card", (value) => passesLuhn(digitsOf(value)))
+  }
+  if (settings.nationalIds) {
+    collect(SSN, "national-id")
+    collect(NINO, "national-id")
+  }
+  if (settings.emails) collect(EMAIL, "email")
+  if (settings.phones) {
+    collect(PHONE, "phone", (value) => {
+      const count = digitsOf(value).length
+      return count >= 8 && count <= 15 && !ISO_DATE.test(value)
+    })
+  }
+  for (const pattern of settings.patterns) collect(new RegExp(pattern, "gi"), "pattern")
+  for (const keyword of settings.keywords) collect(keywordRegExp(keyword), "keyword")
+
+  // Longest first at each position, then by kind; anything overlapping a taken match is dropped
+  found.sort(
+    (a, b) =>
+      a.start - b.start ||
+      b.end - b.start - (a.end - a.start) ||
+      KIND_PRIORITY.indexOf(a.kind) - KIND_PRIORITY.indexOf(b.kind)
+  )
+  const kept: RedactionMatch[] = []
+  for (const match of found) {
+    if (!kept.length || match.start >= kept[kept.length - 1].end) kept.push(match)
+  }
+  return kept
+}
+
+// One request's worth of placeholders; a value gets the same placeholder everywhere in it
+export class RedactionSession {
+  private readonly placeholders = new Map<string, string>()
+  private readonly originals = new Map<string, string>()
+  private readonly counts = new Map<string, number>()
+  public readonly matches: RedactionMatch[] = []
+
+  constructor(private readonly settings: RedactionSettings) {}
+
+  public redact(text: string): string {
+    const matches = findSensitive(text, this.settings)
+    if (!matches.length) return text
+    this.matches.push(...matches)
+
+    let result = ""
+    let last = 0
+    for (const match of matches) {
+      result += text.slice(last, match.start) + this.placeholderFor(match)
+      last = match.end
+    }
+    return result + text.slice(last)
+  }
+
+  public restore(text: string): string {
+    if (!this.originals.size) return text
+    return text.replace(PLACEHOLDER, (placeholder) => this.originals.get(placeholder) ?? placeholder)
+  }
+
+  // For streamed replies: holds back a placeholder that arrives split across chunks
+  public restoreStream(onChunk: (chunk: string) => void): { push: (chunk: string) => void; flush: () => void } {
+    let pending = ""
+    return {
+      push: (chunk) => {
+        pending += chunk
+        const open = pending.lastIndexOf("[")
+        const cut =
+          open !== -1 && !pending.includes("]", open) && pending.length - open <= MAX_PLACEHOLDER_LENGTH
+            ? open
+            : pending.length
+        if (cut > 0) {
+          onChunk(this.restore(pending.slice(0, cut)))
+          pending = pending.slice(cut)
+        }
+      },
+      flush: () => {
+        if (pending) onChunk(this.restore(pending))
+        pending = ""
+      }
+    }
+  }
+
+  private placeholderFor(match: RedactionMatch): string {
+    const key = `${match.kind}:${match.text.toLowerCase()}`
+    const existing = this.placeholders.get(key)
+    if (existing) return existing
+
+    const label = PLACEHOLDER_LABELS[match.kind]
+    const count = (this.counts.get(label) ?? 0) + 1
+    this.counts.set(label, count)
+    const placeholder = `[${label}_${count}]`
+    this.placeholders.set(key, placeholder)
+    this.originals.set(placeholder, match.text)
+    return placeholder
+  }
+}
+
+// Matches are found on the line's text and masked word by word, so a match inside a longer
+// OCR word masks the whole word
+function lineRegions(line: OcrLine, settings: RedactionSettings): RedactedRegion[] {
+  let text = ""
+  const spans = line.words.map((word) => {
+    if (text) text += " "
+    const start = text.length
+    text += word.text
+    return { start, end: text.length, box: word.box }
+  })
+
+  return findSensitive(text, settings).flatMap((match) => {
+    const boxes = spans
+      .filter((span) => span.start < match.end && span.end > match.start)
+      .map((span) => span.box)
+    if (!boxes.length) return []
+    const x = Math.min(...boxes.map((box) => box.x))
+    const y = Math.min(...boxes.map((box) => box.y))
+    const right = Math.max(...boxes.map((box) => box.x + box.width))
+    const bottom = Math.max(...boxes.map((box) => box.y + box.height))
+    return [{ kind: match.kind, box: { x, y, width: right - x, height: bottom - y } }]
+  })
+}
+
+export class Redactor {
+  constructor(
+    private readonly getSettings: () => RedactionSettings,
+    private readonly ocr: OcrHelper
+  ) {}
+
+  public isEnabled(): boolean {
+    return this.getSettings().enabled
+  }
+
+  public session(): RedactionSession {
+    return new RedactionSession(this.getSettings())
+  }
+
+  public redactText(text: string): RedactedText {
+    const session = this.session()
+    return { text: session.redact(text), matches: session.matches }
+  }
+
+  public async findRegions(imagePath: string): Promise<RedactedRegion[]> {
+    const settings = this.getSettings()
+    if (!settings.enabled) return []
+    let lines: OcrLine[]
+    try {
+      lines = (await this.ocr.recognize(imagePath)).lines
+    } catch (error: any) {
+      // Without its text the screenshot cannot be checked, so it must not be sent at all
+      throw new RedactionError(`Could not check the screenshot for sensitive data: ${error?.message ?? error}`)
+    }
+    return lines.flatMap((line) => lineRegions(line, settings))
+  }
+
+  public async redactImage(imagePath: string): Promise<RedactedImage> {
+    const regions = await this.findRegions(imagePath)
+    const image = sharp(imagePath)
+    if (!regions.length) return { data: await image.png().toBuffer(), regions }
+
+    const { width = 0, height = 0 } = await image.metadata()
+    const masks = regions
+      .map(({ box }) => {
+        const left = Math.max(0, Math.floor(box.x - BOX_PADDING))
+        const top = Math.max(0, Math.floor(box.y - BOX_PADDING))
+        return {
+          left,
+          top,
+          width: Math.min(width, Math.ceil(box.x + box.width + BOX_PADDING)) - left,
+          height: Math.min(height, Math.ceil(box.y + box.height + BOX_PADDING)) - top
+        }
+      })
+      .filter((mask) => mask.width > 0 && mask.height > 0)
+
+    const data = await image
+      .composite(
+        masks.map((mask) => ({
+          input: {
+            create: { width: mask.width, height: mask.height, channels: 3 as const, background: "#000000" }
+          },
+          left: mask.left,
+          top: mask.top
+        }))
+      )
+      .png()
+      .toBuffer()
+    return { data, regions }
+  }
+}
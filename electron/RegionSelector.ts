@@ -0,0 +1,100 @@
+// RegionSelector.ts
+// Full-display overlay the user drags a rectangle on. Resolves with the rectangle in DIPs
+// relative to the display, or null when the selection is cancelled with Escape or a click.
+
+import { BrowserWindow, Display, Rectangle } from "electron"
+import path from "node:path"
+
+// Anything smaller is treated as a stray click
+const MIN_REGION_SIZE = 8
+
+const OVERLAY_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<style>
+  html, body { margin: 0; height: 100%; overflow: hidden; cursor: crosshair; user-select: none; }
+  body { background: rgba(0, 0, 0, 0.25); }
+  #hint { position: fixed; top: 16px; left: 50%; transform: translateX(-50%); padding: 6px 12px;
+    border-radius: 6px; background: rgba(0, 0, 0, 0.7); color: #fff; font: 13px system-ui, sans-serif; }
+  #box { position: fixed; display: none; border: 1px solid #3b82f6; background: rgba(59, 130, 246, 0.15);
+    box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.25); }
+</style>
+</head>
+<body>
+<div id="hint">Drag to select the area to capture. Esc cancels.</div>
+<div id="box"></div>
+<script>
+  const box = document.getElementById("box")
+  let origin = null
+  const rect = (e) => ({
+    x: Math.min(origin.x, e.clientX),
+    y: Math.min(origin.y, e.clientY),
+    width: Math.abs(e.clientX - origin.x),
+    height: Math.abs(e.clientY - origin.y)
+  })
+  document.addEventListener("mousedown", (e) => {
+    origin = { x: e.clientX, y: e.clientY }
+    document.body.style.background = "transparent"
+  })
+  document.addEventListener("mousemove", (e) => {
+    if (!origin) return
+    const r = rect(e)
+    Object.assign(box.style, { display: "block", left: r.x + "px", top: r.y + "px", width: r.width + "px", height: r.height + "px" })
+  })
+  document.addEventListener("mouseup", (e) => {
+    if (origin) window.regionSelector.done(rect(e))
+  })
+  document.addEventListener("keydown", (e) => {
+    if (e.key === "Escape") window.regionSelector.done(null)
+  })
+</script>
+</body>
+</html>`
+
+export function selectRegion(display: Display): Promise<Rectangle | null> {
+  return new Promise((resolve) => {
+    const overlay = new BrowserWindow({
+      ...display.bounds,
+      frame: false,
+      transparent: true,
+      backgroundColor: "#00000000",
+      alwaysOnTop: true,
+      skipTaskbar: true,
+      resizable: false,
+      movable: false,
+      fullscreenable: false,
+      enableLargerThanScreen: true,
+      hasShadow: false,
+      show: false,
+      webPreferences: {
+        contextIsolation: true,
+        preload: path.join(__dirname, "regionPreload.js")
+      }
+    })
+    overlay.setAlwaysOnTop(true, "screen-saver")
+
+    let settled = false
+    const finish = (region: Rectangle | null) => {
+      if (settled) return
+      settled = true
+      if (!overlay.isDestroyed()) overlay.close()
+      resolve(region)
+    }
+
+    overlay.webContents.ipc.on("region-selected", (_event, region: Rectangle | null) => {
+      const valid = region && region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE
+      finish(valid ? region : null)
+    })
+    overlay.on("blur", () => finish(null))
+    overlay.on("closed", () => finish(null))
+
+    overlay.once("ready-to-show", () => {
+      overlay.show()
+      overlay.focus()
+    })
+    overlay.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(OVERLAY_HTML)}`).catch((error) => {
+      console.error("Failed to load the region overlay:", error)
+      finish(null)
+    })
+  })
+}
@@ -0,0 +1,194 @@
+// ResponseSchemas.ts
+// Runtime schemas for the JSON the LLM is asked to return, plus the typed results they produce
+
+export class SchemaValidationError extends Error {
+  constructor(public readonly field: string, public readonly reason: string) {
+    super(`${field}: ${reason}`)
+    this.name = "SchemaValidationError"
+  }
+}
+
+export type StructuredStage =
+  | "problem"
+  | "solution"
+  | "debug"
+  | "crm-extraction"
+  | "call-summary"
+  | "email-draft"
+
+// Thrown once the re-ask loop gives up; the renderer is told which field was wrong
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly stage: StructuredStage,
+    public readonly field: string,
+    public readonly reason: string,
+    public readonly attempts: number
+  ) {
+    super(`Invalid ${stage} response after ${attempts} attempts: ${field} ${reason}`)
+    this.name = "StructuredOutputError"
+  }
+}
+
+export interface Schema<T> {
+  parse(value: unknown, path: string): T
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+function describe(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "an array"
+  return `a ${typeof value}`
+}
+
+export function string({
+  nonEmpty = false,
+  pattern
+}: { nonEmpty?: boolean; pattern?: RegExp } = {}): Schema<string> {
+  return {
+    parse(value, path) {
+      if (typeof value !== "string") {
+        throw new SchemaValidationError(path, `must be a string, got ${describe(value)}`)
+      }
+      if (nonEmpty && !value.trim()) {
+        throw new SchemaValidationError(path, "must not be empty")
+      }
+      if (pattern && !pattern.test(value)) {
+        throw new SchemaValidationError(path, `must match ${pattern}, got "${value}"`)
+      }
+      return value
+    }
+  }
+}
+
+export function nullable<T>(item: Schema<T>): Schema<T | null> {
+  return {
+    parse(value, path) {
+      return value === null ? null : item.parse(value, path)
+    }
+  }
+}
+
+export function arrayOf<T>(item: Schema<T>, { minItems = 0 } = {}): Schema<T[]> {
+  return {
+    parse(value, path) {
+      if (!Array.isArray(value)) {
+        throw new SchemaValidationError(path, `must be an array, got ${describe(value)}`)
+      }
+      if (value.length < minItems) {
+        throw new SchemaValidationError(path, `must contain at least ${minItems} item(s)`)
+      }
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`))
+    }
+  }
+}
+
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    parse(value, path) {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new SchemaValidationError(path || "(root)", `must be an object, got ${describe(value)}`)
+      }
+      const result: Record<string, unknown> = {}
+      for (const key of Object.keys(shape)) {
+        const fieldPath = path ? `${path}.${key}` : key
+        if (!(key in value)) {
+          throw new SchemaValidationError(fieldPath, "is missing")
+        }
+        result[key] = shape[key].parse((value as Record<string, unknown>)[key], fieldPath)
+      }
+      return result as { [K in keyof S]: Infer<S[K]> }
+    }
+  }
+}
+
+const suggestionFields = {
+  problem_statement: string({ nonEmpty: true }),
+  context: string(),
+  suggested_responses: arrayOf(string({ nonEmpty: true }), { minItems: 1 }),
+  reasoning: string()
+}
+
+export const problemExtractionSchema = object(suggestionFields)
+export type ProblemExtraction = Infer<typeof problemExtractionSchema>
+
+export const solutionResponseSchema = object({
+  solution: object({
+    code: string(),
+    ...suggestionFields
+  })
+})
+export type SolutionResponse = Infer<typeof solutionResponseSchema>
+
+export const crmExtractionSchema = object({
+  contacts: arrayOf(
+    object({
+      name: string({ nonEmpty: true }),
+      title: string(),
+      email: string()
+    })
+  ),
+  company: nullable(string()),
+  budget: nullable(string()),
+  timeline: nullable(string()),
+  decision_makers: arrayOf(string({ nonEmpty: true })),
+  competitors: arrayOf(string({ nonEmpty: true })),
+  next_steps: arrayOf(string({ nonEmpty: true }))
+})
+export type CrmExtraction = Infer<typeof crmExtractionSchema>
+
+export const callSummarySchema = object({
+  tldr: string({ nonEmpty: true }),
+  key_points: arrayOf(string({ nonEmpty: true })),
+  objections: arrayOf(string({ nonEmpty: true })),
+  commitments: object({
+    rep: arrayOf(string({ nonEmpty: true })),
+    prospect: arrayOf(string({ nonEmpty: true }))
+  }),
+  action_items: arrayOf(
+    object({
+      title: string({ nonEmpty: true }),
+      owner: string(),
+      due_date: nullable(string({ pattern: /^\d{4}-\d{2}-\d{2}$/ }))
+    })
+  )
+})
+export type CallSummary = Infer<typeof callSummarySchema>
+
+export const emailDraftSchema = object({
+  subject: string({ nonEmpty: true }),
+  opening: string(),
+  body: string({ nonEmpty: true }),
+  call_to_action: string(),
+  closing: string()
+})
+export type EmailDraft = Infer<typeof emailDraftSchema>
+
+// Used when only one section of a draft is rewritten
+export const emailSectionSchema = object({
+  text: string({ nonEmpty: true })
+})
+
+// Pulls the JSON object out of a reply that may be wrapped in code fences or surrounded by prose
+export function extractJsonObject(text: string): string {
+  const unfenced = text.replace(/```(?:json)?/g, "").trim()
+  const start = unfenced.indexOf("{")
+  const end = unfenced.lastIndexOf("}")
+  if (start === -1 || end < start) {
+    throw new SchemaValidationError("(root)", "no JSON object found in the response")
+  }
+  return unfenced.slice(start, end + 1)
+}
+
+export function parseStructured<T>(text: string, schema: Schema<T>): T {
+  let value: unknown
+  try {
+    value = JSON.parse(extractJsonObject(text))
+  } catch (error: any) {
+    if (error instanceof SchemaValidationError) throw error
+    throw new SchemaValidationError("(root)", `is not valid JSON (${error.message})`)
+  }
+  return schema.parse(value, "")
+}
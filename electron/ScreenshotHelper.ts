@@ -2,21 +2,90 @@
 
 import path from "node:path"
 import fs from "node:fs"
-import { app } from "electron"
+import { app, desktopCapturer, Display, NativeImage, screen } from "electron"
 import { v4 as uuidv4 } from "uuid"
-import screenshot from "screenshot-desktop"
+import { selectRegion } from "./RegionSelector"
+import { ocrCachePath } from "./OcrHelper"
+import { ScreenshotSettings } from "./SettingsStore"
+
+export type CaptureMode = "display" | "window" | "region"
+
+export type CaptureTarget =
+  | { mode: "display"; index?: number } // index into screen.getAllDisplays(); the overlay's display when left out
+  | { mode: "window"; sourceId: string } // a desktopCapturer window source
+  | { mode: "region"; index?: number }
+
+export interface CaptureWindow {
+  id: string
+  name: string
+  thumbnail: string // data URL
+}
+
+export class CaptureError extends Error {
+  constructor(
+    public readonly mode: CaptureMode,
+    message: string
+  ) {
+    super(message)
+    this.name = "CaptureError"
+  }
+}
+
+// Both queues as file names in their folder, so they survive a restart
+interface QueueState {
+  version: number
+  screenshotQueue: string[]
+  extraScreenshotQueue: string[]
+}
+
+const WINDOW_THUMBNAIL_SIZE = { width: 320, height: 200 }
+const QUEUE_STATE_VERSION = 1
+const DAY_MS = 24 * 60 * 60 * 1000
+const MB = 1024 * 1024
+
+// The OCR text cached next to a screenshot goes with it
+const removeOcrCache = (imagePath: string) =>
+  fs.promises.rm(ocrCachePath(imagePath), { force: true }).catch((error) => {
+    console.error(`Error deleting OCR text of ${imagePath}:`, error)
+  })
+
+const removeScreenshotFile = async (imagePath: string) => {
+  try {
+    await fs.promises.rm(imagePath, { force: true })
+  } catch (error) {
+    console.error(`Error deleting screenshot at ${imagePath}:`, error)
+  }
+  await removeOcrCache(imagePath)
+}
+
+// Image plus cached OCR text; 0 for files that are already gone
+const statScreenshot = async (imagePath: string): Promise<{ mtimeMs: number; size: number }> => {
+  const [image, ocr] = await Promise.all(
+    [imagePath, ocrCachePath(imagePath)].map((file) => fs.promises.stat(file).catch((): null => null))
+  )
+  return { mtimeMs: image?.mtimeMs ?? 0, size: (image?.size ?? 0) + (ocr?.size ?? 0) }
+}
+
+const physicalSize = (display: Display) => ({
+  width: Math.round(display.size.width * display.scaleFactor),
+  height: Math.round(display.size.height * display.scaleFactor)
+})
 
 export class ScreenshotHelper {
   private screenshotQueue: string[] = []
   private extraScreenshotQueue: string[] = []
-  private readonly MAX_SCREENSHOTS = 5
 
   private readonly screenshotDir: string
   private readonly extraScreenshotDir: string
+  private readonly statePath: string
+  private writeQueue: Promise<void> = Promise.resolve()
 
   private view: "queue" | "solutions" = "queue"
 
-  constructor(view: "queue" | "solutions" = "queue") {
+  constructor(
+    view: "queue" | "solutions",
+    private readonly getSettings: () => ScreenshotSettings
+  ) {
     this.view = view
 
     // Initialize directories
@@ -33,6 +102,111 @@ export class ScreenshotHelper {
     if (!fs.existsSync(this.extraScreenshotDir)) {
       fs.mkdirSync(this.extraScreenshotDir)
     }
+
+    this.statePath = path.join(app.getPath("userData"), "screenshot-queue.json")
+    this.restoreQueues()
+    this.applyRetention().catch((error) => {
+      console.error("Error applying screenshot retention:", error)
+    })
+  }
+
+  private readState(): QueueState | null {
+    if (!fs.existsSync(this.statePath)) return null
+    try {
+      const state = JSON.parse(fs.readFileSync(this.statePath, "utf-8"))
+      return state.version === QUEUE_STATE_VERSION ? state : null
+    } catch (error) {
+      console.error(`Could not read the screenshot queue from ${this.statePath}:`, error)
+      return null
+    }
+  }
+
+  // Puts the saved queues back and reconciles them with the folders: entries whose image is
+  // gone are dropped, and images missing from the saved queue (left by a crash, or by a
+  // version that did not save it) are queued after the saved ones, oldest first. The queue
+  // limit and retention then decide what is kept. OCR text without its image is removed.
+  private restoreQueues(): void {
+    const state = this.readState()
+    const restore = (dir: string, saved: string[] = []): string[] => {
+      const files = fs.readdirSync(dir)
+      const images = files.filter((file) => path.extname(file) === ".png")
+      const queued = saved.filter((file) => images.includes(file))
+      const orphans = images
+        .filter((file) => !queued.includes(file))
+        .map((file) => ({ file, mtimeMs: fs.statSync(path.join(dir, file)).mtimeMs }))
+        .sort((a, b) => a.mtimeMs - b.mtimeMs)
+        .map(({ file }) => file)
+
+      for (const file of files) {
+        if (file.endsWith(".ocr.json") && !images.includes(file.replace(/\.ocr\.json$/, ".png"))) {
+          fs.rmSync(path.join(dir, file), { force: true })
+        }
+      }
+      if (orphans.length) console.log(`Found ${orphans.length} unqueued screenshot(s) in ${dir}`)
+      return [...queued, ...orphans].map((file) => path.join(dir, file))
+    }
+
+    this.screenshotQueue = restore(this.screenshotDir, state?.screenshotQueue)
+    this.extraScreenshotQueue = restore(this.extraScreenshotDir, state?.extraScreenshotQueue)
+    this.saveState().catch((error) => console.error("Error saving the screenshot queue:", error))
+  }
+
+  private saveState(): Promise<void> {
+    const state: QueueState = {
+      version: QUEUE_STATE_VERSION,
+      screenshotQueue: this.screenshotQueue.map((file) => path.basename(file)),
+      extraScreenshotQueue: this.extraScreenshotQueue.map((file) => path.basename(file))
+    }
+    const snapshot = JSON.stringify(state, null, 2)
+    this.writeQueue = this.writeQueue
+      .catch(() => {})
+      .then(async () => {
+        const tempPath = `${this.statePath}.tmp`
+        await fs.promises.writeFile(tempPath, snapshot, "utf-8")
+        await fs.promises.rename(tempPath, this.statePath)
+      })
+    return this.writeQueue
+  }
+
+  // Trims each queue to maxQueued, then removes screenshots from both folders that are older
+  // than maxAgeDays, and the oldest ones while there are more than maxFiles or together they
+  // take more than maxTotalMb. Every screenshot on disk is queued, so the queues cover both folders.
+  // `keep` (the screenshot just taken) still counts towards the limits but is never removed, even
+  // when it alone is over them.
+  public async applyRetention(keep?: string): Promise<void> {
+    const { maxQueued, maxAgeDays, maxFiles, maxTotalMb } = this.getSettings()
+    const expired = new Set([
+      ...this.screenshotQueue.slice(0, Math.max(0, this.screenshotQueue.length - maxQueued)),
+      ...this.extraScreenshotQueue.slice(0, Math.max(0, this.extraScreenshotQueue.length - maxQueued))
+    ])
+
+    const kept = await Promise.all(
+      [...this.screenshotQueue, ...this.extraScreenshotQueue]
+        .filter((file) => !expired.has(file))
+        .map(async (file) => ({ file, ...(await statScreenshot(file)) }))
+    )
+    kept.sort((a, b) => a.mtimeMs - b.mtimeMs)
+
+    const cutoff = maxAgeDays > 0 ? Date.now() - maxAgeDays * DAY_MS : 0
+    let count = kept.length
+    let total = kept.reduce((sum, item) => sum + item.size, 0)
+    for (const item of kept) {
+      if (item.file === keep) continue
+      const tooOld = item.mtimeMs < cutoff
+      const tooMany = maxFiles > 0 && count > maxFiles
+      const tooLarge = maxTotalMb > 0 && total > maxTotalMb * MB
+      if (!tooOld && !tooMany && !tooLarge) break
+      expired.add(item.file)
+      count--
+      total -= item.size
+    }
+    if (!expired.size) return
+
+    this.screenshotQueue = this.screenshotQueue.filter((file) => !expired.has(file))
+    this.extraScreenshotQueue = this.extraScreenshotQueue.filter((file) => !expired.has(file))
+    await this.saveState()
+    await Promise.all([...expired].map(removeScreenshotFile))
+    console.log(`Removed ${expired.size} screenshot(s) under the retention policy`)
   }
 
   public getView(): "queue" | "solutions" {
@@ -58,6 +232,7 @@ export class ScreenshotHelper {
         if (err)
           console.error(`Error deleting screenshot at ${screenshotPath}:`, err)
       })
+      removeOcrCache(screenshotPath)
     })
     this.screenshotQueue = []
 
@@ -70,51 +245,131 @@ export class ScreenshotHelper {
             err
           )
       })
+      removeOcrCache(screenshotPath)
     })
     this.extraScreenshotQueue = []
+
+    this.saveState().catch((error) => console.error("Error saving the screenshot queue:", error))
+  }
+
+  // Open windows the user can capture, except this app's own
+  public async listWindows(excludeSourceIds: string[] = []): Promise<CaptureWindow[]> {
+    const sources = await desktopCapturer.getSources({
+      types: ["window"],
+      thumbnailSize: WINDOW_THUMBNAIL_SIZE
+    })
+    return sources
+      .filter((source) => !excludeSourceIds.includes(source.id) && !source.thumbnail.isEmpty())
+      .map((source) => ({
+        id: source.id,
+        name: source.name,
+        thumbnail: source.thumbnail.toDataURL()
+      }))
   }
 
+  // Targets without a display index capture defaultDisplay. Resolves with null when a
+  // region selection is cancelled.
   public async takeScreenshot(
     hideMainWindow: () => void,
-    showMainWindow: () => void
-  ): Promise<string> {
+    showMainWindow: () => void,
+    target: CaptureTarget = { mode: "display" },
+    defaultDisplay: Display = screen.getPrimaryDisplay()
+  ): Promise<string | null> {
     hideMainWindow()
-    let screenshotPath = ""
-
-    if (this.view === "queue") {
-      screenshotPath = path.join(this.screenshotDir, `${uuidv4()}.png`)
-      await screenshot({ filename: screenshotPath })
-
-      this.screenshotQueue.push(screenshotPath)
-      if (this.screenshotQueue.length > this.MAX_SCREENSHOTS) {
-        const removedPath = this.screenshotQueue.shift()
-        if (removedPath) {
-          try {
-            await fs.promises.unlink(removedPath)
-          } catch (error) {
-            console.error("Error removing old screenshot:", error)
-          }
-        }
-      }
-    } else {
-      screenshotPath = path.join(this.extraScreenshotDir, `${uuidv4()}.png`)
-      await screenshot({ filename: screenshotPath })
-
-      this.extraScreenshotQueue.push(screenshotPath)
-      if (this.extraScreenshotQueue.length > this.MAX_SCREENSHOTS) {
-        const removedPath = this.extraScreenshotQueue.shift()
-        if (removedPath) {
-          try {
-            await fs.promises.unlink(removedPath)
-          } catch (error) {
-            console.error("Error removing old screenshot:", error)
-          }
-        }
-      }
+    try {
+      const image = await this.capture(target, defaultDisplay)
+      if (!image) return null
+
+      const dir = this.view === "queue" ? this.screenshotDir : this.extraScreenshotDir
+      const screenshotPath = path.join(dir, `${uuidv4()}.png`)
+      await fs.promises.writeFile(screenshotPath, image)
+      await this.enqueue(screenshotPath)
+      return screenshotPath
+    } finally {
+      showMainWindow()
+    }
+  }
+
+  private async capture(target: CaptureTarget, defaultDisplay: Display): Promise<Buffer | null> {
+    switch (target.mode) {
+      case "display":
+        return (await this.captureDisplay(this.displayAt(target.index, defaultDisplay))).toPNG()
+      case "window":
+        return this.captureWindow(target.sourceId)
+      case "region":
+        return this.captureRegion(this.displayAt(target.index, defaultDisplay))
     }
+  }
+
+  private displayAt(index: number | undefined, defaultDisplay: Display): Display {
+    if (index === undefined) return defaultDisplay
+    const display = screen.getAllDisplays()[index]
+    if (!display) throw new CaptureError("display", `There is no display ${index + 1}`)
+    return display
+  }
+
+  // Full resolution; desktopCapturer only hands out thumbnails, so the thumbnail is sized
+  // to the display's physical pixels
+  private async captureDisplay(display: Display): Promise<NativeImage> {
+    const sources = await desktopCapturer.getSources({
+      types: ["screen"],
+      thumbnailSize: physicalSize(display)
+    })
+    // Some platforms leave display_id empty; their sources follow the display order
+    const index = screen.getAllDisplays().findIndex((item) => item.id === display.id)
+    const source =
+      sources.find((item) => item.display_id === String(display.id)) ??
+      (sources.every((item) => !item.display_id) ? sources[index] : undefined)
+    if (!source || source.thumbnail.isEmpty()) {
+      throw new CaptureError("display", "Could not capture the display")
+    }
+    return source.thumbnail
+  }
+
+  private async captureWindow(sourceId: string): Promise<Buffer> {
+    const largest = screen
+      .getAllDisplays()
+      .map(physicalSize)
+      .reduce((a, b) => (a.width * a.height >= b.width * b.height ? a : b))
+    const sources = await desktopCapturer.getSources({
+      types: ["window"],
+      thumbnailSize: largest
+    })
+    const source = sources.find((item) => item.id === sourceId)
+    if (!source) throw new CaptureError("window", "The window is no longer open")
+    if (source.thumbnail.isEmpty()) {
+      throw new CaptureError("window", `Could not capture "${source.name}" (is it minimized?)`)
+    }
+    return source.thumbnail.toPNG()
+  }
+
+  // The display is captured before the overlay opens, so the result is exactly what the
+  // user was looking at when they drew the rectangle
+  private async captureRegion(display: Display): Promise<Buffer | null> {
+    const image = await this.captureDisplay(display)
+    const region = await selectRegion(display)
+    if (!region) return null
 
-    showMainWindow()
-    return screenshotPath
+    const scale = image.getSize().width / display.bounds.width
+    return image
+      .crop({
+        x: Math.round(region.x * scale),
+        y: Math.round(region.y * scale),
+        width: Math.round(region.width * scale),
+        height: Math.round(region.height * scale)
+      })
+      .toPNG()
+  }
+
+  private async enqueue(screenshotPath: string): Promise<void> {
+    const queue = this.view === "queue" ? this.screenshotQueue : this.extraScreenshotQueue
+    queue.push(screenshotPath)
+    await this.saveState()
+    try {
+      await this.applyRetention(screenshotPath)
+    } catch (error) {
+      console.error("Error removing old screenshots:", error)
+    }
   }
 
   public async getImagePreview(filepath: string): Promise<string> {
@@ -132,6 +387,7 @@ export class ScreenshotHelper {
   ): Promise<{ success: boolean; error?: string }> {
     try {
       await fs.promises.unlink(path)
+      await removeOcrCache(path)
       if (this.view === "queue") {
         this.screenshotQueue = this.screenshotQueue.filter(
           (filePath) => filePath !== path
@@ -141,6 +397,7 @@ export class ScreenshotHelper {
           (filePath) => filePath !== path
         )
       }
+      await this.saveState()
       return { success: true }
     } catch (error) {
       console.error("Error deleting file:", error)
@@ -0,0 +1,332 @@
+// SessionStore.ts
+// Persists call sessions as append-only JSON logs under userData/sessions/<id>.jsonl.
+// Every change is a new line, so a crash mid-call loses at most the line being written.
+
+import path from "node:path"
+import fs from "node:fs"
+import { app } from "electron"
+import { v4 as uuidv4 } from "uuid"
+import { CallSummary } from "./ResponseSchemas"
+
+export type TranscriptEntryType = "question" | "answer" | "live" | "interviewer" | "system"
+
+export interface SessionEntry {
+  type: TranscriptEntryType
+  text: string
+  timestamp: string // display time, e.g. "3:04 PM"
+  at: number // epoch ms
+  source?: "transcription" | "assistant" | "user" | "system"
+  speaker?: string // diarization or channel label, e.g. "Speaker 2" or "System audio"
+  audio?: EntryAudioSpan // where the entry was said in the session recording, if there is one
+  translation?: EntryTranslation // live translation for the rep, added once it arrives
+}
+
+export interface EntryTranslation {
+  language: string // ISO 639-1 code it was translated into
+  text: string
+}
+
+// Seconds from the start of the session recording
+export interface EntryAudioSpan {
+  start: number
+  end: number
+}
+
+// Opt-in recording of the whole call, stored next to the log as <id>.webm
+export interface SessionRecording {
+  startedAt: number // epoch ms of the first recorded sample
+  mimeType: string
+}
+
+// A single final result from live transcription, kept verbatim
+export interface TranscriptionFinal {
+  text: string
+  at: number
+  speaker?: string
+}
+
+export interface CallSession {
+  id: string
+  title: string
+  startedAt: number
+  endedAt: number | null
+  language: string | null // spoken language the call was transcribed in, "auto" if detected
+  entries: SessionEntry[]
+  finals: TranscriptionFinal[]
+  summary: CallSummary | null // latest post-call summary, if one was generated
+  speakerNames: Record<string, string> // speaker label -> real name
+  recording: SessionRecording | null
+}
+
+export interface SessionSummary {
+  id: string
+  title: string
+  startedAt: number
+  endedAt: number | null
+  entryCount: number
+  preview: string
+}
+
+type SessionEvent =
+  | { kind: "start"; id: string; title: string; at: number; language?: string }
+  | { kind: "entry"; entry: SessionEntry }
+  | { kind: "final"; final: TranscriptionFinal }
+  | { kind: "rename"; title: string; at: number }
+  | { kind: "end"; at: number }
+  | { kind: "summary"; summary: CallSummary; at: number }
+  | { kind: "speaker"; label: string; name: string; at: number }
+  | { kind: "recording"; startedAt: number; mimeType: string }
+  // Entries have no ids; a translation finds its entry by time and text
+  | { kind: "translation"; entryAt: number; original: string; translation: EntryTranslation }
+
+const SPEAKER_LABELS: Partial<Record<TranscriptEntryType, string>> = {
+  question: "Speaker",
+  live: "Speaker",
+  interviewer: "Prospect"
+}
+
+// Plain-text transcript for post-call LLM passes; assistant suggestions and system notices are left out
+export function formatTranscript(session: CallSession): string {
+  return session.entries
+    .filter((entry) => entry.source !== "assistant" && entry.type !== "system" && entry.type !== "answer")
+    .map((entry) => {
+      const speaker =
+        entry.source === "user"
+          ? "Rep (typed)"
+          : (entry.speaker && (session.speakerNames[entry.speaker] ?? entry.speaker)) ??
+            SPEAKER_LABELS[entry.type] ??
+            "Speaker"
+      return `[${entry.timestamp}] ${speaker}: ${entry.text}`
+    })
+    .join("\n")
+}
+
+export class SessionStore {
+  private readonly sessionDir: string
+  // Appends are chained per session so lines land in the order they were sent
+  private writeQueues = new Map<string, Promise<void>>()
+
+  constructor() {
+    this.sessionDir = path.join(app.getPath("userData"), "sessions")
+    if (!fs.existsSync(this.sessionDir)) {
+      fs.mkdirSync(this.sessionDir, { recursive: true })
+    }
+  }
+
+  private logPath(id: string): string {
+    // Ids come from the renderer, never let them escape the sessions directory
+    if (!/^[\w-]+$/.test(id)) throw new Error(`Invalid session id: ${id}`)
+    return path.join(this.sessionDir, `${id}.jsonl`)
+  }
+
+  private audioPath(id: string): string {
+    return this.logPath(id).replace(/\.jsonl$/, ".webm")
+  }
+
+  // Only "start" creates a log; anything else for a deleted or unknown session fails instead of
+  // bringing it back without its start
+  private append(id: string, event: SessionEvent): Promise<void> {
+    const line = JSON.stringify(event) + "\n"
+    return this.enqueue(id, async () => {
+      if (event.kind !== "start") await this.assertExists(id)
+      await fs.promises.appendFile(this.logPath(id), line, "utf-8")
+    })
+  }
+
+  private async assertExists(id: string): Promise<void> {
+    try {
+      await fs.promises.access(this.logPath(id))
+    } catch (error: any) {
+      if (error.code === "ENOENT") throw new Error(`No session with id ${id}`)
+      throw error
+    }
+  }
+
+  // Log lines and recording chunks share one queue per session
+  private enqueue(id: string, write: () => Promise<void>): Promise<void> {
+    const previous = this.writeQueues.get(id) ?? Promise.resolve()
+    const next = previous.catch(() => {}).then(write)
+    this.writeQueues.set(id, next)
+    return next
+  }
+
+  private async replay(id: string): Promise<CallSession> {
+    await this.writeQueues.get(id)?.catch(() => {})
+    const raw = await fs.promises.readFile(this.logPath(id), "utf-8")
+    const session: CallSession = {
+      id,
+      title: "",
+      startedAt: 0,
+      endedAt: null,
+      language: null,
+      entries: [],
+      finals: [],
+      summary: null,
+      speakerNames: {},
+      recording: null
+    }
+
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue
+      let event: SessionEvent
+      try {
+        event = JSON.parse(line)
+      } catch {
+        // A torn last line from a crash; everything before it is still valid
+        console.warn(`[SessionStore] Skipping unreadable line in session ${id}`)
+        continue
+      }
+      switch (event.kind) {
+        case "start":
+          session.title = event.title
+          session.startedAt = event.at
+          session.language = event.language ?? null
+          break
+        case "entry":
+          session.entries.push(event.entry)
+          break
+        case "final":
+          session.finals.push(event.final)
+          break
+        case "rename":
+          session.title = event.title
+          break
+        case "end":
+          session.endedAt = event.at
+          break
+        case "summary":
+          session.summary = event.summary
+          break
+        case "speaker":
+          if (event.name) session.speakerNames[event.label] = event.name
+          else delete session.speakerNames[event.label]
+          break
+        case "recording":
+          session.recording = { startedAt: event.startedAt, mimeType: event.mimeType }
+          break
+        case "translation": {
+          const { entryAt, original, translation } = event
+          const entry = session.entries.findLast((entry) => entry.at === entryAt && entry.text === original)
+          if (entry) entry.translation = translation
+          break
+        }
+      }
+    }
+    return session
+  }
+
+  // startedAt is only passed for calls stored after the fact, such as imported recordings
+  public async startSession(
+    title?: string,
+    startedAt: number = Date.now(),
+    language?: string
+  ): Promise<SessionSummary> {
+    const id = uuidv4()
+    const sessionTitle = title || `Call ${new Date(startedAt).toLocaleString()}`
+    await this.append(id, { kind: "start", id, title: sessionTitle, at: startedAt, language })
+    return { id, title: sessionTitle, startedAt, endedAt: null, entryCount: 0, preview: "" }
+  }
+
+  public async addEntry(id: string, entry: SessionEntry): Promise<void> {
+    await this.append(id, { kind: "entry", entry })
+  }
+
+  public async addTranslation(id: string, entry: SessionEntry, translation: EntryTranslation): Promise<void> {
+    await this.append(id, { kind: "translation", entryAt: entry.at, original: entry.text, translation })
+  }
+
+  public async addFinal(id: string, final: TranscriptionFinal): Promise<void> {
+    await this.append(id, { kind: "final", final })
+  }
+
+  public async endSession(id: string, endedAt: number = Date.now()): Promise<void> {
+    await this.append(id, { kind: "end", at: endedAt })
+  }
+
+  public async saveSummary(id: string, summary: CallSummary): Promise<void> {
+    await this.append(id, { kind: "summary", summary, at: Date.now() })
+  }
+
+  // An empty name goes back to showing the raw label
+  public async setSpeakerName(id: string, label: string, name: string): Promise<void> {
+    await this.append(id, { kind: "speaker", label, name: name.trim(), at: Date.now() })
+  }
+
+  // Starts (or restarts) the session recording; chunks then follow through appendAudio
+  public async startRecording(id: string, startedAt: number, mimeType: string): Promise<void> {
+    await this.enqueue(id, async () => {
+      await this.assertExists(id)
+      await fs.promises.writeFile(this.audioPath(id), Buffer.alloc(0))
+    })
+    await this.append(id, { kind: "recording", startedAt, mimeType })
+  }
+
+  public async appendAudio(id: string, chunk: Buffer): Promise<void> {
+    await this.enqueue(id, async () => {
+      await this.assertExists(id)
+      await fs.promises.appendFile(this.audioPath(id), chunk)
+    })
+  }
+
+  // Resolves with null when the session was not recorded
+  public async getAudio(id: string): Promise<Buffer | null> {
+    await this.writeQueues.get(id)?.catch(() => {})
+    try {
+      return await fs.promises.readFile(this.audioPath(id))
+    } catch (error: any) {
+      if (error.code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  public async renameSession(id: string, title: string): Promise<void> {
+    await this.append(id, { kind: "rename", title, at: Date.now() })
+  }
+
+  public async getSession(id: string): Promise<CallSession> {
+    return this.replay(id)
+  }
+
+  public async listSessions(): Promise<SessionSummary[]> {
+    const files = await fs.promises.readdir(this.sessionDir)
+    const sessions = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".jsonl"))
+        .map(async (file) => {
+          try {
+            return await this.replay(path.basename(file, ".jsonl"))
+          } catch (error) {
+            console.error(`[SessionStore] Could not read ${file}:`, error)
+            return null
+          }
+        })
+    )
+
+    return sessions
+      .filter((session): session is CallSession => session !== null)
+      .map((session) => ({
+        id: session.id,
+        title: session.title,
+        startedAt: session.startedAt,
+        endedAt: session.endedAt,
+        entryCount: session.entries.length,
+        preview: session.entries.find((entry) => entry.type !== "system")?.text.slice(0, 120) ?? ""
+      }))
+      .sort((a, b) => b.startedAt - a.startedAt)
+  }
+
+  public async deleteSession(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      // Queued behind pending writes; writes queued after it find no log and fail
+      await this.enqueue(id, async () => {
+        await fs.promises.unlink(this.logPath(id))
+        await fs.promises.rm(this.audioPath(id), { force: true })
+      })
+      this.writeQueues.delete(id)
+      return { success: true }
+    } catch (error: any) {
+      console.error("Error deleting session:", error)
+      return { success: false, error: error.message }
+    }
+  }
+}
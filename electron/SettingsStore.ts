@@ -0,0 +1,290 @@
+// SettingsStore.ts
+// User preferences that outlive a session, kept in userData/settings.json
+
+import path from "node:path"
+import fs from "node:fs"
+import { app } from "electron"
+import { AUTO_LANGUAGE } from "./TranscriptionEngine"
+
+// off: microphone only; mixed: one stream with both sides; separate: mic and system audio
+// are transcribed on their own channels so the other party gets their own speaker labels
+export type SystemAudioMode = "off" | "mixed" | "separate"
+
+// A picked device; the label finds it again if the browser hands out a new id
+export interface AudioDeviceChoice {
+  deviceId: string
+  label: string
+}
+
+export interface AudioSettings {
+  systemAudio: SystemAudioMode
+  recordSessions: boolean // keep the whole call's audio with the session for playback
+  inputDevice: AudioDeviceChoice | null // null follows the system default
+  outputDevice: AudioDeviceChoice | null
+}
+
+// energy: level above the calibrated noise floor; spectral: also requires most energy in the
+// voice band and a speech-like zero-crossing rate, which keeps typing and clicks out
+export type VadDetectorName = "energy" | "spectral"
+
+export interface VadSettings {
+  detector: VadDetectorName
+  silenceMs: number // silence that ends a segment
+  minSpeechMs: number // shorter bursts are ignored
+  calibrationMs: number // noise floor measurement at the start
+  minThresholdRms: number
+  noiseMultiplier: number // threshold = noise floor * multiplier
+  minVoiceBandRatio: number // spectral: share of energy in 300-3400 Hz
+  maxZeroCrossingRate: number // spectral: sign changes per sample
+}
+
+// rep: suggestions are written in the rep's own language; call: in the language of the call
+export type AnswerLanguage = "rep" | "call"
+
+// Languages are ISO 639-1 codes, optionally with a region ("pt-BR")
+export interface LanguageSettings {
+  callLanguage: string // copied onto every new session; AUTO_LANGUAGE lets the engine detect it
+  repLanguage: string
+  answerIn: AnswerLanguage
+  translate: boolean // show what the other party says translated into repLanguage
+}
+
+// What is masked before anything is sent to the LLM provider. Custom patterns are regular
+// expressions and keywords plain text, both matched case-insensitively.
+export interface RedactionSettings {
+  enabled: boolean
+  emails: boolean
+  phones: boolean
+  cards: boolean // only numbers that pass the Luhn check
+  nationalIds: boolean // US social security and UK national insurance numbers
+  patterns: string[]
+  keywords: string[]
+}
+
+// How many screenshots are kept. maxQueued applies to each queue on its own (the oldest is
+// dropped when a new one is taken); the others apply to everything in both screenshot folders,
+// oldest removed first, and 0 turns them off.
+export interface ScreenshotSettings {
+  maxQueued: number
+  maxAgeDays: number
+  maxFiles: number
+  maxTotalMb: number
+}
+
+// Offset of the overlay from the top-left corner of a display's work area
+export interface WindowPosition {
+  x: number
+  y: number
+}
+
+export interface Settings {
+  audio: AudioSettings
+  language: LanguageSettings
+  redaction: RedactionSettings
+  screenshots: ScreenshotSettings
+  // Keyed by input device id, so every microphone keeps its own tuning
+  vad: Record<string, VadSettings>
+  // Keyed by display id, so the overlay returns to where it was on each monitor
+  windowPositions: Record<string, WindowPosition>
+}
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  detector: "spectral",
+  silenceMs: 1500,
+  minSpeechMs: 120,
+  calibrationMs: 800,
+  minThresholdRms: 0.002,
+  noiseMultiplier: 2.0,
+  minVoiceBandRatio: 0.45,
+  maxZeroCrossingRate: 0.25
+}
+
+const DEFAULTS: Settings = {
+  audio: { systemAudio: "off", recordSessions: false, inputDevice: null, outputDevice: null },
+  language: { callLanguage: "en", repLanguage: "en", answerIn: "rep", translate: false },
+  redaction: {
+    enabled: true,
+    emails: true,
+    phones: true,
+    cards: true,
+    nationalIds: true,
+    patterns: [],
+    keywords: []
+  },
+  screenshots: { maxQueued: 5, maxAgeDays: 7, maxFiles: 20, maxTotalMb: 200 },
+  vad: {},
+  windowPositions: {}
+}
+
+const SYSTEM_AUDIO_MODES: SystemAudioMode[] = ["off", "mixed", "separate"]
+const ANSWER_LANGUAGES: AnswerLanguage[] = ["rep", "call"]
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[A-Za-z0-9]{2,4})?$/
+const VAD_DETECTORS: VadDetectorName[] = ["energy", "spectral"]
+const MAX_QUEUED_SCREENSHOTS = 50
+// Ratios and rates are fractions; everything else only has to be non-negative
+const VAD_FRACTIONS: Array<keyof VadSettings> = ["minVoiceBandRatio", "maxZeroCrossingRate"]
+
+export class SettingsStore {
+  private readonly filePath: string
+  private settings: Settings
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor() {
+    this.filePath = path.join(app.getPath("userData"), "settings.json")
+    this.settings = this.load()
+  }
+
+  private load(): Settings {
+    if (!fs.existsSync(this.filePath)) return structuredClone(DEFAULTS)
+    try {
+      const stored = JSON.parse(fs.readFileSync(this.filePath, "utf-8"))
+      // Sections added in later versions fall back to their defaults
+      return {
+        ...structuredClone(DEFAULTS),
+        ...stored,
+        audio: { ...DEFAULTS.audio, ...stored.audio },
+        language: { ...DEFAULTS.language, ...stored.language },
+        redaction: { ...DEFAULTS.redaction, ...stored.redaction },
+        screenshots: { ...DEFAULTS.screenshots, ...stored.screenshots },
+        vad: { ...stored.vad },
+        windowPositions: { ...stored.windowPositions }
+      }
+    } catch (error) {
+      const backup = `${this.filePath}.corrupt-${Date.now()}`
+      console.error(`[SettingsStore] Could not read ${this.filePath}, moved to ${backup}:`, error)
+      fs.renameSync(this.filePath, backup)
+      return structuredClone(DEFAULTS)
+    }
+  }
+
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(this.settings, null, 2)
+    this.writeQueue = this.writeQueue
+      .catch(() => {})
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`
+        await fs.promises.writeFile(tempPath, snapshot, "utf-8")
+        await fs.promises.rename(tempPath, this.filePath)
+      })
+    return this.writeQueue
+  }
+
+  public get(): Settings {
+    return structuredClone(this.settings)
+  }
+
+  public async updateAudio(patch: Partial<AudioSettings>): Promise<AudioSettings> {
+    const next = { ...this.settings.audio, ...patch }
+    if (!SYSTEM_AUDIO_MODES.includes(next.systemAudio)) {
+      throw new Error(`Unknown system audio mode: ${next.systemAudio}`)
+    }
+    if (typeof next.recordSessions !== "boolean") {
+      throw new Error(`Invalid value for recordSessions: ${next.recordSessions}`)
+    }
+    for (const key of ["inputDevice", "outputDevice"] as const) {
+      const device = next[key]
+      if (device !== null && (typeof device?.deviceId !== "string" || typeof device.label !== "string")) {
+        throw new Error(`Invalid ${key}: ${JSON.stringify(device)}`)
+      }
+    }
+    this.settings.audio = next
+    await this.save()
+    return { ...next }
+  }
+
+  public async updateLanguage(patch: Partial<LanguageSettings>): Promise<LanguageSettings> {
+    const next = { ...this.settings.language, ...patch }
+    if (next.callLanguage !== AUTO_LANGUAGE && !LANGUAGE_CODE.test(next.callLanguage)) {
+      throw new Error(`Invalid call language: ${next.callLanguage}`)
+    }
+    if (!LANGUAGE_CODE.test(next.repLanguage)) {
+      throw new Error(`Invalid rep language: ${next.repLanguage}`)
+    }
+    if (!ANSWER_LANGUAGES.includes(next.answerIn)) {
+      throw new Error(`Unknown answer language: ${next.answerIn}`)
+    }
+    if (typeof next.translate !== "boolean") {
+      throw new Error(`Invalid value for translate: ${next.translate}`)
+    }
+    this.settings.language = next
+    await this.save()
+    return { ...next }
+  }
+
+  public async updateRedaction(patch: Partial<RedactionSettings>): Promise<RedactionSettings> {
+    const next = { ...this.settings.redaction, ...patch }
+    for (const key of ["enabled", "emails", "phones", "cards", "nationalIds"] as const) {
+      if (typeof next[key] !== "boolean") {
+        throw new Error(`Invalid value for ${key}: ${next[key]}`)
+      }
+    }
+    for (const key of ["patterns", "keywords"] as const) {
+      if (!Array.isArray(next[key]) || next[key].some((item) => typeof item !== "string" || !item.trim())) {
+        throw new Error(`Invalid ${key}: ${JSON.stringify(next[key])}`)
+      }
+    }
+    for (const pattern of next.patterns) {
+      try {
+        new RegExp(pattern, "gi")
+      } catch (error: any) {
+        throw new Error(`Invalid pattern ${pattern}: ${error.message}`)
+      }
+    }
+    this.settings.redaction = { ...next, patterns: [...next.patterns], keywords: [...next.keywords] }
+    await this.save()
+    return structuredClone(this.settings.redaction)
+  }
+
+  public async updateScreenshots(patch: Partial<ScreenshotSettings>): Promise<ScreenshotSettings> {
+    const next = { ...this.settings.screenshots, ...patch }
+    if (!Number.isInteger(next.maxQueued) || next.maxQueued < 1 || next.maxQueued > MAX_QUEUED_SCREENSHOTS) {
+      throw new Error(`The queue holds 1 to ${MAX_QUEUED_SCREENSHOTS} screenshots, not ${next.maxQueued}`)
+    }
+    for (const key of ["maxAgeDays", "maxFiles", "maxTotalMb"] as const) {
+      const value = next[key]
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid value for ${key}: ${value}`)
+      }
+    }
+    if (!Number.isInteger(next.maxFiles)) {
+      throw new Error(`Invalid value for maxFiles: ${next.maxFiles}`)
+    }
+    this.settings.screenshots = next
+    await this.save()
+    return { ...next }
+  }
+
+  public getVad(deviceId: string): VadSettings {
+    return { ...DEFAULT_VAD_SETTINGS, ...this.settings.vad[deviceId] }
+  }
+
+  public async updateVad(deviceId: string, patch: Partial<VadSettings>): Promise<VadSettings> {
+    const next = { ...this.getVad(deviceId), ...patch }
+    if (!VAD_DETECTORS.includes(next.detector)) {
+      throw new Error(`Unknown voice detector: ${next.detector}`)
+    }
+    for (const [key, value] of Object.entries(next)) {
+      if (key === "detector") continue
+      const fraction = VAD_FRACTIONS.includes(key as keyof VadSettings)
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || (fraction && value > 1)) {
+        throw new Error(`Invalid value for ${key}: ${value}`)
+      }
+    }
+    this.settings.vad[deviceId] = next
+    await this.save()
+    return { ...next }
+  }
+
+  public getWindowPosition(displayId: number): WindowPosition | null {
+    const position = this.settings.windowPositions[String(displayId)]
+    return position ? { ...position } : null
+  }
+
+  public async setWindowPosition(displayId: number, position: WindowPosition): Promise<void> {
+    if (!Number.isFinite(position.x) || !Number.isFinite(position.y)) {
+      throw new Error(`Invalid window position: ${JSON.stringify(position)}`)
+    }
+    this.settings.windowPositions[String(displayId)] = { x: position.x, y: position.y }
+    await this.save()
+  }
+}
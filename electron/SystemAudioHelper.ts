@@ -0,0 +1,54 @@
+// SystemAudioHelper.ts
+// Lets the renderer capture what the computer is playing (the other side of a call).
+// Windows/macOS: getDisplayMedia answered with desktopCapturer loopback audio.
+// Linux: Chromium lists PulseAudio/PipeWire monitor sources as ordinary audio inputs,
+// so we only have to tell the renderer which one belongs to the default output.
+
+import { desktopCapturer, session } from "electron"
+import { execFile } from "node:child_process"
+import { promisify } from "node:util"
+
+const execFileAsync = promisify(execFile)
+
+export type SystemAudioSource =
+  | { kind: "loopback" }
+  // description is what Chromium uses as the device label ("Monitor of ...")
+  | { kind: "monitor"; name: string | null; description: string | null }
+
+export function registerSystemAudioCapture(): void {
+  if (process.platform === "linux") return
+
+  session.defaultSession.setDisplayMediaRequestHandler(async (_request, callback) => {
+    try {
+      // Chromium requires a video source; the renderer drops the video track right away
+      const [screen] = await desktopCapturer.getSources({ types: ["screen"] })
+      callback(screen ? { video: screen, audio: "loopback" } : {})
+    } catch (error) {
+      console.error("[SystemAudio] Could not list capture sources:", error)
+      callback({})
+    }
+  })
+}
+
+// Finds the monitor of the default sink with pactl (works on PulseAudio and pipewire-pulse)
+async function findDefaultMonitor(): Promise<{ name: string | null; description: string | null }> {
+  try {
+    const { stdout: sink } = await execFileAsync("pactl", ["get-default-sink"], { timeout: 3000 })
+    const name = `${sink.trim()}.monitor`
+    const { stdout: sources } = await execFileAsync("pactl", ["list", "sources"], {
+      timeout: 3000,
+      env: { ...process.env, LC_ALL: "C" }
+    })
+    const block = sources.split(/^Source #/m).find((b) => b.includes(`Name: ${name}\n`))
+    const description = block?.match(/^\s*Description: (.+)$/m)?.[1].trim() ?? null
+    return { name, description }
+  } catch (error) {
+    console.warn("[SystemAudio] pactl unavailable, renderer will pick any monitor source:", error)
+    return { name: null, description: null }
+  }
+}
+
+export async function getSystemAudioSource(): Promise<SystemAudioSource> {
+  if (process.platform !== "linux") return { kind: "loopback" }
+  return { kind: "monitor", ...(await findDefaultMonitor()) }
+}
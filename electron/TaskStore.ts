@@ -0,0 +1,122 @@
+// TaskStore.ts
+// Follow-up tasks (mostly action items from call summaries) kept in userData/tasks.json
+
+import path from "node:path"
+import fs from "node:fs"
+import { app } from "electron"
+import { v4 as uuidv4 } from "uuid"
+
+export interface Task {
+  id: string
+  title: string
+  owner: string
+  dueDate: string | null // YYYY-MM-DD
+  done: boolean
+  sessionId: string | null // call the task came out of
+  createdAt: number
+  updatedAt: number
+  completedAt: number | null
+}
+
+export type TaskInput = Partial<Pick<Task, "title" | "owner" | "dueDate" | "done" | "sessionId">>
+
+export class TaskStore {
+  private readonly filePath: string
+  private tasks: Task[]
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor() {
+    this.filePath = path.join(app.getPath("userData"), "tasks.json")
+    this.tasks = this.load()
+  }
+
+  private load(): Task[] {
+    if (!fs.existsSync(this.filePath)) return []
+    try {
+      return JSON.parse(fs.readFileSync(this.filePath, "utf-8"))
+    } catch (error) {
+      const backup = `${this.filePath}.corrupt-${Date.now()}`
+      console.error(`[TaskStore] Could not read ${this.filePath}, moved to ${backup}:`, error)
+      fs.renameSync(this.filePath, backup)
+      return []
+    }
+  }
+
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(this.tasks, null, 2)
+    this.writeQueue = this.writeQueue
+      .catch(() => {})
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`
+        await fs.promises.writeFile(tempPath, snapshot, "utf-8")
+        await fs.promises.rename(tempPath, this.filePath)
+      })
+    return this.writeQueue
+  }
+
+  private build(input: TaskInput, now: number): Task {
+    if (!input.title?.trim()) throw new Error("A task needs a title")
+    return {
+      id: uuidv4(),
+      title: input.title.trim(),
+      owner: input.owner ?? "",
+      dueDate: input.dueDate ?? null,
+      done: input.done ?? false,
+      sessionId: input.sessionId ?? null,
+      createdAt: now,
+      updatedAt: now,
+      completedAt: input.done ? now : null
+    }
+  }
+
+  // Open tasks first, then by due date (undated last)
+  public list(): Task[] {
+    return [...this.tasks].sort(
+      (a, b) =>
+        Number(a.done) - Number(b.done) ||
+        (a.dueDate ?? "9999-12-31").localeCompare(b.dueDate ?? "9999-12-31") ||
+        a.createdAt - b.createdAt
+    )
+  }
+
+  public async create(input: TaskInput): Promise<Task> {
+    const task = this.build(input, Date.now())
+    this.tasks.push(task)
+    await this.save()
+    return task
+  }
+
+  // Summarizing a call again replaces its open action items; completed ones are kept
+  public async replaceForSession(sessionId: string, inputs: TaskInput[]): Promise<Task[]> {
+    const now = Date.now()
+    const created = inputs.map((input) => this.build({ ...input, sessionId }, now))
+    this.tasks = this.tasks.filter((task) => task.done || task.sessionId !== sessionId)
+    this.tasks.push(...created)
+    await this.save()
+    return created
+  }
+
+  public async update(id: string, patch: TaskInput): Promise<Task> {
+    const index = this.tasks.findIndex((task) => task.id === id)
+    if (index === -1) throw new Error(`No task with id ${id}`)
+
+    const previous = this.tasks[index]
+    const now = Date.now()
+    const updated: Task = { ...previous, ...patch, id, updatedAt: now }
+    if (!updated.title.trim()) throw new Error("A task needs a title")
+    if (updated.done !== previous.done) {
+      updated.completedAt = updated.done ? now : null
+    }
+    this.tasks[index] = updated
+    await this.save()
+    return updated
+  }
+
+  public async delete(id: string): Promise<{ success: boolean }> {
+    const index = this.tasks.findIndex((task) => task.id === id)
+    if (index === -1) return { success: false }
+    this.tasks.splice(index, 1)
+    await this.save()
+    return { success: true }
+  }
+}
@@ -0,0 +1,125 @@
+// TranscriptionEngine.ts
+
+import fs from "node:fs"
+
+export type TranscriptionEngineName = "deepgram" | "whisper-batch" | "whisper-stream" | "whisper-worker"
+
+// Audio handed to every engine: 16 kHz, mono, signed 16-bit little-endian PCM
+export const PCM_SAMPLE_RATE = 16000
+export const PCM_BYTES_PER_SECOND = PCM_SAMPLE_RATE * 2
+
+export interface TranscriptWord {
+  word: string
+  punctuated_word?: string
+  start: number
+  end: number
+  speaker?: number
+}
+
+// Events use Deepgram's live message shapes so the renderer handles every engine the same way.
+// Times are seconds since the stream was opened.
+export type TranscriptionEvent =
+  | {
+      type: "Results"
+      is_final: boolean
+      start: number
+      duration: number
+      channel: { alternatives: Array<{ transcript: string; words: TranscriptWord[] }> }
+    }
+  | { type: "SpeechStarted"; timestamp: number }
+  | { type: "UtteranceEnd"; last_word_end: number }
+  | { type: "Error"; message: string; closed?: boolean } // closed: the app ended the stream, send no more audio
+
+// Lets the engine detect the spoken language instead of assuming one
+export const AUTO_LANGUAGE = "auto"
+
+export interface TranscriptionStreamOptions {
+  language?: string // ISO 639-1 code such as "de" or "es-419", or AUTO_LANGUAGE
+  diarize?: boolean
+}
+
+export interface TranscriptionStream {
+  write(pcm: Buffer): void
+  // Flushes buffered audio; resolves once the last results have been emitted
+  close(): Promise<void>
+}
+
+export interface TranscriptionEngine {
+  readonly name: TranscriptionEngineName
+  openStream(
+    options: TranscriptionStreamOptions,
+    onEvent: (event: TranscriptionEvent) => void
+  ): Promise<TranscriptionStream>
+  // Transcribes a whole 16 kHz mono WAV file; aborting stops the request or process and
+  // rejects with the signal's reason
+  transcribeFile(wavPath: string, options?: TranscriptionStreamOptions, signal?: AbortSignal): Promise<string>
+  // Releases long-lived resources such as background processes
+  dispose?(): void
+}
+
+export interface TranscriptionConfig {
+  engine: TranscriptionEngineName
+  deepgram: {
+    url: string
+    apiKey?: string
+    model: string
+    language: string
+  }
+  whisper: {
+    cliPath: string
+    serverPath: string // whisper-worker: whisper-server binary kept running with the model loaded
+    workerPath: string // whisper-worker: worker thread script
+    modelPath: string
+    multilingualModelPath: string // used instead of an English-only modelPath for other languages
+    threads: number
+    language: string
+    chunkSeconds: number // whisper-batch: audio collected per run
+    stepMs: number // whisper-stream: how often the open window is re-transcribed
+    windowSeconds: number // whisper-stream/-worker: longest audio before it is finalized
+    silenceMs: number // whisper-worker: silence that ends an utterance
+  }
+}
+
+export class TranscriptionError extends Error {
+  constructor(
+    public readonly engine: TranscriptionEngineName,
+    message: string
+  ) {
+    super(`[${engine}] ${message}`)
+    this.name = "TranscriptionError"
+  }
+}
+
+export function resultEvent(
+  transcript: string,
+  start: number,
+  duration: number,
+  isFinal: boolean
+): TranscriptionEvent {
+  return {
+    type: "Results",
+    is_final: isFinal,
+    start,
+    duration,
+    channel: { alternatives: [{ transcript, words: [] }] }
+  }
+}
+
+// Wraps raw PCM in a minimal RIFF/WAVE header
+export async function writeWav(filePath: string, pcm: Buffer): Promise<void> {
+  const header = Buffer.alloc(44)
+  header.write("RIFF", 0)
+  header.writeUInt32LE(36 + pcm.length, 4)
+  header.write("WAVE", 8)
+  header.write("fmt ", 12)
+  header.writeUInt32LE(16, 16)
+  header.writeUInt16LE(1, 20) // PCM
+  header.writeUInt16LE(1, 22) // mono
+  header.writeUInt32LE(PCM_SAMPLE_RATE, 24)
+  header.writeUInt32LE(PCM_BYTES_PER_SECOND, 28)
+  header.writeUInt16LE(2, 32)
+  header.writeUInt16LE(16, 34)
+  header.write("data", 36)
+  header.writeUInt32LE(pcm.length, 40)
+  await fs.promises.writeFile(filePath, Buffer.concat([header, pcm]))
+}
@@ -0,0 +1,108 @@
+// TranscriptionEngineFactory.ts
+
+import path from "node:path"
+import { DeepgramEngine } from "./DeepgramEngine"
+import { WhisperBatchEngine } from "./WhisperBatchEngine"
+import { WhisperStreamingEngine } from "./WhisperStreamingEngine"
+import { WhisperWorkerEngine } from "./WhisperWorkerEngine"
+import { RedactionError } from "./Redactor"
+import {
+  TranscriptionConfig,
+  TranscriptionEngine,
+  TranscriptionEngineName
+} from "./TranscriptionEngine"
+
+const ENGINES: TranscriptionEngineName[] = ["deepgram", "whisper-batch", "whisper-stream", "whisper-worker"]
+
+export const DEFAULT_MOCK_DEEPGRAM_PORT = 8765
+
+const LOCAL_HOSTS = ["127.0.0.1", "localhost", "[::1]"]
+
+// Reads the live transcription setup from the environment (.env is loaded by ProcessingHelper):
+//   TRANSCRIPTION_ENGINE  deepgram (default) | whisper-batch | whisper-stream | whisper-worker
+//   DEEPGRAM_API_KEY, DEEPGRAM_URL, DEEPGRAM_MODEL, DEEPGRAM_LANGUAGE
+//   DEEPGRAM_MOCK=true    use the local mock server instead (port DEEPGRAM_MOCK_PORT)
+//   WHISPER_CLI, WHISPER_SERVER, WHISPER_MODEL, WHISPER_MULTILINGUAL_MODEL, WHISPER_THREADS, WHISPER_LANGUAGE
+//   WHISPER_CHUNK_SECONDS, WHISPER_STEP_MS, WHISPER_WINDOW_SECONDS, WHISPER_SILENCE_MS
+// Without WHISPER_CLI/WHISPER_SERVER/WHISPER_MODEL, whisper.cpp is expected in <baseDir>/whisper.cpp
+export function loadWhisperConfig(
+  baseDir: string,
+  env: NodeJS.ProcessEnv = process.env
+): TranscriptionConfig["whisper"] {
+  return {
+    cliPath: env.WHISPER_CLI || path.join(baseDir, "whisper.cpp", "build", "bin", "whisper-cli"),
+    serverPath: env.WHISPER_SERVER || path.join(baseDir, "whisper.cpp", "build", "bin", "whisper-server"),
+    // Packaged builds unpack the worker script, since worker threads cannot be started from inside an asar
+    workerPath: path
+      .join(baseDir, "worker-script", "node", "index.js")
+      .replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`),
+    modelPath: env.WHISPER_MODEL || path.join(baseDir, "whisper.cpp", "models", "ggml-tiny.en.bin"),
+    multilingualModelPath:
+      env.WHISPER_MULTILINGUAL_MODEL || path.join(baseDir, "whisper.cpp", "models", "ggml-tiny.bin"),
+    threads: Number(env.WHISPER_THREADS) || 8,
+    language: env.WHISPER_LANGUAGE || "en",
+    chunkSeconds: Number(env.WHISPER_CHUNK_SECONDS) || 5,
+    stepMs: Number(env.WHISPER_STEP_MS) || 1000,
+    windowSeconds: Number(env.WHISPER_WINDOW_SECONDS) || 8,
+    silenceMs: Number(env.WHISPER_SILENCE_MS) || 700
+  }
+}
+
+export function loadTranscriptionConfig(
+  baseDir: string,
+  env: NodeJS.ProcessEnv = process.env
+): TranscriptionConfig {
+  const engine = (env.TRANSCRIPTION_ENGINE || "deepgram").toLowerCase() as TranscriptionEngineName
+  if (!ENGINES.includes(engine)) {
+    throw new Error(
+      `Unknown TRANSCRIPTION_ENGINE "${env.TRANSCRIPTION_ENGINE}" (expected ${ENGINES.join(", ")})`
+    )
+  }
+
+  const mock = env.DEEPGRAM_MOCK === "true"
+  const mockPort = Number(env.DEEPGRAM_MOCK_PORT) || DEFAULT_MOCK_DEEPGRAM_PORT
+
+  return {
+    engine,
+    deepgram: {
+      url: mock
+        ? `ws://127.0.0.1:${mockPort}/v1/listen`
+        : env.DEEPGRAM_URL || "wss://api.deepgram.com/v1/listen",
+      apiKey: mock ? undefined : env.DEEPGRAM_API_KEY,
+      model: env.DEEPGRAM_MODEL || "nova-2",
+      language: env.DEEPGRAM_LANGUAGE || "en-US"
+    },
+    whisper: loadWhisperConfig(baseDir, env)
+  }
+}
+
+// Deepgram gets the raw call audio, which cannot be masked, so it is refused while redaction is
+// on. A Deepgram server on this machine (the mock) is still allowed.
+export function assertTranscriptionAllowed(config: TranscriptionConfig, redactionEnabled: boolean): void {
+  if (!redactionEnabled || config.engine !== "deepgram") return
+  if (LOCAL_HOSTS.includes(new URL(config.deepgram.url).hostname)) return
+  throw new RedactionError(
+    "Deepgram receives the call audio unmasked, so it cannot be used while redaction is on. " +
+      "Set TRANSCRIPTION_ENGINE to a local whisper engine (whisper-batch, whisper-stream or whisper-worker)."
+  )
+}
+
+export function createTranscriptionEngine(
+  config: TranscriptionConfig,
+  redactionEnabled = false
+): TranscriptionEngine {
+  assertTranscriptionAllowed(config, redactionEnabled)
+  switch (config.engine) {
+    case "deepgram":
+      if (!config.deepgram.apiKey && config.deepgram.url.startsWith("wss://api.deepgram.com")) {
+        throw new Error("DEEPGRAM_API_KEY not found in environment variables")
+      }
+      return new DeepgramEngine(config.deepgram)
+    case "whisper-batch":
+      return new WhisperBatchEngine(config.whisper)
+    case "whisper-stream":
+      return new WhisperStreamingEngine(config.whisper)
+    case "whisper-worker":
+      return new WhisperWorkerEngine(config.whisper)
+  }
+}
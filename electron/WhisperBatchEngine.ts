@@ -0,0 +1,160 @@
+// WhisperBatchEngine.ts
+// Local transcription with whisper.cpp's whisper-cli. Live audio is collected into fixed-size
+// chunks and each chunk is transcribed once, so results arrive as finals only.
+
+import path from "node:path"
+import fs from "node:fs"
+import os from "node:os"
+import { execFile } from "node:child_process"
+import { promisify } from "node:util"
+import { v4 as uuidv4 } from "uuid"
+import {
+  PCM_BYTES_PER_SECOND,
+  resultEvent,
+  TranscriptionConfig,
+  TranscriptionEngine,
+  TranscriptionEngineName,
+  TranscriptionError,
+  TranscriptionEvent,
+  TranscriptionStream,
+  TranscriptionStreamOptions,
+  writeWav
+} from "./TranscriptionEngine"
+
+const execFileAsync = promisify(execFile)
+
+export interface WhisperSegment {
+  start: number // seconds
+  end: number
+  text: string
+}
+
+const TIMESTAMP_LINE = /^\[(\d+):(\d+):(\d+\.\d+) --> (\d+):(\d+):(\d+\.\d+)\]\s*(.*)$/
+// whisper marks silence and noise as "[BLANK_AUDIO]", "(music)" and the like
+const NON_SPEECH = /^[[(].*[\])]$/
+
+// English-only models such as ggml-tiny.en.bin can neither transcribe nor detect other languages
+const ENGLISH_ONLY_MODEL = /\.en\.bin$/
+
+// whisper.cpp knows languages by their bare code: "pt-BR" is "pt"
+export const whisperLanguage = (language: string) => language.split("-")[0].toLowerCase()
+
+export function whisperModelFor(config: TranscriptionConfig["whisper"], language: string): string {
+  return whisperLanguage(language) === "en" || !ENGLISH_ONLY_MODEL.test(config.modelPath)
+    ? config.modelPath
+    : config.multilingualModelPath
+}
+
+const seconds = (h: string, m: string, s: string) => Number(h) * 3600 + Number(m) * 60 + Number(s)
+
+export async function runWhisper(
+  engine: TranscriptionEngineName,
+  config: TranscriptionConfig["whisper"],
+  wavPath: string,
+  language?: string,
+  signal?: AbortSignal
+): Promise<WhisperSegment[]> {
+  const spoken = language || config.language
+  let stdout: string
+  try {
+    ;({ stdout } = await execFileAsync(
+      config.cliPath,
+      [
+        "-m", whisperModelFor(config, spoken),
+        "-f", wavPath,
+        "-t", String(config.threads),
+        "-l", whisperLanguage(spoken)
+      ],
+      { maxBuffer: 16 * 1024 * 1024, signal }
+    ))
+  } catch (error: any) {
+    signal?.throwIfAborted()
+    throw new TranscriptionError(engine, `whisper-cli failed: ${error.message}`)
+  }
+
+  const segments: WhisperSegment[] = []
+  for (const line of stdout.split("\n")) {
+    const match = line.trim().match(TIMESTAMP_LINE)
+    if (!match) continue
+    const text = match[7].trim()
+    if (!text || NON_SPEECH.test(text)) continue
+    segments.push({
+      start: seconds(match[1], match[2], match[3]),
+      end: seconds(match[4], match[5], match[6]),
+      text
+    })
+  }
+  return segments
+}
+
+// Writes PCM to a temp WAV, transcribes it and removes the file again
+export async function transcribePcm(
+  engine: TranscriptionEngineName,
+  config: TranscriptionConfig["whisper"],
+  pcm: Buffer,
+  language?: string
+): Promise<WhisperSegment[]> {
+  const wavPath = path.join(os.tmpdir(), `whisper-${uuidv4()}.wav`)
+  try {
+    await writeWav(wavPath, pcm)
+    return await runWhisper(engine, config, wavPath, language)
+  } finally {
+    await fs.promises.unlink(wavPath).catch(() => {})
+  }
+}
+
+export const joinSegments = (segments: WhisperSegment[]) =>
+  segments.map((segment) => segment.text).join(" ").trim()
+
+export class WhisperBatchEngine implements TranscriptionEngine {
+  public readonly name = "whisper-batch" as const
+
+  constructor(private readonly config: TranscriptionConfig["whisper"]) {}
+
+  public async openStream(
+    options: TranscriptionStreamOptions,
+    onEvent: (event: TranscriptionEvent) => void
+  ): Promise<TranscriptionStream> {
+    const chunkBytes = Math.round(this.config.chunkSeconds * PCM_BYTES_PER_SECOND)
+    let pending: Buffer[] = []
+    let pendingBytes = 0
+    let offsetBytes = 0 // audio already handed to whisper
+    let queue: Promise<void> = Promise.resolve()
+
+    // Chunks are transcribed one after another so results stay in order
+    const flush = () => {
+      if (pendingBytes === 0) return queue
+      const pcm = Buffer.concat(pending)
+      const start = offsetBytes / PCM_BYTES_PER_SECOND
+      pending = []
+      pendingBytes = 0
+      offsetBytes += pcm.length
+      queue = queue.then(async () => {
+        try {
+          const text = joinSegments(await transcribePcm(this.name, this.config, pcm, options.language))
+          if (text) onEvent(resultEvent(text, start, pcm.length / PCM_BYTES_PER_SECOND, true))
+        } catch (error: any) {
+          onEvent({ type: "Error", message: error.message })
+        }
+      })
+      return queue
+    }
+
+    return {
+      write: (pcm) => {
+        pending.push(pcm)
+        pendingBytes += pcm.length
+        if (pendingBytes >= chunkBytes) flush()
+      },
+      close: () => flush()
+    }
+  }
+
+  public async transcribeFile(
+    wavPath: string,
+    options: TranscriptionStreamOptions = {},
+    signal?: AbortSignal
+  ): Promise<string> {
+    return joinSegments(await runWhisper(this.name, this.config, wavPath, options.language, signal))
+  }
+}
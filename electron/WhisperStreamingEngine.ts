@@ -0,0 +1,87 @@
+// WhisperStreamingEngine.ts
+// Live captions from whisper.cpp: the open window is re-transcribed every step and reported
+// as interim results, then finalized once it reaches the configured length.
+
+import {
+  PCM_BYTES_PER_SECOND,
+  resultEvent,
+  TranscriptionConfig,
+  TranscriptionEngine,
+  TranscriptionEvent,
+  TranscriptionStream,
+  TranscriptionStreamOptions
+} from "./TranscriptionEngine"
+import { joinSegments, runWhisper, transcribePcm } from "./WhisperBatchEngine"
+
+export class WhisperStreamingEngine implements TranscriptionEngine {
+  public readonly name = "whisper-stream" as const
+
+  constructor(private readonly config: TranscriptionConfig["whisper"]) {}
+
+  public async openStream(
+    options: TranscriptionStreamOptions,
+    onEvent: (event: TranscriptionEvent) => void
+  ): Promise<TranscriptionStream> {
+    const windowBytes = Math.round(this.config.windowSeconds * PCM_BYTES_PER_SECOND)
+    let window = Buffer.alloc(0)
+    let windowStart = 0 // seconds
+    let heardSpeech = false
+    let dirty = false
+    let running: Promise<void> | null = null
+
+    const transcribe = (final: boolean) => {
+      const pcm = window
+      dirty = false
+      running = (async () => {
+        try {
+          const text = joinSegments(await transcribePcm(this.name, this.config, pcm, options.language))
+          if (text && !heardSpeech) {
+            heardSpeech = true
+            onEvent({ type: "SpeechStarted", timestamp: windowStart })
+          }
+          const commit = final || pcm.length >= windowBytes
+          if (text) {
+            onEvent(resultEvent(text, windowStart, pcm.length / PCM_BYTES_PER_SECOND, commit))
+          }
+          if (commit) {
+            // Keep whatever arrived while whisper was running
+            window = window.subarray(pcm.length)
+            windowStart += pcm.length / PCM_BYTES_PER_SECOND
+            heardSpeech = false
+            dirty = window.length > 0
+          }
+        } catch (error: any) {
+          onEvent({ type: "Error", message: error.message })
+        } finally {
+          running = null
+        }
+      })()
+      return running
+    }
+
+    // Skips a step while whisper is still busy with the previous one
+    const timer = setInterval(() => {
+      if (!running && dirty) transcribe(false)
+    }, this.config.stepMs)
+
+    return {
+      write: (pcm) => {
+        window = Buffer.concat([window, pcm])
+        dirty = true
+      },
+      close: async () => {
+        clearInterval(timer)
+        if (running) await running
+        if (window.length > 0) await transcribe(true)
+      }
+    }
+  }
+
+  public async transcribeFile(
+    wavPath: string,
+    options: TranscriptionStreamOptions = {},
+    signal?: AbortSignal
+  ): Promise<string> {
+    return joinSegments(await runWhisper(this.name, this.config, wavPath, options.language, signal))
+  }
+}
@@ -0,0 +1,183 @@
+// WhisperWorkerEngine.ts
+// Live captions from a persistent whisper.cpp worker (worker-script/node/index.js). The worker
+// thread keeps one whisper-server process with the model loaded, splits each stream into
+// utterances and reports partial and final segments, so nothing is spawned per chunk.
+
+import { Worker } from "node:worker_threads"
+import { v4 as uuidv4 } from "uuid"
+import {
+  resultEvent,
+  TranscriptionConfig,
+  TranscriptionEngine,
+  TranscriptionError,
+  TranscriptionEvent,
+  TranscriptionStream,
+  TranscriptionStreamOptions
+} from "./TranscriptionEngine"
+import { joinSegments, whisperLanguage, whisperModelFor, WhisperSegment } from "./WhisperBatchEngine"
+
+// Finals for the last utterance can take a while on slow machines
+const CLOSE_TIMEOUT_MS = 15000
+
+type WorkerMessage =
+  | { type: "ready" }
+  | { type: "server-started"; pid: number }
+  | { type: "server-exited"; pid: number }
+  | { type: "speech-started"; streamId: string; timestamp: number }
+  | { type: "segment"; streamId: string; final: boolean; start: number; end: number; text: string }
+  | { type: "utterance-end"; streamId: string; lastWordEnd: number }
+  | { type: "closed"; streamId: string }
+  | { type: "file-result"; requestId: string; segments: WhisperSegment[] }
+  | { type: "error"; streamId?: string; requestId?: string; error: string }
+
+export class WhisperWorkerEngine implements TranscriptionEngine {
+  public readonly name = "whisper-worker" as const
+  private worker: Worker | null = null
+  // Keyed by stream or file request id
+  private listeners = new Map<string, (message: WorkerMessage) => void>()
+  // whisper-server processes the worker has running
+  private serverPids = new Set<number>()
+
+  constructor(private readonly config: TranscriptionConfig["whisper"]) {}
+
+  // Starts the worker on first use; it is started again if it dies
+  private getWorker(): Worker {
+    if (this.worker) return this.worker
+
+    const worker = new Worker(this.config.workerPath, {
+      workerData: {
+        serverPath: this.config.serverPath,
+        threads: this.config.threads,
+        stepMs: this.config.stepMs,
+        windowSeconds: this.config.windowSeconds,
+        silenceMs: this.config.silenceMs
+      }
+    })
+    worker.on("message", (message: WorkerMessage) => {
+      const key = "streamId" in message ? message.streamId : "requestId" in message ? message.requestId : undefined
+      if (key) {
+        this.listeners.get(key)?.(message)
+      } else if (message.type === "error") {
+        console.error("[WhisperWorker]", message.error)
+      } else if (message.type === "ready") {
+        console.log("[WhisperWorker] whisper-server is ready")
+      } else if (message.type === "server-started") {
+        this.serverPids.add(message.pid)
+      } else if (message.type === "server-exited") {
+        this.serverPids.delete(message.pid)
+      }
+    })
+    worker.on("error", (error) => console.error("[WhisperWorker] Worker failed:", error))
+    worker.on("exit", (code) => {
+      if (this.worker === worker) this.worker = null
+      // Nobody is left to answer: fail whatever was still waiting on this worker
+      for (const [key, listener] of [...this.listeners]) {
+        listener({ type: "error", streamId: key, requestId: key, error: `Whisper worker exited with ${code}` })
+        listener({ type: "closed", streamId: key })
+      }
+    })
+    this.worker = worker
+    return worker
+  }
+
+  // Model and language the worker should use; it keeps one whisper-server per model
+  private target(options: TranscriptionStreamOptions) {
+    const language = options.language || this.config.language
+    return { model: whisperModelFor(this.config, language), language: whisperLanguage(language) }
+  }
+
+  public async openStream(
+    options: TranscriptionStreamOptions,
+    onEvent: (event: TranscriptionEvent) => void
+  ): Promise<TranscriptionStream> {
+    const worker = this.getWorker()
+    const streamId = uuidv4()
+    let onClosed: () => void = () => {}
+    const closed = new Promise<void>((resolve) => (onClosed = resolve))
+
+    this.listeners.set(streamId, (message) => {
+      switch (message.type) {
+        case "speech-started":
+          onEvent({ type: "SpeechStarted", timestamp: message.timestamp })
+          break
+        case "segment":
+          onEvent(resultEvent(message.text, message.start, message.end - message.start, message.final))
+          break
+        case "utterance-end":
+          onEvent({ type: "UtteranceEnd", last_word_end: message.lastWordEnd })
+          break
+        case "error":
+          onEvent({ type: "Error", message: message.error })
+          break
+        case "closed":
+          this.listeners.delete(streamId)
+          onClosed()
+          break
+      }
+    })
+    worker.postMessage({ type: "open", streamId, ...this.target(options) })
+
+    return {
+      write: (pcm) => {
+        // Copy out of Node's shared buffer pool so the bytes can be transferred
+        const frame = pcm.buffer.slice(pcm.byteOffset, pcm.byteOffset + pcm.byteLength) as ArrayBuffer
+        worker.postMessage({ type: "audio", streamId, pcm: frame }, [frame])
+      },
+      close: async () => {
+        if (!this.listeners.has(streamId)) return
+        worker.postMessage({ type: "close", streamId })
+        let timer: NodeJS.Timeout | undefined
+        await Promise.race([closed, new Promise<void>((resolve) => (timer = setTimeout(resolve, CLOSE_TIMEOUT_MS)))])
+        clearTimeout(timer)
+        this.listeners.delete(streamId)
+      }
+    }
+  }
+
+  public async transcribeFile(
+    wavPath: string,
+    options: TranscriptionStreamOptions = {},
+    signal?: AbortSignal
+  ): Promise<string> {
+    signal?.throwIfAborted()
+    const worker = this.getWorker()
+    const requestId = uuidv4()
+    const segments = await new Promise<WhisperSegment[]>((resolve, reject) => {
+      // The worker drops the request if it is still queued and cancels it if it is running
+      const onAbort = () => {
+        this.listeners.delete(requestId)
+        worker.postMessage({ type: "cancel-file", requestId })
+        reject(signal!.reason)
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+      this.listeners.set(requestId, (message) => {
+        if (message.type === "file-result") resolve(message.segments)
+        else if (message.type === "error") reject(new TranscriptionError(this.name, message.error))
+        else return
+        this.listeners.delete(requestId)
+        signal?.removeEventListener("abort", onAbort)
+      })
+      worker.postMessage({ type: "transcribe-file", requestId, wavPath, ...this.target(options) })
+    })
+    return joinSegments(segments)
+  }
+
+  // Stops every whisper-server along with the worker. The servers are killed from here as well,
+  // since the app may exit before the worker gets to the shutdown message, and they would
+  // outlive it otherwise.
+  public dispose(): void {
+    const worker = this.worker
+    this.worker = null
+    if (!worker) return
+    worker.postMessage({ type: "shutdown" })
+    for (const pid of this.serverPids) {
+      try {
+        process.kill(pid)
+      } catch (error: any) {
+        if (error.code !== "ESRCH") console.error(`[WhisperWorker] Could not stop whisper-server ${pid}:`, error)
+      }
+    }
+    this.serverPids.clear()
+    worker.terminate().catch((error) => console.error("[WhisperWorker] Could not stop the worker:", error))
+  }
+}
@@ -1,10 +1,15 @@
 
-import { BrowserWindow, screen } from "electron"
+import { BrowserWindow, Display, Rectangle, screen } from "electron"
 import { AppState } from "main"
 import path from "node:path"
 
 const isDev = process.env.NODE_ENV === "development"
 
+// The overlay moves a tenth of the display per arrow key press
+const MOVE_STEPS = 10
+// Moves come in bursts while dragging or holding an arrow key; only where it stops is saved
+const POSITION_SAVE_DELAY_MS = 500
+
 const startUrl = isDev
   ? "http://localhost:5180"
   : `file://${path.join(__dirname, "../dist/index.html")}`
@@ -15,11 +20,9 @@ export class WindowHelper {
   private windowPosition: { x: number; y: number } | null = null
   private windowSize: { width: number; height: number } | null = null
   private appState: AppState
+  private savePositionTimer: NodeJS.Timeout | null = null
 
   // Initialize with explicit number type and 0 value
-  private screenWidth: number = 0
-  private screenHeight: number = 0
-  private step: number = 0
   private currentX: number = 0
   private currentY: number = 0
 
@@ -33,9 +36,8 @@ export class WindowHelper {
     // Get current window position
     const [currentX, currentY] = this.mainWindow.getPosition()
 
-    // Get screen dimensions
-    const primaryDisplay = screen.getPrimaryDisplay()
-    const workArea = primaryDisplay.workAreaSize
+    // Get dimensions of the display the window is on
+    const workArea = this.getCurrentDisplay().workArea
 
     // Use 75% width if debugging has occurred, otherwise use 60%
     const maxAllowedWidth = Math.floor(
@@ -47,8 +49,8 @@ export class WindowHelper {
     const newHeight = Math.ceil(height)
 
     // Center the window horizontally if it would go off screen
-    const maxX = workArea.width - newWidth
-    const newX = Math.min(Math.max(currentX, 0), maxX)
+    const maxX = workArea.x + workArea.width - newWidth
+    const newX = Math.min(Math.max(currentX, workArea.x), maxX)
 
     // Update window bounds
     this.mainWindow.setBounds({
@@ -67,12 +69,6 @@ export class WindowHelper {
   public createWindow(): void {
     if (this.mainWindow !== null) return
 
-    const primaryDisplay = screen.getPrimaryDisplay()
-    const workArea = primaryDisplay.workAreaSize
-    this.screenWidth = workArea.width
-    this.screenHeight = workArea.height
-
-    
     const windowSettings: Electron.BrowserWindowConstructorOptions = {
       width: 400,
       height: 600,
@@ -122,15 +118,15 @@ export class WindowHelper {
       console.error("Failed to load URL:", err)
     })
 
-    // Show window after loading URL and center it
+    // Show window after loading URL on the display the cursor is on
     this.mainWindow.once('ready-to-show', () => {
       if (this.mainWindow) {
-        // Center the window first
-        this.centerWindow()
+        // Place the window first
+        this.placeOnDisplay(this.getCursorDisplay())
         this.mainWindow.show()
         this.mainWindow.focus()
         this.mainWindow.setAlwaysOnTop(true)
-        console.log("Window is now visible and centered")
+        console.log("Window is now visible")
       }
     })
 
@@ -153,6 +149,7 @@ export class WindowHelper {
         this.windowPosition = { x: bounds.x, y: bounds.y }
         this.currentX = bounds.x
         this.currentY = bounds.y
+        this.scheduleSavePosition()
       }
     })
 
@@ -163,7 +160,18 @@ export class WindowHelper {
       }
     })
 
+    // A window left on an unplugged monitor would be unreachable
+    const onDisplayRemoved = () => {
+      if (!this.mainWindow || this.mainWindow.isDestroyed()) return
+      const bounds = this.mainWindow.getBounds()
+      if (!this.isOnScreen(bounds)) {
+        this.placeOnDisplay(screen.getPrimaryDisplay())
+      }
+    }
+    screen.on("display-removed", onDisplayRemoved)
+
     this.mainWindow.on("closed", () => {
+      screen.removeListener("display-removed", onDisplayRemoved)
       this.mainWindow = null
       this.isWindowVisible = false
       this.windowPosition = null
@@ -171,6 +179,85 @@ export class WindowHelper {
     })
   }
 
+  // The display the overlay is on (mostly), the primary one before it exists
+  public getCurrentDisplay(): Display {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) {
+      return screen.getPrimaryDisplay()
+    }
+    return screen.getDisplayMatching(this.mainWindow.getBounds())
+  }
+
+  private getCursorDisplay(): Display {
+    return screen.getDisplayNearestPoint(screen.getCursorScreenPoint())
+  }
+
+  // True while at least the window's center is on some display
+  private isOnScreen(bounds: Rectangle): boolean {
+    const center = {
+      x: bounds.x + bounds.width / 2,
+      y: bounds.y + bounds.height / 2
+    }
+    return screen.getAllDisplays().some(({ workArea }) =>
+      center.x >= workArea.x &&
+      center.x <= workArea.x + workArea.width &&
+      center.y >= workArea.y &&
+      center.y <= workArea.y + workArea.height
+    )
+  }
+
+  private scheduleSavePosition(): void {
+    if (this.savePositionTimer) clearTimeout(this.savePositionTimer)
+    this.savePositionTimer = setTimeout(() => {
+      this.savePositionTimer = null
+      if (!this.mainWindow || this.mainWindow.isDestroyed()) return
+      const bounds = this.mainWindow.getBounds()
+      const { id, workArea } = this.getCurrentDisplay()
+      this.appState
+        .getSettingsStore()
+        .setWindowPosition(id, { x: bounds.x - workArea.x, y: bounds.y - workArea.y })
+        .catch((error) => console.error("Could not save the window position:", error))
+    }, POSITION_SAVE_DELAY_MS)
+  }
+
+  private setPosition(x: number, y: number): void {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) return
+
+    const windowBounds = this.mainWindow.getBounds()
+    const windowWidth = windowBounds.width || 400
+    const windowHeight = windowBounds.height || 600
+
+    this.mainWindow.setBounds({
+      x,
+      y,
+      width: windowWidth,
+      height: windowHeight
+    })
+
+    // Update internal state
+    this.windowPosition = { x, y }
+    this.windowSize = { width: windowWidth, height: windowHeight }
+    this.currentX = x
+    this.currentY = y
+  }
+
+  // Where the window last was on this display, kept inside the work area in case the
+  // resolution changed; centered when it has not been there before
+  private placeOnDisplay(display: Display): void {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) return
+
+    const remembered = this.appState.getSettingsStore().getWindowPosition(display.id)
+    if (!remembered) {
+      this.centerWindow(display)
+      return
+    }
+
+    const { workArea } = display
+    const { width, height } = this.mainWindow.getBounds()
+    const x = workArea.x + Math.min(Math.max(remembered.x, 0), Math.max(workArea.width - width, 0))
+    const y = workArea.y + Math.min(Math.max(remembered.y, 0), Math.max(workArea.height - height, 0))
+    this.setPosition(x, y)
+  }
+
   public getMainWindow(): BrowserWindow | null {
     return this.mainWindow
   }
@@ -199,12 +286,12 @@ export class WindowHelper {
     }
 
     if (this.windowPosition && this.windowSize) {
-      this.mainWindow.setBounds({
-        x: this.windowPosition.x,
-        y: this.windowPosition.y,
-        width: this.windowSize.width,
-        height: this.windowSize.height
-      })
+      const bounds = { ...this.windowPosition, ...this.windowSize }
+      if (this.isOnScreen(bounds)) {
+        this.mainWindow.setBounds(bounds)
+      } else {
+        this.placeOnDisplay(screen.getPrimaryDisplay())
+      }
     }
 
     this.mainWindow.showInactive()
@@ -220,36 +307,23 @@ export class WindowHelper {
     }
   }
 
-  private centerWindow(): void {
+  private centerWindow(display: Display = this.getCurrentDisplay()): void {
     if (!this.mainWindow || this.mainWindow.isDestroyed()) {
       return
     }
 
-    const primaryDisplay = screen.getPrimaryDisplay()
-    const workArea = primaryDisplay.workAreaSize
-    
+    const workArea = display.workArea
+
     // Get current window size or use defaults
     const windowBounds = this.mainWindow.getBounds()
     const windowWidth = windowBounds.width || 400
     const windowHeight = windowBounds.height || 600
-    
+
     // Calculate center position
-    const centerX = Math.floor((workArea.width - windowWidth) / 2)
-    const centerY = Math.floor((workArea.height - windowHeight) / 2)
-    
-    // Set window position
-    this.mainWindow.setBounds({
-      x: centerX,
-      y: centerY,
-      width: windowWidth,
-      height: windowHeight
-    })
-    
-    // Update internal state
-    this.windowPosition = { x: centerX, y: centerY }
-    this.windowSize = { width: windowWidth, height: windowHeight }
-    this.currentX = centerX
-    this.currentY = centerY
+    const centerX = workArea.x + Math.floor((workArea.width - windowWidth) / 2)
+    const centerY = workArea.y + Math.floor((workArea.height - windowHeight) / 2)
+
+    this.setPosition(centerX, centerY)
   }
 
   public centerAndShowWindow(): void {
@@ -258,84 +332,68 @@ export class WindowHelper {
       return
     }
 
-    this.centerWindow()
+    // Brought to the monitor being worked on; pressed again there, it centers
+    const target = this.getCursorDisplay()
+    if (target.id === this.getCurrentDisplay().id) {
+      this.centerWindow(target)
+    } else {
+      this.placeOnDisplay(target)
+    }
     this.mainWindow.show()
     this.mainWindow.focus()
     this.mainWindow.setAlwaysOnTop(true)
     this.isWindowVisible = true
-    
-    console.log(`Window centered and shown`)
+
+    console.log(`Window shown on display ${target.id}`)
   }
 
   // New methods for window movement
   public moveWindowRight(): void {
-    if (!this.mainWindow) return
-
-    const windowWidth = this.windowSize?.width || 0
-    const halfWidth = windowWidth / 2
-
-    // Ensure currentX and currentY are numbers
-    this.currentX = Number(this.currentX) || 0
-    this.currentY = Number(this.currentY) || 0
-
-    this.currentX = Math.min(
-      this.screenWidth - halfWidth,
-      this.currentX + this.step
-    )
-    this.mainWindow.setPosition(
-      Math.round(this.currentX),
-      Math.round(this.currentY)
-    )
+    this.moveWindow(1, 0)
   }
 
   public moveWindowLeft(): void {
-    if (!this.mainWindow) return
-
-    const windowWidth = this.windowSize?.width || 0
-    const halfWidth = windowWidth / 2
-
-    // Ensure currentX and currentY are numbers
-    this.currentX = Number(this.currentX) || 0
-    this.currentY = Number(this.currentY) || 0
-
-    this.currentX = Math.max(-halfWidth, this.currentX - this.step)
-    this.mainWindow.setPosition(
-      Math.round(this.currentX),
-      Math.round(this.currentY)
-    )
+    this.moveWindow(-1, 0)
   }
 
   public moveWindowDown(): void {
-    if (!this.mainWindow) return
-
-    const windowHeight = this.windowSize?.height || 0
-    const halfHeight = windowHeight / 2
-
-    // Ensure currentX and currentY are numbers
-    this.currentX = Number(this.currentX) || 0
-    this.currentY = Number(this.currentY) || 0
-
-    this.currentY = Math.min(
-      this.screenHeight - halfHeight,
-      this.currentY + this.step
-    )
-    this.mainWindow.setPosition(
-      Math.round(this.currentX),
-      Math.round(this.currentY)
-    )
+    this.moveWindow(0, 1)
   }
 
   public moveWindowUp(): void {
+    this.moveWindow(0, -1)
+  }
+
+  // Moves a step of the current display's size. The window's center may go onto any display,
+  // which carries it across monitor edges; past the outer edges half of it stays visible.
+  private moveWindow(dx: number, dy: number): void {
     if (!this.mainWindow) return
 
+    const { workArea } = this.getCurrentDisplay()
+    const windowWidth = this.windowSize?.width || 0
     const windowHeight = this.windowSize?.height || 0
-    const halfHeight = windowHeight / 2
 
     // Ensure currentX and currentY are numbers
     this.currentX = Number(this.currentX) || 0
     this.currentY = Number(this.currentY) || 0
 
-    this.currentY = Math.max(-halfHeight, this.currentY - this.step)
+    let nextX = this.currentX + dx * Math.floor(workArea.width / MOVE_STEPS)
+    let nextY = this.currentY + dy * Math.floor(workArea.height / MOVE_STEPS)
+
+    const next = { x: nextX, y: nextY, width: windowWidth, height: windowHeight }
+    if (!this.isOnScreen(next)) {
+      nextX = Math.min(
+        Math.max(nextX, workArea.x - windowWidth / 2),
+        workArea.x + workArea.width - windowWidth / 2
+      )
+      nextY = Math.min(
+        Math.max(nextY, workArea.y - windowHeight / 2),
+        workArea.y + workArea.height - windowHeight / 2
+      )
+    }
+
+    this.currentX = nextX
+    this.currentY = nextY
     this.mainWindow.setPosition(
       Math.round(this.currentX),
       Math.round(this.currentY)
@@ -1,7 +1,86 @@
 // ipcHandlers.ts
 
-import { ipcMain, app } from "electron"
+import { ipcMain, app, clipboard, dialog, IpcMainInvokeEvent, WebContents } from "electron"
+import fs from "node:fs"
 import { AppState } from "./main"
+import { LanguageOptions, StreamOptions } from "./LLMHelper"
+import { EntryTranslation, SessionEntry, TranscriptionFinal } from "./SessionStore"
+import { CrmCollection, CrmInput, PipelineStage } from "./CrmStore"
+import { TaskInput } from "./TaskStore"
+import {
+  AudioSettings,
+  LanguageSettings,
+  RedactionSettings,
+  ScreenshotSettings,
+  VadSettings
+} from "./SettingsStore"
+import { getSystemAudioSource } from "./SystemAudioHelper"
+import { IMPORT_EXTENSIONS } from "./CallImporter"
+import { CaptureTarget } from "./ScreenshotHelper"
+import { RedactionError } from "./Redactor"
+import { TranscriptionStream, TranscriptionStreamOptions } from "./TranscriptionEngine"
+import { EmailDraft } from "./ResponseSchemas"
+import {
+  buildEml,
+  EMAIL_TEMPLATES,
+  EmailAccountDetails,
+  EmailSection,
+  EmailTemplateId,
+  renderEmailHtml,
+  renderEmailText
+} from "./EmailTemplates"
+
+// Streaming requests are keyed by a renderer-generated id; chunks go out on "llm-stream:<id>"
+const activeStreams = new Map<string, AbortController>()
+
+// Live transcription streams, also keyed by a renderer-generated id; events go out on
+// "transcription:<id>" and PCM comes in on "transcription-audio"
+const transcriptionStreams = new Map<string, TranscriptionStream>()
+const transcriptionSenders = new Map<string, WebContents>()
+
+// Recording imports, keyed by a renderer-generated id; progress goes out on "import-progress:<id>"
+const activeImports = new Map<string, AbortController>()
+
+function closeTranscriptionStream(streamId: string): Promise<void> {
+  const stream = transcriptionStreams.get(streamId)
+  if (!stream) return Promise.resolve()
+  transcriptionStreams.delete(streamId)
+  transcriptionSenders.delete(streamId)
+  return stream.close()
+}
+
+async function streamToRenderer(
+  event: IpcMainInvokeEvent,
+  requestId: string,
+  run: (stream: StreamOptions) => Promise<string>
+): Promise<string | null> {
+  const channel = `llm-stream:${requestId}`
+  const controller = new AbortController()
+  activeStreams.set(requestId, controller)
+
+  const send = (payload: Record<string, unknown>) => {
+    if (!event.sender.isDestroyed()) event.sender.send(channel, payload)
+  }
+
+  try {
+    const text = await run({
+      signal: controller.signal,
+      onChunk: (chunk) => send({ type: "chunk", text: chunk })
+    })
+    send({ type: "done", text })
+    return text
+  } catch (error: any) {
+    if (controller.signal.aborted) {
+      send({ type: "cancelled" })
+      return null
+    }
+    console.error(`Error in stream ${requestId}:`, error)
+    send({ type: "error", error: error.message })
+    throw error
+  } finally {
+    activeStreams.delete(requestId)
+  }
+}
 
 export function initializeIpcHandlers(appState: AppState): void {
   ipcMain.handle(
@@ -17,9 +96,10 @@ export function initializeIpcHandlers(appState: AppState): void {
     return appState.deleteScreenshot(path)
   })
 
-  ipcMain.handle("take-screenshot", async () => {
+  ipcMain.handle("take-screenshot", async (event, target?: CaptureTarget) => {
     try {
-      const screenshotPath = await appState.takeScreenshot()
+      const screenshotPath = await appState.takeScreenshot(target)
+      if (!screenshotPath) return null
       const preview = await appState.getImagePreview(screenshotPath)
       return { path: screenshotPath, preview }
     } catch (error) {
@@ -28,6 +108,36 @@ export function initializeIpcHandlers(appState: AppState): void {
     }
   })
 
+  ipcMain.handle("list-capture-windows", async () => {
+    return appState.listCaptureWindows()
+  })
+
+  ipcMain.handle("capture-window", async (event, sourceId: string) => {
+    return appState.captureScreenshot({ mode: "window", sourceId })
+  })
+
+  // Matches come with a preview so the renderer can show where the text was found
+  ipcMain.handle("search-screenshots", async (event, query: string) => {
+    const matches = await appState.searchScreenshots(query)
+    return Promise.all(
+      matches.map(async (match) => ({
+        ...match,
+        preview: await appState.getImagePreview(match.path)
+      }))
+    )
+  })
+
+  ipcMain.handle("screenshot-get-settings", async () => {
+    return appState.getSettingsStore().get().screenshots
+  })
+
+  // Lower limits take effect right away
+  ipcMain.handle("screenshot-update-settings", async (event, patch: Partial<ScreenshotSettings>) => {
+    const settings = await appState.getSettingsStore().updateScreenshots(patch)
+    await appState.getScreenshotHelper().applyRetention()
+    return settings
+  })
+
   ipcMain.handle("get-screenshots", async () => {
     console.log({ view: appState.getView() })
     try {
@@ -113,6 +223,385 @@ export function initializeIpcHandlers(appState: AppState): void {
     }
   });
 
+  ipcMain.handle(
+    "gemini-chat-stream",
+    async (event, requestId: string, message: string, languages?: LanguageOptions) => {
+      return streamToRenderer(event, requestId, (stream) =>
+        appState.processingHelper.getLLMHelper().chatWithGemini(message, stream, languages)
+      )
+    }
+  )
+
+  ipcMain.handle("analyze-image-file-stream", async (event, requestId: string, path: string) => {
+    return streamToRenderer(event, requestId, async (stream) => {
+      const result = await appState.processingHelper.getLLMHelper().analyzeImageFile(path, stream)
+      return result.text
+    })
+  })
+
+  ipcMain.handle(
+    "analyze-audio-base64-stream",
+    async (event, requestId: string, data: string, mimeType: string, languages?: LanguageOptions) => {
+      return streamToRenderer(event, requestId, async (stream) => {
+        const result = await appState.processingHelper.processAudioBase64(data, mimeType, stream, languages)
+        return result.text
+      })
+    }
+  )
+
+  ipcMain.handle("translate-text", async (event, text: string, language: string) => {
+    return appState.processingHelper.getLLMHelper().translate(text, language)
+  })
+
+  ipcMain.handle("cancel-llm-stream", async (event, requestId: string) => {
+    const controller = activeStreams.get(requestId)
+    if (!controller) return false
+    controller.abort()
+    return true
+  })
+
+  // Call session history
+  ipcMain.handle("session-start", async (event, title?: string, language?: string) => {
+    return appState.getSessionStore().startSession(title, Date.now(), language)
+  })
+
+  ipcMain.handle("session-add-entry", async (event, id: string, entry: SessionEntry) => {
+    return appState.getSessionStore().addEntry(id, entry)
+  })
+
+  ipcMain.handle(
+    "session-add-translation",
+    async (event, id: string, entry: SessionEntry, translation: EntryTranslation) => {
+      return appState.getSessionStore().addTranslation(id, entry, translation)
+    }
+  )
+
+  ipcMain.handle("session-add-final", async (event, id: string, final: TranscriptionFinal) => {
+    return appState.getSessionStore().addFinal(id, final)
+  })
+
+  ipcMain.handle("session-end", async (event, id: string) => {
+    return appState.getSessionStore().endSession(id)
+  })
+
+  ipcMain.handle("session-list", async () => {
+    return appState.getSessionStore().listSessions()
+  })
+
+  ipcMain.handle("session-get", async (event, id: string) => {
+    return appState.getSessionStore().getSession(id)
+  })
+
+  ipcMain.handle("session-rename", async (event, id: string, title: string) => {
+    return appState.getSessionStore().renameSession(id, title)
+  })
+
+  ipcMain.handle("session-delete", async (event, id: string) => {
+    const result = await appState.getSessionStore().deleteSession(id)
+    if (result.success) {
+      await appState.getCrmStore().unlink("session", id)
+    }
+    return result
+  })
+
+  ipcMain.handle(
+    "session-set-speaker-name",
+    async (event, id: string, label: string, name: string) => {
+      return appState.getSessionStore().setSpeakerName(id, label, name)
+    }
+  )
+
+  // Resolves with the chosen path, or null if the dialog was cancelled
+  ipcMain.handle("import-pick-recording", async () => {
+    const mainWindow = appState.getMainWindow()
+    const options = {
+      properties: ["openFile" as const],
+      filters: [{ name: "Call recordings", extensions: IMPORT_EXTENSIONS }]
+    }
+    const result = mainWindow
+      ? await dialog.showOpenDialog(mainWindow, options)
+      : await dialog.showOpenDialog(options)
+    return result.canceled ? null : result.filePaths[0] ?? null
+  })
+
+  ipcMain.handle("import-recording", async (event, importId: string, filePath: string, language?: string) => {
+    const controller = new AbortController()
+    activeImports.set(importId, controller)
+    try {
+      return await appState.processingHelper.importRecording(
+        filePath,
+        (progress) => {
+          if (!event.sender.isDestroyed()) event.sender.send(`import-progress:${importId}`, progress)
+        },
+        controller.signal,
+        language
+      )
+    } finally {
+      activeImports.delete(importId)
+    }
+  })
+
+  ipcMain.handle("import-cancel", async (event, importId: string) => {
+    const controller = activeImports.get(importId)
+    if (!controller) return false
+    controller.abort()
+    return true
+  })
+
+  // Opt-in call recording, streamed in chunks while the call runs
+  ipcMain.handle(
+    "session-start-recording",
+    async (event, id: string, startedAt: number, mimeType: string) => {
+      return appState.getSessionStore().startRecording(id, startedAt, mimeType)
+    }
+  )
+
+  ipcMain.handle("session-append-audio", async (event, id: string, chunk: ArrayBuffer) => {
+    return appState.getSessionStore().appendAudio(id, Buffer.from(chunk))
+  })
+
+  ipcMain.handle("session-get-audio", async (event, id: string) => {
+    return appState.getSessionStore().getAudio(id)
+  })
+
+  ipcMain.handle("session-finish", async (event, id: string) => {
+    return appState.processingHelper.finishSession(id)
+  })
+
+  // Follow-up email drafts
+  ipcMain.handle("email-templates", async () => {
+    return Object.entries(EMAIL_TEMPLATES).map(([id, template]) => ({ id, label: template.label }))
+  })
+
+  ipcMain.handle(
+    "email-draft",
+    async (event, sessionId: string, account: EmailAccountDetails, templateId: EmailTemplateId) => {
+      return appState.processingHelper.draftFollowUpEmail(sessionId, account, templateId)
+    }
+  )
+
+  ipcMain.handle(
+    "email-regenerate-section",
+    async (
+      event,
+      sessionId: string,
+      account: EmailAccountDetails,
+      templateId: EmailTemplateId,
+      draft: EmailDraft,
+      section: EmailSection
+    ) => {
+      return appState.processingHelper.regenerateEmailSection(
+        sessionId,
+        account,
+        templateId,
+        draft,
+        section
+      )
+    }
+  )
+
+  ipcMain.handle("email-copy", async (event, draft: EmailDraft, format: "text" | "html") => {
+    const text = `Subject: ${draft.subject}\n\n${renderEmailText(draft)}`
+    if (format === "html") {
+      clipboard.write({ text, html: renderEmailHtml(draft) })
+    } else {
+      clipboard.writeText(text)
+    }
+  })
+
+  // Resolves with the saved path, or null if the dialog was cancelled
+  ipcMain.handle("email-export-eml", async (event, draft: EmailDraft, to: string) => {
+    const mainWindow = appState.getMainWindow()
+    const options = {
+      defaultPath: `${draft.subject.replace(/[\\/:*?"<>|]/g, "").slice(0, 80) || "follow-up"}.eml`,
+      filters: [{ name: "Email message", extensions: ["eml"] }]
+    }
+    const result = mainWindow
+      ? await dialog.showSaveDialog(mainWindow, options)
+      : await dialog.showSaveDialog(options)
+    if (result.canceled || !result.filePath) return null
+    await fs.promises.writeFile(result.filePath, buildEml(draft, to), "utf-8")
+    return result.filePath
+  })
+
+  // Follow-up tasks
+  ipcMain.handle("task-list", async () => {
+    return appState.getTaskStore().list()
+  })
+
+  ipcMain.handle("task-create", async (event, input: TaskInput) => {
+    return appState.getTaskStore().create(input)
+  })
+
+  ipcMain.handle("task-update", async (event, id: string, patch: TaskInput) => {
+    return appState.getTaskStore().update(id, patch)
+  })
+
+  ipcMain.handle("task-delete", async (event, id: string) => {
+    return appState.getTaskStore().delete(id)
+  })
+
+  // Live transcription through the configured engine
+  ipcMain.handle(
+    "transcription-open",
+    async (event, streamId: string, options: TranscriptionStreamOptions) => {
+      const sender = event.sender
+      const stream = await appState.getTranscriptionEngine().openStream(options, (message) => {
+        if (!sender.isDestroyed()) sender.send(`transcription:${streamId}`, message)
+      })
+      transcriptionStreams.set(streamId, stream)
+      transcriptionSenders.set(streamId, sender)
+      sender.once("destroyed", () => closeTranscriptionStream(streamId))
+    }
+  )
+
+  ipcMain.on("transcription-audio", (event, streamId: string, pcm: ArrayBuffer) => {
+    transcriptionStreams.get(streamId)?.write(Buffer.from(pcm))
+  })
+
+  ipcMain.handle("transcription-close", async (event, streamId: string) => {
+    await closeTranscriptionStream(streamId)
+  })
+
+  // Audio capture settings
+  ipcMain.handle("audio-get-settings", async () => {
+    return appState.getSettingsStore().get().audio
+  })
+
+  ipcMain.handle("audio-update-settings", async (event, patch: Partial<AudioSettings>) => {
+    return appState.getSettingsStore().updateAudio(patch)
+  })
+
+  ipcMain.handle("language-get-settings", async () => {
+    return appState.getSettingsStore().get().language
+  })
+
+  ipcMain.handle("language-update-settings", async (event, patch: Partial<LanguageSettings>) => {
+    return appState.getSettingsStore().updateLanguage(patch)
+  })
+
+  ipcMain.handle("redaction-get-settings", async () => {
+    return appState.getSettingsStore().get().redaction
+  })
+
+  // Switching redaction on ends open streams to an engine that would get the audio unmasked
+  ipcMain.handle("redaction-update-settings", async (event, patch: Partial<RedactionSettings>) => {
+    const settings = await appState.getSettingsStore().updateRedaction(patch)
+    if (settings.enabled && transcriptionStreams.size) {
+      try {
+        appState.assertTranscriptionAllowed()
+      } catch (error: any) {
+        if (!(error instanceof RedactionError)) throw error
+        for (const [streamId, sender] of [...transcriptionSenders]) {
+          if (!sender.isDestroyed()) {
+            sender.send(`transcription:${streamId}`, { type: "Error", message: error.message, closed: true })
+          }
+          await closeTranscriptionStream(streamId).catch((closeError) =>
+            console.error("[Transcription] Could not close stream:", closeError)
+          )
+        }
+      }
+    }
+    return settings
+  })
+
+  // Previews show exactly what a provider call would get
+  ipcMain.handle("redaction-preview-text", async (event, text: string) => {
+    return appState.getRedactor().redactText(text)
+  })
+
+  ipcMain.handle("redaction-preview-screenshot", async (event, path: string) => {
+    const { data, regions } = await appState.getRedactor().redactImage(path)
+    return { preview: `data:image/png;base64,${data.toString("base64")}`, regions }
+  })
+
+  ipcMain.handle("vad-get-settings", async (event, deviceId: string) => {
+    return appState.getSettingsStore().getVad(deviceId)
+  })
+
+  ipcMain.handle("vad-update-settings", async (event, deviceId: string, patch: Partial<VadSettings>) => {
+    return appState.getSettingsStore().updateVad(deviceId, patch)
+  })
+
+  ipcMain.handle("audio-system-source", async () => {
+    return getSystemAudioSource()
+  })
+
+  // CRM records
+  ipcMain.handle("crm-list", async (event, collection: CrmCollection) => {
+    return appState.getCrmStore().list(collection)
+  })
+
+  ipcMain.handle(
+    "crm-create",
+    async (event, collection: CrmCollection, input: CrmInput<CrmCollection>) => {
+      return appState.getCrmStore().create(collection, input)
+    }
+  )
+
+  ipcMain.handle(
+    "crm-update",
+    async (event, collection: CrmCollection, id: string, patch: CrmInput<CrmCollection>) => {
+      return appState.getCrmStore().update(collection, id, patch)
+    }
+  )
+
+  ipcMain.handle("crm-delete", async (event, collection: CrmCollection, id: string) => {
+    return appState.getCrmStore().delete(collection, id)
+  })
+
+  ipcMain.handle("crm-get-stages", async () => {
+    return appState.getCrmStore().getStages()
+  })
+
+  ipcMain.handle("crm-set-stages", async (event, stages: PipelineStage[]) => {
+    return appState.getCrmStore().setStages(stages)
+  })
+
+  ipcMain.handle("crm-move-deal", async (event, id: string, stageId: string) => {
+    return appState.getCrmStore().moveDeal(id, stageId)
+  })
+
+  ipcMain.handle("crm-link-session", async (event, contactId: string, sessionId: string) => {
+    return appState.getCrmStore().linkSession(contactId, sessionId)
+  })
+
+  ipcMain.handle("crm-attach-screenshot", async (event, contactId: string, path: string) => {
+    return appState.getCrmStore().attachScreenshot(contactId, path)
+  })
+
+  ipcMain.handle("crm-unlink", async (event, kind: "session" | "screenshot", ref: string) => {
+    return appState.getCrmStore().unlink(kind, ref)
+  })
+
+  ipcMain.handle("crm-session-contact", async (event, sessionId: string) => {
+    return appState.getCrmStore().getContactFor("session", sessionId)
+  })
+
+  ipcMain.handle("crm-extract-session", async (event, sessionId: string) => {
+    return appState.processingHelper.extractCrmFields(sessionId)
+  })
+
+  // Everything linked to a contact, resolved for display
+  ipcMain.handle("crm-contact-activity", async (event, contactId: string) => {
+    const links = appState.getCrmStore().getLinks(contactId)
+    const sessions = await appState.getSessionStore().listSessions()
+    const screenshots = await Promise.all(
+      links
+        .filter((link) => link.kind === "screenshot")
+        .map(async (link) => ({
+          path: link.ref,
+          linkedAt: link.linkedAt,
+          preview: await appState.getImagePreview(link.ref).catch(() => "")
+        }))
+    )
+    const sessionIds = new Set(links.filter((l) => l.kind === "session").map((l) => l.ref))
+    return {
+      sessions: sessions.filter((session) => sessionIds.has(session.id)),
+      screenshots: screenshots.filter((screenshot) => screenshot.preview)
+    }
+  })
+
   ipcMain.handle("quit-app", () => {
     app.quit()
   })
@@ -137,9 +626,4 @@ export function initializeIpcHandlers(appState: AppState): void {
   ipcMain.handle("center-and-show-window", async () => {
     appState.centerAndShowWindow()
   })
-
-  // Add this to your IPC handlers
-  ipcMain.handle('get-deepgram-api-key', async () => {
-    return process.env.DEEPGRAM_API_KEY || '318dc352c08f695131a75753cf59d05eeb50de98';
-  });
 }
@@ -1,15 +1,37 @@
 import { app, BrowserWindow, Tray, Menu, nativeImage } from "electron"
 import { initializeIpcHandlers } from "./ipcHandlers"
 import { WindowHelper } from "./WindowHelper"
-import { ScreenshotHelper } from "./ScreenshotHelper"
+import { CaptureTarget, CaptureWindow, ScreenshotHelper } from "./ScreenshotHelper"
 import { ShortcutsHelper } from "./shortcuts"
 import { ProcessingHelper } from "./ProcessingHelper"
+import { SessionStore } from "./SessionStore"
+import { CrmStore } from "./CrmStore"
+import { TaskStore } from "./TaskStore"
+import { SettingsStore } from "./SettingsStore"
+import { OcrHelper, OcrMatch } from "./OcrHelper"
+import { Redactor } from "./Redactor"
+import { registerSystemAudioCapture } from "./SystemAudioHelper"
+import { TranscriptionConfig, TranscriptionEngine } from "./TranscriptionEngine"
+import {
+  assertTranscriptionAllowed,
+  createTranscriptionEngine,
+  loadTranscriptionConfig
+} from "./TranscriptionEngineFactory"
+import { startMockDeepgramServer } from "./MockDeepgramServer"
 
 export class AppState {
   private static instance: AppState | null = null
 
   private windowHelper: WindowHelper
   private screenshotHelper: ScreenshotHelper
+  private sessionStore: SessionStore
+  private crmStore: CrmStore
+  private taskStore: TaskStore
+  private settingsStore: SettingsStore
+  private ocrHelper: OcrHelper
+  private redactor: Redactor
+  private transcriptionEngine: TranscriptionEngine | null = null
+  private transcriptionConfig: TranscriptionConfig | null = null
   public shortcutsHelper: ShortcutsHelper
   public processingHelper: ProcessingHelper
   private tray: Tray | null = null
@@ -42,15 +64,36 @@ export class AppState {
     //states for processing the debugging
     DEBUG_START: "debug-start",
     DEBUG_SUCCESS: "debug-success",
-    DEBUG_ERROR: "debug-error"
+    DEBUG_ERROR: "debug-error",
+
+    //the model kept returning JSON that failed schema validation
+    STRUCTURED_OUTPUT_ERROR: "structured-output-error"
   } as const
 
   constructor() {
     // Initialize WindowHelper with this
     this.windowHelper = new WindowHelper(this)
 
-    // Initialize ScreenshotHelper
-    this.screenshotHelper = new ScreenshotHelper(this.view)
+    // Initialize SessionStore
+    this.sessionStore = new SessionStore()
+
+    // Initialize CrmStore
+    this.crmStore = new CrmStore()
+
+    // Initialize TaskStore
+    this.taskStore = new TaskStore()
+
+    // Initialize SettingsStore
+    this.settingsStore = new SettingsStore()
+
+    // Initialize ScreenshotHelper; restores the queues saved by the last run
+    this.screenshotHelper = new ScreenshotHelper(this.view, () => this.settingsStore.get().screenshots)
+
+    // Initialize OcrHelper
+    this.ocrHelper = new OcrHelper()
+
+    // Initialize Redactor
+    this.redactor = new Redactor(() => this.settingsStore.get().redaction, this.ocrHelper)
 
     // Initialize ProcessingHelper
     this.processingHelper = new ProcessingHelper(this)
@@ -88,6 +131,62 @@ export class AppState {
     return this.screenshotHelper
   }
 
+  public getSessionStore(): SessionStore {
+    return this.sessionStore
+  }
+
+  public getCrmStore(): CrmStore {
+    return this.crmStore
+  }
+
+  public getTaskStore(): TaskStore {
+    return this.taskStore
+  }
+
+  public getSettingsStore(): SettingsStore {
+    return this.settingsStore
+  }
+
+  public getOcrHelper(): OcrHelper {
+    return this.ocrHelper
+  }
+
+  public getRedactor(): Redactor {
+    return this.redactor
+  }
+
+  // Created on first use so a bad transcription config does not keep the app from starting.
+  // Redaction is checked on every call, since it can be switched on after the engine was created.
+  public getTranscriptionEngine(): TranscriptionEngine {
+    const config = this.getTranscriptionConfig()
+    const redactionEnabled = this.redactor.isEnabled()
+    if (!this.transcriptionEngine) {
+      console.log(`[AppState] Using ${config.engine} transcription`)
+      this.transcriptionEngine = createTranscriptionEngine(config, redactionEnabled)
+    } else {
+      assertTranscriptionAllowed(config, redactionEnabled)
+    }
+    return this.transcriptionEngine
+  }
+
+  // Throws a RedactionError when the configured engine may not receive call audio right now
+  public assertTranscriptionAllowed(): void {
+    assertTranscriptionAllowed(this.getTranscriptionConfig(), this.redactor.isEnabled())
+  }
+
+  private getTranscriptionConfig(): TranscriptionConfig {
+    if (!this.transcriptionConfig) {
+      this.transcriptionConfig = loadTranscriptionConfig(app.getAppPath())
+    }
+    return this.transcriptionConfig
+  }
+
+  public disposeTranscriptionEngine(): void {
+    this.transcriptionEngine?.dispose?.()
+    this.transcriptionEngine = null
+    this.transcriptionConfig = null
+  }
+
   public getProblemInfo(): any {
     return this.problemInfo
   }
@@ -142,17 +241,55 @@ export class AppState {
   }
 
   // Screenshot management methods
-  public async takeScreenshot(): Promise<string> {
+  public async takeScreenshot(target?: CaptureTarget): Promise<string | null> {
     if (!this.getMainWindow()) throw new Error("No main window available")
 
+    // Read before the window is hidden for the capture
+    const display = this.windowHelper.getCurrentDisplay()
     const screenshotPath = await this.screenshotHelper.takeScreenshot(
       () => this.hideMainWindow(),
-      () => this.showMainWindow()
+      () => this.showMainWindow(),
+      target,
+      display
     )
 
+    // Read in the background, so the text is ready by the time it is needed
+    if (screenshotPath) {
+      this.ocrHelper.recognize(screenshotPath).catch((error) => {
+        console.error("Error reading text from screenshot:", error)
+      })
+    }
+
     return screenshotPath
   }
 
+  // Takes a screenshot and hands it to the renderer, which queues and analyzes it
+  public async captureScreenshot(target?: CaptureTarget): Promise<void> {
+    const screenshotPath = await this.takeScreenshot(target)
+    if (!screenshotPath) return
+    const preview = await this.getImagePreview(screenshotPath)
+    const mainWindow = this.getMainWindow()
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send("screenshot-taken", {
+        path: screenshotPath,
+        preview
+      })
+    }
+  }
+
+  public async listCaptureWindows(): Promise<CaptureWindow[]> {
+    const ownSources = BrowserWindow.getAllWindows().map((window) => window.getMediaSourceId())
+    return this.screenshotHelper.listWindows(ownSources)
+  }
+
+  // Searches the text of both queues
+  public async searchScreenshots(query: string): Promise<OcrMatch[]> {
+    return this.ocrHelper.search(query, [
+      ...this.getScreenshotQueue(),
+      ...this.getExtraScreenshotQueue()
+    ])
+  }
+
   public async getImagePreview(filepath: string): Promise<string> {
     return this.screenshotHelper.getImagePreview(filepath)
   }
@@ -216,20 +353,18 @@ export class AppState {
       },
       {
         label: 'Take Screenshot (Cmd+H)',
-        click: async () => {
-          try {
-            const screenshotPath = await this.takeScreenshot()
-            const preview = await this.getImagePreview(screenshotPath)
-            const mainWindow = this.getMainWindow()
-            if (mainWindow) {
-              mainWindow.webContents.send("screenshot-taken", {
-                path: screenshotPath,
-                preview
-              })
-            }
-          } catch (error) {
+        click: () => {
+          this.captureScreenshot().catch((error) => {
             console.error("Error taking screenshot from tray:", error)
-          }
+          })
+        }
+      },
+      {
+        label: 'Capture Region (Cmd+Shift+H)',
+        click: () => {
+          this.captureScreenshot({ mode: "region" }).catch((error) => {
+            console.error("Error capturing region from tray:", error)
+          })
         }
       },
       {
@@ -276,6 +411,12 @@ async function initializeApp() {
 
   app.whenReady().then(() => {
     console.log("App is ready")
+    registerSystemAudioCapture()
+    if (process.env.DEEPGRAM_MOCK === "true") {
+      startMockDeepgramServer(Number(process.env.DEEPGRAM_MOCK_PORT) || undefined).catch((error) =>
+        console.error("Could not start the mock Deepgram server:", error)
+      )
+    }
     appState.createWindow()
     appState.createTray()
     // Register global shortcuts using ShortcutsHelper
@@ -289,6 +430,12 @@ async function initializeApp() {
     }
   })
 
+  // Local engines keep background processes running
+  app.on("will-quit", () => {
+    appState.disposeTranscriptionEngine()
+    appState.getOcrHelper().dispose().catch(console.error)
+  })
+
   // Quit when all windows are closed, except on macOS
   app.on("window-all-closed", () => {
     if (process.platform !== "darwin") {
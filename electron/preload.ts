@@ -1,6 +1,206 @@
-import { contextBridge, ipcRenderer } from "electron"
+import { contextBridge, ipcRenderer, webUtils } from "electron"
+
+type LLMStreamEvent =
+  | { type: "chunk"; text: string }
+  | { type: "done"; text: string }
+  | { type: "error"; error: string }
+  | { type: "cancelled" }
+
+interface StructuredOutputErrorPayload {
+  stage: "problem" | "solution" | "debug"
+  field: string
+  reason: string
+}
+
+interface SessionEntry {
+  type: "question" | "answer" | "live" | "interviewer" | "system"
+  text: string
+  timestamp: string
+  at: number
+  source?: "transcription" | "assistant" | "user" | "system"
+  speaker?: string
+  audio?: { start: number; end: number }
+  translation?: EntryTranslation
+}
+
+interface EntryTranslation {
+  language: string
+  text: string
+}
+
+interface SessionSummary {
+  id: string
+  title: string
+  startedAt: number
+  endedAt: number | null
+  entryCount: number
+  preview: string
+}
+
+interface ImportProgress {
+  stage: "convert" | "transcribe" | "done"
+  completed: number
+  total: number
+}
+
+interface ImportResult {
+  sessionId: string
+  entryCount: number
+}
+
+interface Task {
+  id: string
+  title: string
+  owner: string
+  dueDate: string | null
+  done: boolean
+  sessionId: string | null
+  createdAt: number
+  updatedAt: number
+  completedAt: number | null
+}
+
+type TaskInput = Partial<Pick<Task, "title" | "owner" | "dueDate" | "done" | "sessionId">>
+
+interface AudioSettings {
+  systemAudio: "off" | "mixed" | "separate"
+  recordSessions: boolean
+  inputDevice: { deviceId: string; label: string } | null
+  outputDevice: { deviceId: string; label: string } | null
+}
+
+interface LanguageSettings {
+  callLanguage: string
+  repLanguage: string
+  answerIn: "rep" | "call"
+  translate: boolean
+}
+
+interface LanguageOptions {
+  call?: string
+  answer?: string
+}
+
+interface VadSettings {
+  detector: "energy" | "spectral"
+  silenceMs: number
+  minSpeechMs: number
+  calibrationMs: number
+  minThresholdRms: number
+  noiseMultiplier: number
+  minVoiceBandRatio: number
+  maxZeroCrossingRate: number
+}
+
+type SystemAudioSource =
+  | { kind: "loopback" }
+  | { kind: "monitor"; name: string | null; description: string | null }
+
+// Deepgram-shaped live transcription messages (see TranscriptionEngine.ts)
+type TranscriptionEvent = { type: string } & Record<string, any>
+
+interface TranscriptionStreamOptions {
+  language?: string
+  diarize?: boolean
+}
+
+interface CallSession {
+  id: string
+  title: string
+  startedAt: number
+  endedAt: number | null
+  language: string | null
+  entries: SessionEntry[]
+  finals: Array<{ text: string; at: number; speaker?: string }>
+  summary: Record<string, unknown> | null
+  speakerNames: Record<string, string>
+  recording: { startedAt: number; mimeType: string } | null
+}
+
+type CrmCollection = "companies" | "contacts" | "deals"
+type CrmRecord = { id: string; createdAt: number; updatedAt: number } & Record<string, unknown>
+
+interface PipelineStage {
+  id: string
+  name: string
+  probability: number
+}
+
+interface ContactActivity {
+  sessions: SessionSummary[]
+  screenshots: Array<{ path: string; preview: string; linkedAt: number }>
+}
+
+interface EmailDraft {
+  subject: string
+  opening: string
+  body: string
+  call_to_action: string
+  closing: string
+}
+
+interface EmailAccountDetails {
+  name: string
+  email: string
+  company: string
+  stage: string
+}
 
 // Types for the exposed Electron API
+type CaptureTarget =
+  | { mode: "display"; index?: number }
+  | { mode: "window"; sourceId: string }
+  | { mode: "region"; index?: number }
+
+interface CaptureWindow {
+  id: string
+  name: string
+  thumbnail: string
+}
+
+interface OcrBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface OcrLine {
+  text: string
+  confidence: number
+  box: OcrBox
+  words: Array<{ text: string; confidence: number; box: OcrBox }>
+}
+
+interface ScreenshotSettings {
+  maxQueued: number
+  maxAgeDays: number
+  maxFiles: number
+  maxTotalMb: number
+}
+
+interface RedactionSettings {
+  enabled: boolean
+  emails: boolean
+  phones: boolean
+  cards: boolean
+  nationalIds: boolean
+  patterns: string[]
+  keywords: string[]
+}
+
+type RedactionKind = "email" | "phone" | "card" | "national-id" | "pattern" | "keyword"
+
+interface RedactedText {
+  text: string
+  matches: Array<{ kind: RedactionKind; start: number; end: number; text: string }>
+}
+
+interface RedactedScreenshot {
+  preview: string
+  regions: Array<{ kind: RedactionKind; box: OcrBox }>
+}
+
 interface ElectronAPI {
   updateContentDimensions: (dimensions: {
     width: number
@@ -25,7 +225,16 @@ interface ElectronAPI {
 
   onUnauthorized: (callback: () => void) => () => void
   onDebugError: (callback: (error: string) => void) => () => void
-  takeScreenshot: () => Promise<void>
+  onStructuredOutputError: (
+    callback: (error: StructuredOutputErrorPayload) => void
+  ) => () => void
+  takeScreenshot: (target?: CaptureTarget) => Promise<void>
+  listCaptureWindows: () => Promise<CaptureWindow[]>
+  captureWindow: (sourceId: string) => Promise<void>
+  onPickCaptureWindow: (callback: () => void) => () => void
+  searchScreenshots: (query: string) => Promise<Array<{ path: string; preview: string; lines: OcrLine[] }>>
+  getScreenshotSettings: () => Promise<ScreenshotSettings>
+  updateScreenshotSettings: (patch: Partial<ScreenshotSettings>) => Promise<ScreenshotSettings>
   moveWindowLeft: () => Promise<void>
   moveWindowRight: () => Promise<void>
   moveWindowUp: () => Promise<void>
@@ -33,6 +242,116 @@ interface ElectronAPI {
   analyzeAudioFromBase64: (data: string, mimeType: string) => Promise<{ text: string; timestamp: number }>
   analyzeAudioFile: (path: string) => Promise<{ text: string; timestamp: number }>
   analyzeImageFile: (path: string) => Promise<void>
+
+  // Streaming LLM responses, chunks arrive through onLLMStream
+  streamChat: (requestId: string, message: string, languages?: LanguageOptions) => Promise<string | null>
+  streamImageAnalysis: (requestId: string, path: string) => Promise<string | null>
+  streamAudioAnalysis: (
+    requestId: string,
+    data: string,
+    mimeType: string,
+    languages?: LanguageOptions
+  ) => Promise<string | null>
+  cancelLLMStream: (requestId: string) => Promise<boolean>
+  onLLMStream: (
+    requestId: string,
+    callback: (event: LLMStreamEvent) => void
+  ) => () => void
+
+  translateText: (text: string, language: string) => Promise<string>
+
+  // Call session history
+  startSession: (title?: string, language?: string) => Promise<SessionSummary>
+  addSessionEntry: (id: string, entry: SessionEntry) => Promise<void>
+  addSessionTranslation: (id: string, entry: SessionEntry, translation: EntryTranslation) => Promise<void>
+  addSessionFinal: (
+    id: string,
+    final: { text: string; at: number; speaker?: string }
+  ) => Promise<void>
+  setSpeakerName: (id: string, label: string, name: string) => Promise<void>
+  endSession: (id: string) => Promise<void>
+  listSessions: () => Promise<SessionSummary[]>
+  getSession: (id: string) => Promise<CallSession>
+  renameSession: (id: string, title: string) => Promise<void>
+  deleteSession: (id: string) => Promise<{ success: boolean; error?: string }>
+  finishSession: (id: string) => Promise<{ summary: Record<string, unknown>; tasks: Task[] }>
+  startSessionRecording: (id: string, startedAt: number, mimeType: string) => Promise<void>
+  appendSessionAudio: (id: string, chunk: ArrayBuffer) => Promise<void>
+  getSessionAudio: (id: string) => Promise<Uint8Array<ArrayBuffer> | null>
+
+  // Recorded call import, progress arrives through onImportProgress
+  pickRecording: () => Promise<string | null>
+  getPathForFile: (file: File) => string
+  importRecording: (importId: string, filePath: string, language?: string) => Promise<ImportResult>
+  cancelImport: (importId: string) => Promise<boolean>
+  onImportProgress: (importId: string, callback: (progress: ImportProgress) => void) => () => void
+
+  // Follow-up email drafts
+  getEmailTemplates: () => Promise<Array<{ id: string; label: string }>>
+  draftFollowUpEmail: (
+    sessionId: string,
+    account: EmailAccountDetails,
+    templateId: string
+  ) => Promise<EmailDraft>
+  regenerateEmailSection: (
+    sessionId: string,
+    account: EmailAccountDetails,
+    templateId: string,
+    draft: EmailDraft,
+    section: keyof EmailDraft
+  ) => Promise<string>
+  copyEmail: (draft: EmailDraft, format: "text" | "html") => Promise<void>
+  exportEmailEml: (draft: EmailDraft, to: string) => Promise<string | null>
+
+  // Follow-up tasks
+  listTasks: () => Promise<Task[]>
+  createTask: (input: TaskInput) => Promise<Task>
+  updateTask: (id: string, patch: TaskInput) => Promise<Task>
+  deleteTask: (id: string) => Promise<{ success: boolean }>
+
+  // Audio capture
+  getAudioSettings: () => Promise<AudioSettings>
+  updateAudioSettings: (patch: Partial<AudioSettings>) => Promise<AudioSettings>
+  getSystemAudioSource: () => Promise<SystemAudioSource>
+  getVadSettings: (deviceId: string) => Promise<VadSettings>
+  updateVadSettings: (deviceId: string, patch: Partial<VadSettings>) => Promise<VadSettings>
+  getLanguageSettings: () => Promise<LanguageSettings>
+  updateLanguageSettings: (patch: Partial<LanguageSettings>) => Promise<LanguageSettings>
+
+  // Redaction of sensitive data before provider calls
+  getRedactionSettings: () => Promise<RedactionSettings>
+  updateRedactionSettings: (patch: Partial<RedactionSettings>) => Promise<RedactionSettings>
+  previewRedactedText: (text: string) => Promise<RedactedText>
+  previewRedactedScreenshot: (path: string) => Promise<RedactedScreenshot>
+
+  // Live transcription, events arrive through onTranscriptionEvent
+  openTranscription: (streamId: string, options: TranscriptionStreamOptions) => Promise<void>
+  sendTranscriptionAudio: (streamId: string, pcm: ArrayBuffer) => void
+  closeTranscription: (streamId: string) => Promise<void>
+  onTranscriptionEvent: (
+    streamId: string,
+    callback: (event: TranscriptionEvent) => void
+  ) => () => void
+
+  // CRM records
+  crmList: (collection: CrmCollection) => Promise<CrmRecord[]>
+  crmCreate: (collection: CrmCollection, input: Record<string, unknown>) => Promise<CrmRecord>
+  crmUpdate: (
+    collection: CrmCollection,
+    id: string,
+    patch: Record<string, unknown>
+  ) => Promise<CrmRecord>
+  crmDelete: (collection: CrmCollection, id: string) => Promise<{ success: boolean }>
+  crmGetStages: () => Promise<PipelineStage[]>
+  crmSetStages: (stages: PipelineStage[]) => Promise<PipelineStage[]>
+  crmMoveDeal: (id: string, stageId: string) => Promise<CrmRecord>
+  crmLinkSession: (contactId: string, sessionId: string) => Promise<void>
+  crmAttachScreenshot: (contactId: string, path: string) => Promise<string>
+  crmUnlink: (kind: "session" | "screenshot", ref: string) => Promise<void>
+  crmGetSessionContact: (sessionId: string) => Promise<string | null>
+  crmGetContactActivity: (contactId: string) => Promise<ContactActivity>
+  crmExtractSession: (sessionId: string) => Promise<Record<string, unknown>>
+
   quitApp: () => Promise<void>
   invoke: (channel: string, ...args: any[]) => Promise<any>
 }
@@ -51,14 +370,23 @@ export const PROCESSING_EVENTS = {
   //states for processing the debugging
   DEBUG_START: "debug-start",
   DEBUG_SUCCESS: "debug-success",
-  DEBUG_ERROR: "debug-error"
+  DEBUG_ERROR: "debug-error",
+
+  //the model kept returning JSON that failed schema validation
+  STRUCTURED_OUTPUT_ERROR: "structured-output-error"
 } as const
 
 // Expose the Electron API to the renderer process
 contextBridge.exposeInMainWorld("electronAPI", {
   updateContentDimensions: (dimensions: { width: number; height: number }) =>
     ipcRenderer.invoke("update-content-dimensions", dimensions),
-  takeScreenshot: () => ipcRenderer.invoke("take-screenshot"),
+  takeScreenshot: (target?: CaptureTarget) => ipcRenderer.invoke("take-screenshot", target),
+  listCaptureWindows: () => ipcRenderer.invoke("list-capture-windows"),
+  captureWindow: (sourceId: string) => ipcRenderer.invoke("capture-window", sourceId),
+  searchScreenshots: (query: string) => ipcRenderer.invoke("search-screenshots", query),
+  getScreenshotSettings: () => ipcRenderer.invoke("screenshot-get-settings"),
+  updateScreenshotSettings: (patch: Partial<ScreenshotSettings>) =>
+    ipcRenderer.invoke("screenshot-update-settings", patch),
   getScreenshots: () => ipcRenderer.invoke("get-screenshots"),
   deleteScreenshot: (path: string) =>
     ipcRenderer.invoke("delete-screenshot", path),
@@ -74,8 +402,13 @@ contextBridge.exposeInMainWorld("electronAPI", {
       ipcRenderer.removeListener("screenshot-taken", subscription)
     }
   },
-
-  getDeepgramApiKey: () => ipcRenderer.invoke('get-deepgram-api-key'),
+  onPickCaptureWindow: (callback: () => void) => {
+    const subscription = () => callback()
+    ipcRenderer.on("screenshot-pick-window", subscription)
+    return () => {
+      ipcRenderer.removeListener("screenshot-pick-window", subscription)
+    }
+  },
 
   onSolutionsReady: (callback: (solutions: string) => void) => {
     const subscription = (_: any, solutions: string) => callback(solutions)
@@ -121,6 +454,19 @@ contextBridge.exposeInMainWorld("electronAPI", {
       ipcRenderer.removeListener(PROCESSING_EVENTS.DEBUG_ERROR, subscription)
     }
   },
+  onStructuredOutputError: (
+    callback: (error: StructuredOutputErrorPayload) => void
+  ) => {
+    const subscription = (_: any, error: StructuredOutputErrorPayload) =>
+      callback(error)
+    ipcRenderer.on(PROCESSING_EVENTS.STRUCTURED_OUTPUT_ERROR, subscription)
+    return () => {
+      ipcRenderer.removeListener(
+        PROCESSING_EVENTS.STRUCTURED_OUTPUT_ERROR,
+        subscription
+      )
+    }
+  },
   onSolutionError: (callback: (error: string) => void) => {
     const subscription = (_: any, error: string) => callback(error)
     ipcRenderer.on(PROCESSING_EVENTS.INITIAL_SOLUTION_ERROR, subscription)
@@ -173,6 +519,125 @@ contextBridge.exposeInMainWorld("electronAPI", {
   analyzeAudioFromBase64: (data: string, mimeType: string) => ipcRenderer.invoke("analyze-audio-base64", data, mimeType),
   analyzeAudioFile: (path: string) => ipcRenderer.invoke("analyze-audio-file", path),
   analyzeImageFile: (path: string) => ipcRenderer.invoke("analyze-image-file", path),
+  streamChat: (requestId: string, message: string, languages?: LanguageOptions) =>
+    ipcRenderer.invoke("gemini-chat-stream", requestId, message, languages),
+  streamImageAnalysis: (requestId: string, path: string) =>
+    ipcRenderer.invoke("analyze-image-file-stream", requestId, path),
+  streamAudioAnalysis: (requestId: string, data: string, mimeType: string, languages?: LanguageOptions) =>
+    ipcRenderer.invoke("analyze-audio-base64-stream", requestId, data, mimeType, languages),
+  cancelLLMStream: (requestId: string) => ipcRenderer.invoke("cancel-llm-stream", requestId),
+  onLLMStream: (requestId: string, callback: (event: LLMStreamEvent) => void) => {
+    const channel = `llm-stream:${requestId}`
+    const subscription = (_: any, event: LLMStreamEvent) => callback(event)
+    ipcRenderer.on(channel, subscription)
+    return () => {
+      ipcRenderer.removeListener(channel, subscription)
+    }
+  },
+  translateText: (text: string, language: string) => ipcRenderer.invoke("translate-text", text, language),
+  startSession: (title?: string, language?: string) => ipcRenderer.invoke("session-start", title, language),
+  addSessionEntry: (id: string, entry: SessionEntry) =>
+    ipcRenderer.invoke("session-add-entry", id, entry),
+  addSessionTranslation: (id: string, entry: SessionEntry, translation: EntryTranslation) =>
+    ipcRenderer.invoke("session-add-translation", id, entry, translation),
+  addSessionFinal: (id: string, final: { text: string; at: number; speaker?: string }) =>
+    ipcRenderer.invoke("session-add-final", id, final),
+  setSpeakerName: (id: string, label: string, name: string) =>
+    ipcRenderer.invoke("session-set-speaker-name", id, label, name),
+  endSession: (id: string) => ipcRenderer.invoke("session-end", id),
+  listSessions: () => ipcRenderer.invoke("session-list"),
+  getSession: (id: string) => ipcRenderer.invoke("session-get", id),
+  renameSession: (id: string, title: string) =>
+    ipcRenderer.invoke("session-rename", id, title),
+  deleteSession: (id: string) => ipcRenderer.invoke("session-delete", id),
+  finishSession: (id: string) => ipcRenderer.invoke("session-finish", id),
+  startSessionRecording: (id: string, startedAt: number, mimeType: string) =>
+    ipcRenderer.invoke("session-start-recording", id, startedAt, mimeType),
+  appendSessionAudio: (id: string, chunk: ArrayBuffer) =>
+    ipcRenderer.invoke("session-append-audio", id, chunk),
+  getSessionAudio: (id: string) => ipcRenderer.invoke("session-get-audio", id),
+  pickRecording: () => ipcRenderer.invoke("import-pick-recording"),
+  // Dropped files carry no path in the renderer since Electron 32
+  getPathForFile: (file: File) => webUtils.getPathForFile(file),
+  importRecording: (importId: string, filePath: string, language?: string) =>
+    ipcRenderer.invoke("import-recording", importId, filePath, language),
+  cancelImport: (importId: string) => ipcRenderer.invoke("import-cancel", importId),
+  onImportProgress: (importId: string, callback: (progress: ImportProgress) => void) => {
+    const channel = `import-progress:${importId}`
+    const subscription = (_: any, progress: ImportProgress) => callback(progress)
+    ipcRenderer.on(channel, subscription)
+    return () => {
+      ipcRenderer.removeListener(channel, subscription)
+    }
+  },
+  getEmailTemplates: () => ipcRenderer.invoke("email-templates"),
+  draftFollowUpEmail: (sessionId: string, account: EmailAccountDetails, templateId: string) =>
+    ipcRenderer.invoke("email-draft", sessionId, account, templateId),
+  regenerateEmailSection: (
+    sessionId: string,
+    account: EmailAccountDetails,
+    templateId: string,
+    draft: EmailDraft,
+    section: keyof EmailDraft
+  ) =>
+    ipcRenderer.invoke("email-regenerate-section", sessionId, account, templateId, draft, section),
+  copyEmail: (draft: EmailDraft, format: "text" | "html") =>
+    ipcRenderer.invoke("email-copy", draft, format),
+  exportEmailEml: (draft: EmailDraft, to: string) =>
+    ipcRenderer.invoke("email-export-eml", draft, to),
+  listTasks: () => ipcRenderer.invoke("task-list"),
+  createTask: (input: TaskInput) => ipcRenderer.invoke("task-create", input),
+  updateTask: (id: string, patch: TaskInput) => ipcRenderer.invoke("task-update", id, patch),
+  deleteTask: (id: string) => ipcRenderer.invoke("task-delete", id),
+  getAudioSettings: () => ipcRenderer.invoke("audio-get-settings"),
+  updateAudioSettings: (patch: Partial<AudioSettings>) =>
+    ipcRenderer.invoke("audio-update-settings", patch),
+  getSystemAudioSource: () => ipcRenderer.invoke("audio-system-source"),
+  getVadSettings: (deviceId: string) => ipcRenderer.invoke("vad-get-settings", deviceId),
+  updateVadSettings: (deviceId: string, patch: Partial<VadSettings>) =>
+    ipcRenderer.invoke("vad-update-settings", deviceId, patch),
+  getLanguageSettings: () => ipcRenderer.invoke("language-get-settings"),
+  updateLanguageSettings: (patch: Partial<LanguageSettings>) =>
+    ipcRenderer.invoke("language-update-settings", patch),
+  getRedactionSettings: () => ipcRenderer.invoke("redaction-get-settings"),
+  updateRedactionSettings: (patch: Partial<RedactionSettings>) =>
+    ipcRenderer.invoke("redaction-update-settings", patch),
+  previewRedactedText: (text: string) => ipcRenderer.invoke("redaction-preview-text", text),
+  previewRedactedScreenshot: (path: string) => ipcRenderer.invoke("redaction-preview-screenshot", path),
+  openTranscription: (streamId: string, options: TranscriptionStreamOptions) =>
+    ipcRenderer.invoke("transcription-open", streamId, options),
+  sendTranscriptionAudio: (streamId: string, pcm: ArrayBuffer) =>
+    ipcRenderer.send("transcription-audio", streamId, pcm),
+  closeTranscription: (streamId: string) => ipcRenderer.invoke("transcription-close", streamId),
+  onTranscriptionEvent: (streamId: string, callback: (event: TranscriptionEvent) => void) => {
+    const channel = `transcription:${streamId}`
+    const subscription = (_: any, event: TranscriptionEvent) => callback(event)
+    ipcRenderer.on(channel, subscription)
+    return () => {
+      ipcRenderer.removeListener(channel, subscription)
+    }
+  },
+  crmList: (collection: CrmCollection) => ipcRenderer.invoke("crm-list", collection),
+  crmCreate: (collection: CrmCollection, input: Record<string, unknown>) =>
+    ipcRenderer.invoke("crm-create", collection, input),
+  crmUpdate: (collection: CrmCollection, id: string, patch: Record<string, unknown>) =>
+    ipcRenderer.invoke("crm-update", collection, id, patch),
+  crmDelete: (collection: CrmCollection, id: string) =>
+    ipcRenderer.invoke("crm-delete", collection, id),
+  crmGetStages: () => ipcRenderer.invoke("crm-get-stages"),
+  crmSetStages: (stages: PipelineStage[]) => ipcRenderer.invoke("crm-set-stages", stages),
+  crmMoveDeal: (id: string, stageId: string) => ipcRenderer.invoke("crm-move-deal", id, stageId),
+  crmLinkSession: (contactId: string, sessionId: string) =>
+    ipcRenderer.invoke("crm-link-session", contactId, sessionId),
+  crmAttachScreenshot: (contactId: string, path: string) =>
+    ipcRenderer.invoke("crm-attach-screenshot", contactId, path),
+  crmUnlink: (kind: "session" | "screenshot", ref: string) =>
+    ipcRenderer.invoke("crm-unlink", kind, ref),
+  crmGetSessionContact: (sessionId: string) =>
+    ipcRenderer.invoke("crm-session-contact", sessionId),
+  crmGetContactActivity: (contactId: string) =>
+    ipcRenderer.invoke("crm-contact-activity", contactId),
+  crmExtractSession: (sessionId: string) => ipcRenderer.invoke("crm-extract-session", sessionId),
   quitApp: () => ipcRenderer.invoke("quit-app"),
   invoke: (channel: string, ...args: any[]) => ipcRenderer.invoke(channel, ...args)
 } as ElectronAPI)
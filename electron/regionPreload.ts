@@ -0,0 +1,7 @@
+import { contextBridge, ipcRenderer } from "electron"
+
+// Only loaded into the region selection overlay
+contextBridge.exposeInMainWorld("regionSelector", {
+  done: (region: { x: number; y: number; width: number; height: number } | null) =>
+    ipcRenderer.send("region-selected", region)
+})
@@ -1,5 +1,8 @@
 import { globalShortcut, app } from "electron"
 import { AppState } from "./main" // Adjust the import path if necessary
+import { CaptureTarget } from "./ScreenshotHelper"
+
+const MAX_DISPLAY_SHORTCUTS = 9
 
 export class ShortcutsHelper {
   private appState: AppState
@@ -15,21 +18,30 @@ export class ShortcutsHelper {
       this.appState.centerAndShowWindow()
     })
 
-    globalShortcut.register("CommandOrControl+H", async () => {
+    globalShortcut.register("CommandOrControl+H", () => {
+      console.log("Taking screenshot...")
+      this.captureScreenshot({ mode: "display" })
+    })
+
+    // Display by number, in the order the system lists them
+    for (let number = 1; number <= MAX_DISPLAY_SHORTCUTS; number++) {
+      globalShortcut.register(`CommandOrControl+Alt+${number}`, () => {
+        console.log(`Taking screenshot of display ${number}...`)
+        this.captureScreenshot({ mode: "display", index: number - 1 })
+      })
+    }
+
+    globalShortcut.register("CommandOrControl+Shift+H", () => {
+      console.log("Selecting a screenshot region...")
+      this.captureScreenshot({ mode: "region" })
+    })
+
+    // The renderer lists the open windows; picking one captures it
+    globalShortcut.register("CommandOrControl+Alt+H", () => {
       const mainWindow = this.appState.getMainWindow()
-      if (mainWindow) {
-        console.log("Taking screenshot...")
-        try {
-          const screenshotPath = await this.appState.takeScreenshot()
-          const preview = await this.appState.getImagePreview(screenshotPath)
-          mainWindow.webContents.send("screenshot-taken", {
-            path: screenshotPath,
-            preview
-          })
-        } catch (error) {
-          console.error("Error capturing screenshot:", error)
-        }
-      }
+      if (!mainWindow || mainWindow.isDestroyed()) return
+      this.appState.showMainWindow()
+      mainWindow.webContents.send("screenshot-pick-window")
     })
 
     globalShortcut.register("CommandOrControl+Enter", async () => {
@@ -101,4 +113,12 @@ export class ShortcutsHelper {
       globalShortcut.unregisterAll()
     })
   }
+
+
+  private captureScreenshot(target: CaptureTarget): void {
+    if (!this.appState.getMainWindow()) return
+    this.appState.captureScreenshot(target).catch((error) => {
+      console.error("Error capturing screenshot:", error)
+    })
+  }
 }
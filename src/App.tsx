@@ -3,7 +3,47 @@ import Queue from "./_pages/Queue"
 import { ToastViewport } from "@radix-ui/react-toast"
 import { useEffect, useRef, useState } from "react"
 import Solutions from "./_pages/Solutions"
+import Crm from "./_pages/Crm"
+import Pipeline from "./_pages/Pipeline"
 import { QueryClient, QueryClientProvider } from "react-query"
+import { LLMStreamEvent } from "./types/stream"
+import { StructuredOutputErrorPayload } from "./types/solutions"
+import {
+  CallSession,
+  CallSummary,
+  EntryTranslation,
+  ImportProgress,
+  ImportResult,
+  SessionSummary,
+  TranscriptEntry,
+  TranscriptionFinal
+} from "./types/session"
+import { Task, TaskInput } from "./types/task"
+import { CaptureTarget, CaptureWindow, ScreenshotMatch, ScreenshotSettings } from "./types/screenshot"
+import { RedactedScreenshot, RedactedText, RedactionSettings } from "./types/redaction"
+import { AudioSettings, SystemAudioSource, VadSettings } from "./types/audio"
+import {
+  LanguageOptions,
+  LanguageSettings,
+  TranscriptionEvent,
+  TranscriptionStreamOptions
+} from "./types/transcription"
+import {
+  EmailAccountDetails,
+  EmailDraft,
+  EmailSection,
+  EmailTemplate,
+  EmailTemplateId
+} from "./types/email"
+import {
+  ContactActivity,
+  CrmExtraction,
+  CrmCollection,
+  CrmInput,
+  CrmRecords,
+  Deal,
+  PipelineStage
+} from "./types/crm"
 
 declare global {
   interface Window {
@@ -23,7 +63,13 @@ declare global {
       ) => () => void
       onProcessingNoScreenshots: (callback: () => void) => () => void
       onResetView: (callback: () => void) => () => void
-      takeScreenshot: () => Promise<void>
+      takeScreenshot: (target?: CaptureTarget) => Promise<void>
+      listCaptureWindows: () => Promise<CaptureWindow[]>
+      captureWindow: (sourceId: string) => Promise<void>
+      onPickCaptureWindow: (callback: () => void) => () => void
+      searchScreenshots: (query: string) => Promise<ScreenshotMatch[]>
+      getScreenshotSettings: () => Promise<ScreenshotSettings>
+      updateScreenshotSettings: (patch: Partial<ScreenshotSettings>) => Promise<ScreenshotSettings>
 
       //INITIAL SOLUTION EVENTS
       deleteScreenshot: (
@@ -38,11 +84,117 @@ declare global {
 
       onDebugStart: (callback: () => void) => () => void
       onDebugError: (callback: (error: string) => void) => () => void
+      onStructuredOutputError: (
+        callback: (error: StructuredOutputErrorPayload) => void
+      ) => () => void
 
       // Audio Processing
       analyzeAudioFromBase64: (data: string, mimeType: string) => Promise<{ text: string; timestamp: number }>
       analyzeAudioFile: (path: string) => Promise<{ text: string; timestamp: number }>
 
+      // Streaming LLM responses
+      streamChat: (requestId: string, message: string, languages?: LanguageOptions) => Promise<string | null>
+      streamImageAnalysis: (requestId: string, path: string) => Promise<string | null>
+      streamAudioAnalysis: (
+        requestId: string,
+        data: string,
+        mimeType: string,
+        languages?: LanguageOptions
+      ) => Promise<string | null>
+      translateText: (text: string, language: string) => Promise<string>
+      cancelLLMStream: (requestId: string) => Promise<boolean>
+      onLLMStream: (
+        requestId: string,
+        callback: (event: LLMStreamEvent) => void
+      ) => () => void
+
+      // Call session history
+      startSession: (title?: string, language?: string) => Promise<SessionSummary>
+      addSessionEntry: (id: string, entry: TranscriptEntry) => Promise<void>
+      addSessionTranslation: (id: string, entry: TranscriptEntry, translation: EntryTranslation) => Promise<void>
+      addSessionFinal: (id: string, final: TranscriptionFinal) => Promise<void>
+      setSpeakerName: (id: string, label: string, name: string) => Promise<void>
+      endSession: (id: string) => Promise<void>
+      listSessions: () => Promise<SessionSummary[]>
+      getSession: (id: string) => Promise<CallSession>
+      renameSession: (id: string, title: string) => Promise<void>
+      deleteSession: (id: string) => Promise<{ success: boolean; error?: string }>
+      finishSession: (id: string) => Promise<{ summary: CallSummary; tasks: Task[] }>
+      startSessionRecording: (id: string, startedAt: number, mimeType: string) => Promise<void>
+      appendSessionAudio: (id: string, chunk: ArrayBuffer) => Promise<void>
+      getSessionAudio: (id: string) => Promise<Uint8Array<ArrayBuffer> | null>
+
+      // Recorded call import, progress arrives through onImportProgress
+      pickRecording: () => Promise<string | null>
+      getPathForFile: (file: File) => string
+      importRecording: (importId: string, filePath: string, language?: string) => Promise<ImportResult>
+      cancelImport: (importId: string) => Promise<boolean>
+      onImportProgress: (importId: string, callback: (progress: ImportProgress) => void) => () => void
+
+      // Follow-up emails and tasks
+      getEmailTemplates: () => Promise<EmailTemplate[]>
+      draftFollowUpEmail: (
+        sessionId: string,
+        account: EmailAccountDetails,
+        templateId: EmailTemplateId
+      ) => Promise<EmailDraft>
+      regenerateEmailSection: (
+        sessionId: string,
+        account: EmailAccountDetails,
+        templateId: EmailTemplateId,
+        draft: EmailDraft,
+        section: EmailSection
+      ) => Promise<string>
+      copyEmail: (draft: EmailDraft, format: "text" | "html") => Promise<void>
+      exportEmailEml: (draft: EmailDraft, to: string) => Promise<string | null>
+      listTasks: () => Promise<Task[]>
+      createTask: (input: TaskInput) => Promise<Task>
+      updateTask: (id: string, patch: TaskInput) => Promise<Task>
+      deleteTask: (id: string) => Promise<{ success: boolean }>
+
+      // Audio capture
+      getAudioSettings: () => Promise<AudioSettings>
+      updateAudioSettings: (patch: Partial<AudioSettings>) => Promise<AudioSettings>
+      getSystemAudioSource: () => Promise<SystemAudioSource>
+      getVadSettings: (deviceId: string) => Promise<VadSettings>
+      updateVadSettings: (deviceId: string, patch: Partial<VadSettings>) => Promise<VadSettings>
+      getLanguageSettings: () => Promise<LanguageSettings>
+      updateLanguageSettings: (patch: Partial<LanguageSettings>) => Promise<LanguageSettings>
+
+      // Redaction of sensitive data before provider calls
+      getRedactionSettings: () => Promise<RedactionSettings>
+      updateRedactionSettings: (patch: Partial<RedactionSettings>) => Promise<RedactionSettings>
+      previewRedactedText: (text: string) => Promise<RedactedText>
+      previewRedactedScreenshot: (path: string) => Promise<RedactedScreenshot>
+
+      // Live transcription, events arrive through onTranscriptionEvent
+      openTranscription: (streamId: string, options: TranscriptionStreamOptions) => Promise<void>
+      sendTranscriptionAudio: (streamId: string, pcm: ArrayBuffer) => void
+      closeTranscription: (streamId: string) => Promise<void>
+      onTranscriptionEvent: (
+        streamId: string,
+        callback: (event: TranscriptionEvent) => void
+      ) => () => void
+
+      // CRM records
+      crmList: <C extends CrmCollection>(collection: C) => Promise<CrmRecords[C][]>
+      crmCreate: <C extends CrmCollection>(collection: C, input: CrmInput<C>) => Promise<CrmRecords[C]>
+      crmUpdate: <C extends CrmCollection>(
+        collection: C,
+        id: string,
+        patch: CrmInput<C>
+      ) => Promise<CrmRecords[C]>
+      crmDelete: (collection: CrmCollection, id: string) => Promise<{ success: boolean }>
+      crmGetStages: () => Promise<PipelineStage[]>
+      crmSetStages: (stages: PipelineStage[]) => Promise<PipelineStage[]>
+      crmMoveDeal: (id: string, stageId: string) => Promise<Deal>
+      crmLinkSession: (contactId: string, sessionId: string) => Promise<void>
+      crmAttachScreenshot: (contactId: string, path: string) => Promise<string>
+      crmUnlink: (kind: "session" | "screenshot", ref: string) => Promise<void>
+      crmGetSessionContact: (sessionId: string) => Promise<string | null>
+      crmGetContactActivity: (contactId: string) => Promise<ContactActivity>
+      crmExtractSession: (sessionId: string) => Promise<CrmExtraction>
+
       moveWindowLeft: () => Promise<void>
       moveWindowRight: () => Promise<void>
       moveWindowUp: () => Promise<void>
@@ -63,7 +215,9 @@ const queryClient = new QueryClient({
 })
 
 const App: React.FC = () => {
-  const [view, setView] = useState<"queue" | "solutions" | "debug">("queue")
+  const [view, setView] = useState<"queue" | "solutions" | "debug" | "crm" | "pipeline">(
+    "queue"
+  )
   const containerRef = useRef<HTMLDivElement>(null)
 
   // Effect for height monitoring
@@ -159,8 +313,16 @@ const App: React.FC = () => {
     <div ref={containerRef} className="min-h-0">
       <QueryClientProvider client={queryClient}>
         <ToastProvider>
-          {view === "queue" ? (
-            <Queue setView={setView} />
+          {/* Queue stays mounted behind the CRM views so a call in progress keeps recording */}
+          {(view === "queue" || view === "crm" || view === "pipeline") && (
+            <div className={view !== "queue" ? "hidden" : ""}>
+              <Queue setView={setView} />
+            </div>
+          )}
+          {view === "crm" ? (
+            <Crm setView={setView} />
+          ) : view === "pipeline" ? (
+            <Pipeline setView={setView} />
           ) : view === "solutions" ? (
             <Solutions setView={setView} />
           ) : (
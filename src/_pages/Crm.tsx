@@ -0,0 +1,453 @@
+import React, { useEffect, useState } from "react"
+import { useQuery, useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { FiPlus, FiTrash2, FiLink, FiImage } from "react-icons/fi"
+import { Company, Contact, CrmCollection, CrmRecords, Deal } from "../types/crm"
+
+interface CrmProps {
+  setView: React.Dispatch<
+    React.SetStateAction<"queue" | "solutions" | "debug" | "crm" | "pipeline">
+  >
+}
+
+type FieldKind =
+  | "text"
+  | "textarea"
+  | "list"
+  | "number"
+  | "date"
+  | "company"
+  | "contact"
+  | "stage"
+
+interface FieldSpec {
+  key: string
+  label: string
+  kind: FieldKind
+}
+
+const TABS: Array<{ collection: CrmCollection; label: string }> = [
+  { collection: "contacts", label: "Contacts" },
+  { collection: "companies", label: "Companies" },
+  { collection: "deals", label: "Deals" }
+]
+
+const FIELDS: { [C in CrmCollection]: FieldSpec[] } = {
+  contacts: [
+    { key: "name", label: "Name", kind: "text" },
+    { key: "title", label: "Title", kind: "text" },
+    { key: "email", label: "Email", kind: "text" },
+    { key: "phone", label: "Phone", kind: "text" },
+    { key: "companyId", label: "Company", kind: "company" },
+    { key: "notes", label: "Notes", kind: "textarea" }
+  ],
+  companies: [
+    { key: "name", label: "Name", kind: "text" },
+    { key: "domain", label: "Domain", kind: "text" },
+    { key: "industry", label: "Industry", kind: "text" },
+    { key: "notes", label: "Notes", kind: "textarea" }
+  ],
+  deals: [
+    { key: "title", label: "Title", kind: "text" },
+    { key: "companyId", label: "Company", kind: "company" },
+    { key: "contactId", label: "Contact", kind: "contact" },
+    { key: "amount", label: "Amount", kind: "number" },
+    { key: "stage", label: "Stage", kind: "stage" },
+    { key: "closeDate", label: "Close date", kind: "date" },
+    { key: "budget", label: "Budget", kind: "text" },
+    { key: "timeline", label: "Timeline", kind: "text" },
+    { key: "decisionMakers", label: "Decision makers (one per line)", kind: "list" },
+    { key: "competitors", label: "Competitors (one per line)", kind: "list" },
+    { key: "nextSteps", label: "Next steps (one per line)", kind: "list" },
+    { key: "notes", label: "Notes", kind: "textarea" }
+  ]
+}
+
+type Draft = Record<string, string | number | string[] | null>
+
+const recordLabel = (collection: CrmCollection, record: CrmRecords[CrmCollection]) =>
+  collection === "deals" ? (record as Deal).title : (record as Company | Contact).name
+
+const inputClass =
+  "w-full px-2 py-1.5 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none focus:border-blue-500/70"
+
+const Crm: React.FC<CrmProps> = ({ setView }) => {
+  const queryClient = useQueryClient()
+  const [collection, setCollection] = useState<CrmCollection>("contacts")
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<Draft | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [search, setSearch] = useState("")
+
+  const { data: records = [] } = useQuery(["crm", collection], () =>
+    window.electronAPI.crmList(collection)
+  )
+  const { data: companies = [] } = useQuery(["crm", "companies"], () =>
+    window.electronAPI.crmList("companies")
+  )
+  const { data: contacts = [] } = useQuery(["crm", "contacts"], () =>
+    window.electronAPI.crmList("contacts")
+  )
+
+  const { data: stages = [] } = useQuery(["crm-stages"], () => window.electronAPI.crmGetStages())
+
+  const contactId = collection === "contacts" ? selectedId : null
+  const { data: activity, refetch: refetchActivity } = useQuery(
+    ["crm-activity", contactId],
+    () => window.electronAPI.crmGetContactActivity(contactId as string),
+    { enabled: Boolean(contactId), staleTime: 0 }
+  )
+  const { data: sessions = [] } = useQuery(["sessions"], () => window.electronAPI.listSessions(), {
+    enabled: Boolean(contactId),
+    staleTime: 0
+  })
+  const { data: screenshots = [] } = useQuery<Array<{ path: string; preview: string }>>(
+    ["screenshots"],
+    () => window.electronAPI.getScreenshots(),
+    { enabled: Boolean(contactId) }
+  )
+
+  useEffect(() => {
+    setSelectedId(null)
+    setDraft(null)
+    setError(null)
+  }, [collection])
+
+  const openRecord = (record: CrmRecords[CrmCollection] | null) => {
+    setError(null)
+    setSelectedId(record?.id ?? null)
+    const values: Draft = {}
+    for (const field of FIELDS[collection]) {
+      const empty = field.kind === "list" ? [] : null
+      values[field.key] = record ? ((record as any)[field.key] ?? empty) : empty
+    }
+    setDraft(values)
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    try {
+      const saved = selectedId
+        ? await window.electronAPI.crmUpdate(collection, selectedId, draft)
+        : await window.electronAPI.crmCreate(collection, draft)
+      setSelectedId(saved.id)
+      setError(null)
+      queryClient.invalidateQueries(["crm"])
+    } catch (err: any) {
+      setError(err?.message ?? String(err))
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selectedId) return
+    if (!window.confirm("Delete this record? Linked records are kept but detached.")) return
+    await window.electronAPI.crmDelete(collection, selectedId)
+    setSelectedId(null)
+    setDraft(null)
+    queryClient.invalidateQueries(["crm"])
+  }
+
+  const handleLinkSession = async (sessionId: string) => {
+    if (!contactId || !sessionId) return
+    await window.electronAPI.crmLinkSession(contactId, sessionId)
+    refetchActivity()
+  }
+
+  const handleAttachScreenshot = async (path: string) => {
+    if (!contactId) return
+    await window.electronAPI.crmAttachScreenshot(contactId, path)
+    refetchActivity()
+  }
+
+  const handleUnlink = async (kind: "session" | "screenshot", ref: string) => {
+    await window.electronAPI.crmUnlink(kind, ref)
+    refetchActivity()
+  }
+
+  const setField = (key: string, value: Draft[string]) =>
+    setDraft((current) => (current ? { ...current, [key]: value } : current))
+
+  const renderField = (field: FieldSpec) => {
+    const value = draft?.[field.key] ?? ""
+    switch (field.kind) {
+      case "textarea":
+        return (
+          <textarea
+            rows={3}
+            value={String(value)}
+            onChange={(e) => setField(field.key, e.target.value)}
+            className={inputClass}
+          />
+        )
+      case "list":
+        return (
+          <textarea
+            rows={3}
+            value={Array.isArray(value) ? value.join("\n") : ""}
+            onChange={(e) => setField(field.key, e.target.value.split("\n"))}
+            onBlur={(e) =>
+              setField(
+                field.key,
+                e.target.value.split("\n").map((line) => line.trim()).filter(Boolean)
+              )
+            }
+            className={inputClass}
+          />
+        )
+      case "number":
+        return (
+          <input
+            type="number"
+            value={String(value)}
+            onChange={(e) => setField(field.key, e.target.value === "" ? null : Number(e.target.value))}
+            className={inputClass}
+          />
+        )
+      case "date":
+        return (
+          <input
+            type="date"
+            value={String(value)}
+            onChange={(e) => setField(field.key, e.target.value || null)}
+            className={inputClass}
+          />
+        )
+      case "stage":
+        return (
+          <select
+            value={String(value)}
+            onChange={(e) => setField(field.key, e.target.value)}
+            className={inputClass}
+          >
+            {!value && <option value="">First stage</option>}
+            {stages.map((stage) => (
+              <option key={stage.id} value={stage.id}>
+                {stage.name} ({stage.probability}%)
+              </option>
+            ))}
+          </select>
+        )
+      case "company":
+      case "contact": {
+        const options = field.kind === "company" ? companies : contacts
+        return (
+          <select
+            value={String(value)}
+            onChange={(e) => setField(field.key, e.target.value || null)}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {options.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        )
+      }
+      default:
+        return (
+          <input
+            type="text"
+            value={String(value)}
+            onChange={(e) => setField(field.key, e.target.value)}
+            className={inputClass}
+          />
+        )
+    }
+  }
+
+  const linkedSessionIds = new Set(activity?.sessions.map((session) => session.id))
+  const query = search.trim().toLowerCase()
+  const visible = records.filter(
+    (record) => !query || recordLabel(collection, record).toLowerCase().includes(query)
+  )
+
+  return (
+    <div className="w-full h-screen bg-gradient-to-br from-gray-900/30 via-black/30 to-gray-900/30 flex flex-col">
+      <div className="bg-black/20 backdrop-blur-2xl border-b border-gray-800/30 px-4 py-2 draggable-area">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4 no-drag">
+            {TABS.map((tab) => (
+              <button
+                key={tab.collection}
+                onClick={() => setCollection(tab.collection)}
+                className={`text-sm font-medium transition-colors ${
+                  collection === tab.collection ? "text-white" : "text-gray-500 hover:text-gray-300"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <button
+            title="Back to call"
+            onClick={() => setView("queue")}
+            className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+          >
+            <AiOutlineClose className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="w-72 border-r border-gray-800/30 bg-black/20 backdrop-blur-2xl p-3 flex flex-col gap-2">
+          <div className="flex gap-2">
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search..."
+              className={inputClass}
+            />
+            <button
+              title="New"
+              onClick={() => openRecord(null)}
+              className="px-2 bg-blue-600/60 hover:bg-blue-700/70 rounded text-white"
+            >
+              <FiPlus className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto space-y-1">
+            {visible.length === 0 ? (
+              <p className="text-xs text-gray-500 text-center py-8">Nothing here yet</p>
+            ) : (
+              visible.map((record) => (
+                <button
+                  key={record.id}
+                  onClick={() => openRecord(record)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm border transition-colors ${
+                    record.id === selectedId
+                      ? "bg-blue-600/20 border-blue-500/30 text-white"
+                      : "bg-gray-800/30 border-gray-700/30 text-gray-300 hover:border-gray-600/50"
+                  }`}
+                >
+                  <p className="truncate">{recordLabel(collection, record)}</p>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 bg-black/10 backdrop-blur-sm">
+          {!draft ? (
+            <p className="text-sm text-gray-500 text-center py-12">
+              Select a record or create a new one
+            </p>
+          ) : (
+            <div className="max-w-xl space-y-3">
+              {FIELDS[collection].map((field) => (
+                <label key={field.key} className="block">
+                  <span className="text-xs text-gray-400">{field.label}</span>
+                  {renderField(field)}
+                </label>
+              ))}
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  className="px-4 py-1.5 bg-blue-600/70 hover:bg-blue-700/80 rounded text-white text-sm"
+                >
+                  Save
+                </button>
+                {selectedId && (
+                  <button
+                    onClick={handleDelete}
+                    className="px-3 py-1.5 bg-gray-700/50 hover:bg-red-600/60 rounded text-white text-sm flex items-center gap-1"
+                  >
+                    <FiTrash2 className="w-3 h-3" /> Delete
+                  </button>
+                )}
+              </div>
+
+              {contactId && activity && (
+                <div className="pt-4 mt-4 border-t border-gray-800/50 space-y-3">
+                  <h3 className="text-white font-semibold text-sm">Call context</h3>
+
+                  <div className="flex items-center gap-2">
+                    <FiLink className="w-3 h-3 text-gray-500" />
+                    <select
+                      value=""
+                      onChange={(e) => handleLinkSession(e.target.value)}
+                      className={inputClass}
+                    >
+                      <option value="">Link a call session...</option>
+                      {sessions
+                        .filter((session) => !linkedSessionIds.has(session.id))
+                        .map((session) => (
+                          <option key={session.id} value={session.id}>
+                            {session.title}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+
+                  {activity.sessions.map((session) => (
+                    <div
+                      key={session.id}
+                      className="p-2 bg-gray-800/30 rounded-lg border border-gray-700/30 flex items-start justify-between gap-2"
+                    >
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-200 truncate">{session.title}</p>
+                        <p className="text-[10px] text-gray-500">
+                          {new Date(session.startedAt).toLocaleString()} • {session.entryCount} entries
+                        </p>
+                      </div>
+                      <button
+                        title="Unlink"
+                        onClick={() => handleUnlink("session", session.id)}
+                        className="p-1 text-gray-500 hover:text-red-400"
+                      >
+                        <AiOutlineClose className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+
+                  {screenshots.length > 0 && (
+                    <div>
+                      <p className="text-xs text-gray-400 mb-1 flex items-center gap-1">
+                        <FiImage className="w-3 h-3" /> Attach from the current queue
+                      </p>
+                      <div className="flex gap-2 flex-wrap">
+                        {screenshots.map((screenshot) => (
+                          <button
+                            key={screenshot.path}
+                            onClick={() => handleAttachScreenshot(screenshot.path)}
+                            className="w-20 h-12 rounded overflow-hidden border border-gray-700/50 hover:border-blue-500/70"
+                          >
+                            <img src={screenshot.preview} className="w-full h-full object-cover" />
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {activity.screenshots.length > 0 && (
+                    <div className="flex gap-2 flex-wrap">
+                      {activity.screenshots.map((screenshot) => (
+                        <div key={screenshot.path} className="relative w-32 h-20 group">
+                          <img
+                            src={screenshot.preview}
+                            className="w-full h-full object-cover rounded border border-gray-700/50"
+                          />
+                          <button
+                            title="Remove"
+                            onClick={() => handleUnlink("screenshot", screenshot.path)}
+                            className="absolute top-1 right-1 p-0.5 bg-black/60 rounded text-gray-300 hover:text-red-400 opacity-0 group-hover:opacity-100"
+                          >
+                            <AiOutlineClose className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default Crm
@@ -305,6 +305,14 @@ const Debug: React.FC<DebugProps> = ({ isProcessing, setIsProcessing }) => {
         )
         setIsProcessing(false)
         console.error("Processing error:", error)
+      }),
+      window.electronAPI.onStructuredOutputError((error) => {
+        showToast(
+          "Invalid AI Response",
+          `The ${error.stage} response had an invalid "${error.field}" field: ${error.reason}`,
+          "error"
+        )
+        setIsProcessing(false)
       })
     ]
 
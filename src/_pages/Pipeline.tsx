@@ -0,0 +1,161 @@
+import React, { useState } from "react"
+import { useQuery, useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { FiSettings } from "react-icons/fi"
+import StageSettings from "../components/Pipeline/StageSettings"
+import { Deal, PipelineStage } from "../types/crm"
+
+interface PipelineProps {
+  setView: React.Dispatch<
+    React.SetStateAction<"queue" | "solutions" | "debug" | "crm" | "pipeline">
+  >
+}
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 })
+
+const Pipeline: React.FC<PipelineProps> = ({ setView }) => {
+  const queryClient = useQueryClient()
+  const [showSettings, setShowSettings] = useState(false)
+  const [dragOverStage, setDragOverStage] = useState<string | null>(null)
+  const [expandedDeal, setExpandedDeal] = useState<string | null>(null)
+
+  const { data: stages = [] } = useQuery(["crm-stages"], () => window.electronAPI.crmGetStages())
+  const { data: deals = [] } = useQuery(["crm", "deals"], () =>
+    window.electronAPI.crmList("deals")
+  )
+  const { data: companies = [] } = useQuery(["crm", "companies"], () =>
+    window.electronAPI.crmList("companies")
+  )
+
+  const stageName = (id: string | null) =>
+    stages.find((stage) => stage.id === id)?.name ?? id ?? "created"
+
+  const handleDrop = async (stage: PipelineStage, dealId: string) => {
+    setDragOverStage(null)
+    const deal = deals.find((d) => d.id === dealId)
+    if (!deal || deal.stage === stage.id) return
+
+    // Move the card right away; the refetch brings in the recorded history
+    queryClient.setQueryData<Deal[]>(["crm", "deals"], (current = []) =>
+      current.map((d) => (d.id === dealId ? { ...d, stage: stage.id } : d))
+    )
+    try {
+      await window.electronAPI.crmMoveDeal(dealId, stage.id)
+    } catch (error) {
+      console.error("Error moving deal:", error)
+    } finally {
+      queryClient.invalidateQueries(["crm", "deals"])
+    }
+  }
+
+  const totalValue = deals.reduce((sum, deal) => sum + (deal.amount ?? 0), 0)
+  const weightedValue = deals.reduce((sum, deal) => {
+    const probability = stages.find((stage) => stage.id === deal.stage)?.probability ?? 0
+    return sum + ((deal.amount ?? 0) * probability) / 100
+  }, 0)
+
+  return (
+    <div className="w-full h-screen bg-gradient-to-br from-gray-900/30 via-black/30 to-gray-900/30 flex flex-col">
+      <div className="bg-black/20 backdrop-blur-2xl border-b border-gray-800/30 px-4 py-2 draggable-area">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <div className="text-gray-400/90 text-sm font-medium">Pipeline</div>
+            <div className="text-[11px] text-gray-500">
+              {deals.length} deals • {formatAmount(totalValue)} total •{" "}
+              {formatAmount(weightedValue)} weighted
+            </div>
+          </div>
+          <div className="flex items-center gap-2 no-drag">
+            <button
+              title="Pipeline stages"
+              onClick={() => setShowSettings(!showSettings)}
+              className="text-gray-400/80 hover:text-white transition-colors p-2"
+            >
+              <FiSettings className="w-4 h-4" />
+            </button>
+            <button
+              title="Back to call"
+              onClick={() => setView("queue")}
+              className="text-gray-400/80 hover:text-white transition-colors p-2"
+            >
+              <AiOutlineClose className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 flex gap-3 p-4 overflow-x-auto">
+          {stages.map((stage) => {
+            const stageDeals = deals.filter((deal) => deal.stage === stage.id)
+            const stageValue = stageDeals.reduce((sum, deal) => sum + (deal.amount ?? 0), 0)
+            return (
+              <div
+                key={stage.id}
+                onDragOver={(e) => {
+                  e.preventDefault()
+                  setDragOverStage(stage.id)
+                }}
+                onDragLeave={() => setDragOverStage(null)}
+                onDrop={(e) => handleDrop(stage, e.dataTransfer.getData("text/plain"))}
+                className={`w-60 flex-shrink-0 flex flex-col rounded-lg border transition-colors ${
+                  dragOverStage === stage.id
+                    ? "bg-blue-600/10 border-blue-500/40"
+                    : "bg-black/20 border-gray-800/40"
+                }`}
+              >
+                <div className="px-3 py-2 border-b border-gray-800/40">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm text-gray-200 font-medium truncate">{stage.name}</p>
+                    <span className="text-[10px] text-gray-500">{stage.probability}%</span>
+                  </div>
+                  <p className="text-[10px] text-gray-500">
+                    {stageDeals.length} • {formatAmount(stageValue)}
+                  </p>
+                </div>
+                <div className="flex-1 overflow-y-auto p-2 space-y-2">
+                  {stageDeals.map((deal) => (
+                    <div
+                      key={deal.id}
+                      draggable
+                      onDragStart={(e) => e.dataTransfer.setData("text/plain", deal.id)}
+                      onClick={() => setExpandedDeal(expandedDeal === deal.id ? null : deal.id)}
+                      className="p-2 bg-gray-800/40 backdrop-blur-md rounded-lg border border-gray-700/30 hover:border-gray-600/50 cursor-grab"
+                    >
+                      <p className="text-sm text-gray-200 truncate">{deal.title}</p>
+                      <p className="text-[10px] text-gray-500 truncate">
+                        {companies.find((company) => company.id === deal.companyId)?.name ?? "No company"}
+                        {deal.amount !== null && ` • ${formatAmount(deal.amount)}`}
+                        {deal.closeDate && ` • closes ${deal.closeDate}`}
+                      </p>
+                      {expandedDeal === deal.id && deal.stageHistory.length > 0 && (
+                        <div className="mt-2 pt-2 border-t border-gray-700/40 space-y-0.5">
+                          {deal.stageHistory
+                            .slice()
+                            .reverse()
+                            .map((change, index) => (
+                              <p key={index} className="text-[10px] text-gray-400">
+                                {new Date(change.at).toLocaleDateString()}:{" "}
+                                {change.from === null
+                                  ? `created in ${stageName(change.to)}`
+                                  : `${stageName(change.from)} → ${stageName(change.to)}`}
+                              </p>
+                            ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        {showSettings && <StageSettings onClose={() => setShowSettings(false)} />}
+      </div>
+    </div>
+  )
+}
+
+export default Pipeline
@@ -9,9 +9,12 @@ import {
   ToastMessage
 } from "../components/ui/toast"
 import QueueCommands from "../components/Queue/QueueCommands"
+import WindowPicker from "../components/Queue/WindowPicker"
 
 interface QueueProps {
-  setView: React.Dispatch<React.SetStateAction<"queue" | "solutions" | "debug">>
+  setView: React.Dispatch<
+    React.SetStateAction<"queue" | "solutions" | "debug" | "crm" | "pipeline">
+  >
 }
 
 const Queue: React.FC<QueueProps> = ({ setView }) => {
@@ -30,6 +33,7 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
   const [chatMessages, setChatMessages] = useState<{role: "user"|"gemini", text: string}[]>([])
   const [chatLoading, setChatLoading] = useState(false)
   const [isChatOpen, setIsChatOpen] = useState(false)
+  const [isWindowPickerOpen, setIsWindowPickerOpen] = useState(false)
   const chatInputRef = useRef<HTMLInputElement>(null)
 
   const barRef = useRef<HTMLDivElement>(null)
@@ -82,14 +86,42 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
     }
   }
 
+  // Appends a reply bubble and fills it in as chunks stream from the main process
+  const streamReply = async (start: (requestId: string) => Promise<string | null>) => {
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    let received = ""
+    let bubbleAdded = false
+    const unsubscribe = window.electronAPI.onLLMStream(requestId, (event) => {
+      if (event.type !== "chunk") return
+      received += event.text
+      const text = received
+      const isFirstChunk = !bubbleAdded
+      bubbleAdded = true
+      setChatLoading(false)
+      setChatMessages((msgs) =>
+        isFirstChunk
+          ? [...msgs, { role: "gemini", text }]
+          : [...msgs.slice(0, -1), { role: "gemini", text }]
+      )
+    })
+    try {
+      const text = await start(requestId)
+      if (!bubbleAdded && text) {
+        setChatMessages((msgs) => [...msgs, { role: "gemini", text }])
+      }
+    } finally {
+      unsubscribe()
+    }
+  }
+
   const handleChatSend = async () => {
     if (!chatInput.trim()) return
-    setChatMessages((msgs) => [...msgs, { role: "user", text: chatInput }])
+    const message = chatInput
+    setChatMessages((msgs) => [...msgs, { role: "user", text: message }])
     setChatLoading(true)
     setChatInput("")
     try {
-      const response = await window.electronAPI.invoke("gemini-chat", chatInput)
-      setChatMessages((msgs) => [...msgs, { role: "gemini", text: response }])
+      await streamReply((requestId) => window.electronAPI.streamChat(requestId, message))
     } catch (err) {
       setChatMessages((msgs) => [...msgs, { role: "gemini", text: "Error: " + String(err) }])
     } finally {
@@ -122,6 +154,7 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
     const cleanupFunctions = [
       window.electronAPI.onScreenshotTaken(() => refetch()),
       window.electronAPI.onResetView(() => refetch()),
+      window.electronAPI.onPickCaptureWindow(() => setIsWindowPickerOpen(true)),
       window.electronAPI.onSolutionError((error: string) => {
         showToast(
           "Processing Failed",
@@ -159,8 +192,7 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
         const latest = data?.path || (Array.isArray(data) && data.length > 0 && data[data.length - 1]?.path);
         if (latest) {
           // Call the LLM to process the screenshot
-          const response = await window.electronAPI.invoke("analyze-image-file", latest);
-          setChatMessages((msgs) => [...msgs, { role: "gemini", text: response.text }]);
+          await streamReply((requestId) => window.electronAPI.streamImageAnalysis(requestId, latest));
         }
       } catch (err) {
         setChatMessages((msgs) => [...msgs, { role: "gemini", text: "Error: " + String(err) }]);
@@ -209,8 +241,10 @@ const Queue: React.FC<QueueProps> = ({ setView }) => {
               screenshots={screenshots}
               onTooltipVisibilityChange={handleTooltipVisibilityChange}
               onChatToggle={handleChatToggle}
+              onOpenView={setView}
             />
           </div>
+          {isWindowPickerOpen && <WindowPicker onClose={() => setIsWindowPickerOpen(false)} />}
           {/* Conditional Chat Interface */}
           {isChatOpen && (
             <div className="mt-4 w-full mx-auto liquid-glass chat-container p-4 flex flex-col">
@@ -15,6 +15,7 @@ import {
 import { ProblemStatementData } from "../types/solutions"
 import { AudioResult } from "../types/audio"
 import SolutionCommands from "../components/Solutions/SolutionCommands"
+import WindowPicker from "../components/Queue/WindowPicker"
 import Debug from "./Debug"
 
 // (Using global ElectronAPI type from src/types/electron.d.ts)
@@ -125,7 +126,9 @@ export const ComplexitySection = ({
 )
 
 interface SolutionsProps {
-  setView: React.Dispatch<React.SetStateAction<"queue" | "solutions" | "debug">>
+  setView: React.Dispatch<
+    React.SetStateAction<"queue" | "solutions" | "debug" | "crm" | "pipeline">
+  >
 }
 const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
   const queryClient = useQueryClient()
@@ -159,6 +162,7 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
   const [tooltipHeight, setTooltipHeight] = useState(0)
 
   const [isResetting, setIsResetting] = useState(false)
+  const [isWindowPickerOpen, setIsWindowPickerOpen] = useState(false)
 
   const { data: extraScreenshots = [], refetch } = useQuery<Array<{ path: string; preview: string }>, Error>(
     ["extras"],
@@ -230,6 +234,7 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
     // Set up event listeners
     const cleanupFunctions = [
       window.electronAPI.onScreenshotTaken(() => refetch()),
+      window.electronAPI.onPickCaptureWindow(() => setIsWindowPickerOpen(true)),
       window.electronAPI.onResetView(() => {
         // Set resetting state first
         setIsResetting(true)
@@ -366,6 +371,14 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
         )
         setDebugProcessing(false)
       }),
+      window.electronAPI.onStructuredOutputError((error) => {
+        showToast(
+          "Invalid AI Response",
+          `The ${error.stage} response had an invalid "${error.field}" field: ${error.reason}`,
+          "error"
+        )
+        setDebugProcessing(false)
+      }),
       window.electronAPI.onProcessingNoScreenshots(() => {
         showToast(
           "No Screenshots",
@@ -484,6 +497,7 @@ const Solutions: React.FC<SolutionsProps> = ({ setView }) => {
             extraScreenshots={extraScreenshots}
             onTooltipVisibilityChange={handleTooltipVisibilityChange}
           />
+          {isWindowPickerOpen && <WindowPicker onClose={() => setIsWindowPickerOpen(false)} />}
 
           {/* Main Content - Modified width constraints */}
           <div className="w-full text-sm text-black bg-black/60 rounded-md">
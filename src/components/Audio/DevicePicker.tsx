@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from "react"
+import { useQuery, useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { AudioDeviceChoice, AudioSettings } from "../../types/audio"
+import { AudioDevices, deviceChoice, listAudioDevices, resolveDevice } from "../../lib/audioDevices"
+
+interface DevicePickerProps {
+  onClose: () => void
+}
+
+const DEFAULT_OPTION = ""
+
+const selectClass =
+  "mt-1 w-full px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none"
+
+const DevicePicker: React.FC<DevicePickerProps> = ({ onClose }) => {
+  const queryClient = useQueryClient()
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] })
+  const [error, setError] = useState<string | null>(null)
+  const { data: settings } = useQuery(["audio-settings"], () => window.electronAPI.getAudioSettings())
+
+  // Kept current while the panel is open, so plugging in a headset shows up right away
+  useEffect(() => {
+    const refresh = () =>
+      listAudioDevices()
+        .then(setDevices)
+        .catch(err => console.error("[Devices] Could not list audio devices:", err))
+    refresh()
+    navigator.mediaDevices.addEventListener("devicechange", refresh)
+    return () => navigator.mediaDevices.removeEventListener("devicechange", refresh)
+  }, [])
+
+  const save = async (patch: Partial<AudioSettings>) => {
+    try {
+      const saved = await window.electronAPI.updateAudioSettings(patch)
+      queryClient.setQueryData(["audio-settings"], saved)
+      setError(null)
+    } catch (err: any) {
+      setError(err?.message ?? String(err))
+    }
+  }
+
+  const renderSelect = (
+    label: string,
+    list: MediaDeviceInfo[],
+    choice: AudioDeviceChoice | null,
+    onChange: (choice: AudioDeviceChoice | null) => void
+  ) => {
+    // "default" and "communications" are aliases the system default option already covers
+    const real = list.filter(device => device.deviceId !== "default" && device.deviceId !== "communications")
+    const selected = resolveDevice(real, choice)
+    return (
+      <label className="block text-xs text-gray-400">
+        {label}
+        <select
+          value={selected?.deviceId ?? choice?.deviceId ?? DEFAULT_OPTION}
+          onChange={(e) => {
+            const device = real.find(item => item.deviceId === e.target.value)
+            onChange(device ? deviceChoice(device) : null)
+          }}
+          className={selectClass}
+        >
+          <option value={DEFAULT_OPTION}>System default</option>
+          {choice && !selected && (
+            <option value={choice.deviceId}>{choice.label || "Saved device"} (not connected)</option>
+          )}
+          {real.map(device => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `Device ${device.deviceId.slice(0, 6)}`}
+            </option>
+          ))}
+        </select>
+      </label>
+    )
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Audio Devices</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      {settings && (
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {renderSelect("Microphone", devices.inputs, settings.inputDevice, inputDevice => save({ inputDevice }))}
+          {renderSelect("Playback", devices.outputs, settings.outputDevice, outputDevice => save({ outputDevice }))}
+          <p className="text-[10px] text-gray-500">
+            A running call switches to the new microphone right away. When a device is unplugged,
+            recording continues on the system default and returns once it is back.
+          </p>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DevicePicker
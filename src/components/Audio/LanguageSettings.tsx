@@ -0,0 +1,100 @@
+import React, { useState } from "react"
+import { useQuery, useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { AnswerLanguage, LanguageSettings as LanguageTunables } from "../../types/transcription"
+import { AUTO_LANGUAGE, LANGUAGES, languageLabel } from "../../lib/languages"
+
+interface LanguageSettingsProps {
+  onClose: () => void
+}
+
+const selectClass =
+  "mt-1 w-full px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none"
+
+const LanguageSettings: React.FC<LanguageSettingsProps> = ({ onClose }) => {
+  const queryClient = useQueryClient()
+  const [error, setError] = useState<string | null>(null)
+  const { data: settings } = useQuery(["language-settings"], () => window.electronAPI.getLanguageSettings())
+
+  // Changes apply from the next recording on
+  const update = async (patch: Partial<LanguageTunables>) => {
+    try {
+      const saved = await window.electronAPI.updateLanguageSettings(patch)
+      queryClient.setQueryData(["language-settings"], saved)
+      setError(null)
+    } catch (err: any) {
+      setError(err?.message ?? String(err))
+    }
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Languages</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      {settings && (
+        <div className="flex-1 overflow-y-auto space-y-3">
+          <label className="block text-xs text-gray-400">
+            Calls are held in
+            <select
+              value={settings.callLanguage}
+              onChange={(e) => update({ callLanguage: e.target.value })}
+              className={selectClass}
+            >
+              {[AUTO_LANGUAGE, ...LANGUAGES].map(code => (
+                <option key={code} value={code}>{languageLabel(code)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-xs text-gray-400">
+            My language
+            <select
+              value={settings.repLanguage}
+              onChange={(e) => update({ repLanguage: e.target.value })}
+              className={selectClass}
+            >
+              {LANGUAGES.map(code => (
+                <option key={code} value={code}>{languageLabel(code)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block text-xs text-gray-400">
+            Suggestions in
+            <select
+              value={settings.answerIn}
+              onChange={(e) => update({ answerIn: e.target.value as AnswerLanguage })}
+              className={selectClass}
+            >
+              <option value="rep">My language ({languageLabel(settings.repLanguage)})</option>
+              <option value="call">The language of the call</option>
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.translate}
+              onChange={(e) => update({ translate: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Translate what the other party says into my language
+          </label>
+
+          <p className="text-[10px] text-gray-500">
+            Other languages than English need a multilingual model for local transcription
+            (WHISPER_MULTILINGUAL_MODEL). Changes apply from the next recording on.
+          </p>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default LanguageSettings
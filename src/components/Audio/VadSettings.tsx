@@ -0,0 +1,246 @@
+import React, { useEffect, useRef, useState } from "react"
+import { useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { VadDetectorName, VadSettings as VadTunables } from "../../types/audio"
+import { DEFAULT_VAD_DEVICE, VAD_DETECTORS, VadDecision, VadMonitor, VadSegment, vadDeviceKey } from "../../lib/vad"
+
+interface VadSettingsProps {
+  onClose: () => void
+}
+
+const HISTORY_FRAMES = 360 // about six seconds of animation frames
+const MIN_DB = -90
+const MAX_DB = -20
+
+const NUMBER_FIELDS: Array<{ key: keyof VadTunables; label: string; step: number; spectral?: boolean }> = [
+  { key: "silenceMs", label: "Silence before sending (ms)", step: 100 },
+  { key: "minSpeechMs", label: "Shortest speech (ms)", step: 20 },
+  { key: "calibrationMs", label: "Noise calibration (ms)", step: 100 },
+  { key: "minThresholdRms", label: "Minimum threshold (RMS)", step: 0.001 },
+  { key: "noiseMultiplier", label: "Threshold × noise floor", step: 0.1 },
+  { key: "minVoiceBandRatio", label: "Voice band share (0-1)", step: 0.05, spectral: true },
+  { key: "maxZeroCrossingRate", label: "Max zero-crossing rate (0-1)", step: 0.01, spectral: true }
+]
+
+const toDb = (rms: number) => 20 * Math.log10(rms + 1e-8)
+
+// Level (green while speech is detected) against the threshold (red), newest on the right
+function drawGraph(canvas: HTMLCanvasElement, history: VadDecision[]) {
+  const context = canvas.getContext("2d")
+  if (!context) return
+  const { width, height } = canvas
+  const y = (rms: number) => {
+    const t = (toDb(rms) - MIN_DB) / (MAX_DB - MIN_DB)
+    return height - Math.min(1, Math.max(0, t)) * height
+  }
+  const x = (index: number) => width - (history.length - index) * (width / HISTORY_FRAMES)
+
+  context.clearRect(0, 0, width, height)
+  history.forEach((decision, index) => {
+    if (!decision.speech) return
+    context.fillStyle = "rgba(34, 197, 94, 0.12)"
+    context.fillRect(x(index), 0, width / HISTORY_FRAMES + 1, height)
+  })
+
+  const line = (value: (decision: VadDecision) => number, color: string) => {
+    context.strokeStyle = color
+    context.lineWidth = 1.5
+    context.beginPath()
+    history.forEach((decision, index) => {
+      if (index === 0) context.moveTo(x(index), y(value(decision)))
+      else context.lineTo(x(index), y(value(decision)))
+    })
+    context.stroke()
+  }
+  line(decision => decision.level, "rgb(74, 222, 128)")
+  line(decision => decision.threshold, "rgb(248, 113, 113)")
+}
+
+const VadSettings: React.FC<VadSettingsProps> = ({ onClose }) => {
+  const queryClient = useQueryClient()
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([])
+  const [selectedDevice, setSelectedDevice] = useState(DEFAULT_VAD_DEVICE)
+  // Key the tunables are stored under, known once the preview is capturing
+  const [deviceKey, setDeviceKey] = useState<string | null>(null)
+  const [draft, setDraft] = useState<VadTunables | null>(null)
+  const [segments, setSegments] = useState<VadSegment[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const monitorRef = useRef<VadMonitor | null>(null)
+
+  useEffect(() => {
+    navigator.mediaDevices
+      .enumerateDevices()
+      .then(all => setDevices(all.filter(device => device.kind === "audioinput")))
+      .catch(err => console.error("[VAD] Could not list input devices:", err))
+  }, [])
+
+  // Previews the selected input with its stored tunables while the panel is open
+  useEffect(() => {
+    let cancelled = false
+    let stream: MediaStream | null = null
+    let context: AudioContext | null = null
+    const history: VadDecision[] = []
+
+    const start = async () => {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          deviceId: { exact: selectedDevice },
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true
+        }
+      })
+      const key = vadDeviceKey(stream)
+      const settings = await queryClient.fetchQuery(["vad-settings", key], () =>
+        window.electronAPI.getVadSettings(key)
+      )
+      if (cancelled) return
+
+      context = new AudioContext()
+      const analyser = context.createAnalyser()
+      context.createMediaStreamSource(stream).connect(analyser)
+      const monitor = new VadMonitor(analyser, settings, {
+        onFrame: decision => {
+          history.push(decision)
+          if (history.length > HISTORY_FRAMES) history.shift()
+          if (canvasRef.current) drawGraph(canvasRef.current, history)
+        },
+        onSegment: segment => setSegments(current => [...current.slice(-4), segment])
+      })
+      monitor.start()
+      monitorRef.current = monitor
+      setDeviceKey(key)
+      setDraft(settings)
+      setSegments([])
+      setError(null)
+    }
+
+    start().catch(err => {
+      console.error("[VAD] Could not open preview:", err)
+      setError(`Could not open the microphone: ${err.message}`)
+    })
+
+    return () => {
+      cancelled = true
+      monitorRef.current?.stop()
+      monitorRef.current = null
+      stream?.getTracks().forEach(track => track.stop())
+      context?.close()
+    }
+  }, [selectedDevice, queryClient])
+
+  const updateDraft = (patch: Partial<VadTunables>) => {
+    if (!draft) return
+    const next = { ...draft, ...patch }
+    setDraft(next)
+    monitorRef.current?.update(next)
+  }
+
+  const handleSave = async () => {
+    if (!draft || !deviceKey) return
+    setSaving(true)
+    try {
+      const saved = await window.electronAPI.updateVadSettings(deviceKey, draft)
+      queryClient.setQueryData(["vad-settings", deviceKey], saved)
+      setError(null)
+    } catch (err: any) {
+      setError(err?.message ?? String(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Voice Detection</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3">
+        <select
+          value={selectedDevice}
+          onChange={(e) => setSelectedDevice(e.target.value)}
+          className="w-full px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none"
+        >
+          {devices.length === 0 && <option value={DEFAULT_VAD_DEVICE}>Default microphone</option>}
+          {devices.map(device => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || "Microphone"}
+            </option>
+          ))}
+        </select>
+
+        <div>
+          <canvas ref={canvasRef} width={352} height={96} className="w-full h-24 rounded bg-gray-900/60" />
+          <div className="flex justify-between text-[10px] text-gray-500 mt-1">
+            <span className="text-green-400/80">Level</span>
+            <span className="text-red-400/80">Threshold</span>
+          </div>
+        </div>
+
+        {segments.length > 0 && (
+          <div className="space-y-0.5">
+            <p className="text-[10px] text-gray-500">Detected speech</p>
+            {segments.map(segment => (
+              <p key={segment.start} className="text-xs text-gray-300">
+                {(segment.start / 1000).toFixed(2)}s – {(segment.end / 1000).toFixed(2)}s
+              </p>
+            ))}
+          </div>
+        )}
+
+        {draft && (
+          <div className="space-y-2">
+            <label className="block text-xs text-gray-400">
+              Detector
+              <select
+                value={draft.detector}
+                onChange={(e) => updateDraft({ detector: e.target.value as VadDetectorName })}
+                className="mt-1 w-full px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none"
+              >
+                {(Object.keys(VAD_DETECTORS) as VadDetectorName[]).map(name => (
+                  <option key={name} value={name}>{VAD_DETECTORS[name].label}</option>
+                ))}
+              </select>
+            </label>
+            {NUMBER_FIELDS.filter(field => !field.spectral || draft.detector === "spectral").map(field => (
+              <label key={field.key} className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                {field.label}
+                <input
+                  type="number"
+                  min={0}
+                  step={field.step}
+                  value={draft[field.key] as number}
+                  onChange={(e) => updateDraft({ [field.key]: Number(e.target.value) })}
+                  className="w-24 px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none focus:border-blue-500/70"
+                />
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="pt-3 border-t border-gray-800/50 space-y-2">
+        <p className="text-[10px] text-gray-500">
+          Changes are previewed live and apply to this microphone once saved.
+        </p>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <button
+          onClick={handleSave}
+          disabled={saving || !draft}
+          className="w-full px-3 py-1.5 bg-blue-600/60 hover:bg-blue-700/70 rounded text-white text-sm disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default VadSettings
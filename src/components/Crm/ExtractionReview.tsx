@@ -0,0 +1,307 @@
+import React, { useMemo, useState } from "react"
+import { useQuery, useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { Contact, CrmExtraction, Deal } from "../../types/crm"
+
+interface ExtractionReviewProps {
+  sessionId: string
+  onClose: () => void
+}
+
+type ListField = "decisionMakers" | "competitors" | "nextSteps"
+
+// What a reviewed row writes when it is applied
+type RowTarget =
+  | { kind: "company"; name: string }
+  | { kind: "deal"; field: "budget" | "timeline"; value: string }
+  | { kind: "deal-list"; field: ListField; value: string[] }
+  | { kind: "new-contact"; contact: CrmExtraction["contacts"][number] }
+  | { kind: "contact"; contactId: string; field: "title" | "email"; value: string }
+
+interface DiffRow {
+  key: string
+  label: string
+  current: string
+  proposed: string
+  target: RowTarget
+}
+
+const NEW_DEAL = "__new__"
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+// Keeps existing items and appends extracted ones that are not already there
+const mergeList = (current: string[], extracted: string[]) => [
+  ...current,
+  ...extracted.filter(
+    (item, index) =>
+      !current.some((existing) => sameText(existing, item)) &&
+      extracted.findIndex((other) => sameText(other, item)) === index
+  )
+]
+
+const buildRows = (
+  extraction: CrmExtraction,
+  deal: Deal | null,
+  companyName: string,
+  contacts: Contact[]
+): DiffRow[] => {
+  const rows: DiffRow[] = []
+
+  if (extraction.company && !sameText(extraction.company, companyName)) {
+    rows.push({
+      key: "company",
+      label: "Company",
+      current: companyName,
+      proposed: extraction.company,
+      target: { kind: "company", name: extraction.company }
+    })
+  }
+
+  for (const [field, label] of [
+    ["budget", "Budget"],
+    ["timeline", "Timeline"]
+  ] as const) {
+    const proposed = extraction[field]
+    const current = deal?.[field] ?? ""
+    if (proposed && !sameText(proposed, current)) {
+      rows.push({ key: field, label, current, proposed, target: { kind: "deal", field, value: proposed } })
+    }
+  }
+
+  for (const [field, source, label] of [
+    ["decisionMakers", "decision_makers", "Decision makers"],
+    ["competitors", "competitors", "Competitors"],
+    ["nextSteps", "next_steps", "Next steps"]
+  ] as const) {
+    const current = deal?.[field] ?? []
+    const merged = mergeList(current, extraction[source])
+    if (merged.length > current.length) {
+      rows.push({
+        key: field,
+        label,
+        current: current.join(", "),
+        proposed: merged.join(", "),
+        target: { kind: "deal-list", field, value: merged }
+      })
+    }
+  }
+
+  extraction.contacts.forEach((extracted, index) => {
+    const existing = contacts.find((contact) => sameText(contact.name, extracted.name))
+    if (!existing) {
+      rows.push({
+        key: `new-contact-${index}`,
+        label: "New contact",
+        current: "",
+        proposed: [extracted.name, extracted.title, extracted.email].filter(Boolean).join(" • "),
+        target: { kind: "new-contact", contact: extracted }
+      })
+      return
+    }
+    for (const field of ["title", "email"] as const) {
+      const value = extracted[field]
+      if (value && !sameText(value, existing[field])) {
+        rows.push({
+          key: `contact-${existing.id}-${field}`,
+          label: `${existing.name} · ${field}`,
+          current: existing[field],
+          proposed: value,
+          target: { kind: "contact", contactId: existing.id, field, value }
+        })
+      }
+    }
+  })
+
+  return rows
+}
+
+const ExtractionReview: React.FC<ExtractionReviewProps> = ({ sessionId, onClose }) => {
+  const queryClient = useQueryClient()
+  // undefined until the rep picks a deal; null means "create a new one"
+  const [dealChoice, setDealChoice] = useState<string | null | undefined>(undefined)
+  const [rejected, setRejected] = useState<Set<string>>(new Set())
+  const [applying, setApplying] = useState(false)
+  const [applyError, setApplyError] = useState<string | null>(null)
+
+  const {
+    data: extraction,
+    error,
+    isLoading,
+    refetch
+  } = useQuery<CrmExtraction, Error>(
+    ["crm-extraction", sessionId],
+    () => window.electronAPI.crmExtractSession(sessionId),
+    { retry: false }
+  )
+  const { data: deals = [] } = useQuery(["crm", "deals"], () => window.electronAPI.crmList("deals"))
+  const { data: companies = [] } = useQuery(["crm", "companies"], () =>
+    window.electronAPI.crmList("companies")
+  )
+  const { data: contacts = [] } = useQuery(["crm", "contacts"], () =>
+    window.electronAPI.crmList("contacts")
+  )
+  const { data: sessionContactId = null } = useQuery(["crm-session-contact", sessionId], () =>
+    window.electronAPI.crmGetSessionContact(sessionId)
+  )
+
+  // Default to the deal of the contact this call is linked to
+  const linkedDeal = deals.find((d) => sessionContactId && d.contactId === sessionContactId)
+  const dealId = dealChoice === undefined ? linkedDeal?.id ?? null : dealChoice
+  const deal = deals.find((d) => d.id === dealId) ?? null
+  const companyName = companies.find((company) => company.id === deal?.companyId)?.name ?? ""
+  const rows = useMemo(
+    () => (extraction ? buildRows(extraction, deal, companyName, contacts) : []),
+    [extraction, deal, companyName, contacts]
+  )
+
+  const toggleRow = (key: string) =>
+    setRejected((current) => {
+      const next = new Set(current)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+
+  const handleApply = async () => {
+    const accepted = rows.filter((row) => !rejected.has(row.key)).map((row) => row.target)
+    setApplying(true)
+    setApplyError(null)
+    try {
+      let companyId = deal?.companyId ?? null
+      for (const target of accepted) {
+        if (target.kind !== "company") continue
+        const existing = companies.find((company) => sameText(company.name, target.name))
+        companyId = existing
+          ? existing.id
+          : (await window.electronAPI.crmCreate("companies", { name: target.name })).id
+      }
+
+      const patch: Partial<Deal> = { companyId }
+      for (const target of accepted) {
+        if (target.kind === "deal" || target.kind === "deal-list") {
+          Object.assign(patch, { [target.field]: target.value })
+        }
+      }
+
+      const createdContactIds: string[] = []
+      for (const target of accepted) {
+        if (target.kind === "new-contact") {
+          const created = await window.electronAPI.crmCreate("contacts", { ...target.contact, companyId })
+          createdContactIds.push(created.id)
+        } else if (target.kind === "contact") {
+          await window.electronAPI.crmUpdate("contacts", target.contactId, {
+            [target.field]: target.value
+          })
+        }
+      }
+
+      const contactId = sessionContactId ?? createdContactIds[0] ?? null
+      if (deal) {
+        await window.electronAPI.crmUpdate("deals", deal.id, patch)
+      } else {
+        const company = companies.find((c) => c.id === companyId)
+        const title = `${company?.name ?? extraction?.company ?? "New"} deal`
+        await window.electronAPI.crmCreate("deals", { ...patch, title, contactId })
+      }
+      // Keep the call with the account it was about
+      if (!sessionContactId && contactId) {
+        await window.electronAPI.crmLinkSession(contactId, sessionId)
+      }
+
+      queryClient.invalidateQueries(["crm"])
+      onClose()
+    } catch (err: any) {
+      setApplyError(err?.message ?? String(err))
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Review CRM Updates</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500 text-center py-8 animate-pulse">
+          Extracting account details from the call...
+        </p>
+      ) : error ? (
+        <div className="text-center py-8 space-y-2">
+          <p className="text-xs text-red-400">{error.message}</p>
+          <button onClick={() => refetch()} className="text-xs text-gray-400 hover:text-white">
+            Try again
+          </button>
+        </div>
+      ) : (
+        <>
+          <label className="block mb-3">
+            <span className="text-xs text-gray-400">Apply to deal</span>
+            <select
+              value={dealId ?? NEW_DEAL}
+              onChange={(e) => setDealChoice(e.target.value === NEW_DEAL ? null : e.target.value)}
+              className="w-full px-2 py-1.5 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none focus:border-blue-500/70"
+            >
+              <option value={NEW_DEAL}>New deal</option>
+              {deals.map((d) => (
+                <option key={d.id} value={d.id}>
+                  {d.title}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {rows.length === 0 ? (
+              <p className="text-xs text-gray-500 text-center py-8">
+                Nothing new in this call for the selected deal
+              </p>
+            ) : (
+              rows.map((row) => (
+                <label
+                  key={row.key}
+                  className={`block p-2 rounded-lg border cursor-pointer ${
+                    rejected.has(row.key)
+                      ? "bg-gray-900/30 border-gray-800/40 opacity-60"
+                      : "bg-gray-800/30 border-gray-700/30"
+                  }`}
+                >
+                  <div className="flex items-center gap-2 mb-1">
+                    <input
+                      type="checkbox"
+                      checked={!rejected.has(row.key)}
+                      onChange={() => toggleRow(row.key)}
+                    />
+                    <span className="text-xs text-gray-300 font-medium">{row.label}</span>
+                  </div>
+                  {row.current && (
+                    <p className="text-[11px] text-red-300/80 line-through break-words">{row.current}</p>
+                  )}
+                  <p className="text-[11px] text-green-300 break-words">{row.proposed}</p>
+                </label>
+              ))
+            )}
+          </div>
+
+          <div className="pt-3 border-t border-gray-800/50 space-y-2">
+            {applyError && <p className="text-xs text-red-400">{applyError}</p>}
+            <button
+              onClick={handleApply}
+              disabled={applying || rows.every((row) => rejected.has(row.key))}
+              className="w-full px-3 py-1.5 bg-blue-600/60 hover:bg-blue-700/70 rounded text-white text-sm disabled:opacity-50"
+            >
+              {applying ? "Applying..." : "Apply selected"}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ExtractionReview
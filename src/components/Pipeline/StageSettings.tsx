@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from "react"
+import { useQuery, useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { FiArrowDown, FiArrowUp, FiPlus, FiTrash2 } from "react-icons/fi"
+import { PipelineStage } from "../../types/crm"
+
+interface StageSettingsProps {
+  onClose: () => void
+}
+
+const StageSettings: React.FC<StageSettingsProps> = ({ onClose }) => {
+  const queryClient = useQueryClient()
+  const [stages, setStages] = useState<PipelineStage[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const { data: savedStages } = useQuery(["crm-stages"], () => window.electronAPI.crmGetStages())
+
+  useEffect(() => {
+    if (savedStages) setStages(savedStages)
+  }, [savedStages])
+
+  const updateStage = (index: number, patch: Partial<PipelineStage>) =>
+    setStages((current) => current.map((stage, i) => (i === index ? { ...stage, ...patch } : stage)))
+
+  const moveStage = (index: number, offset: number) =>
+    setStages((current) => {
+      const target = index + offset
+      if (target < 0 || target >= current.length) return current
+      const next = [...current]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const saved = await window.electronAPI.crmSetStages(stages)
+      queryClient.setQueryData(["crm-stages"], saved)
+      // Deals in removed stages were moved by the main process
+      queryClient.invalidateQueries(["crm", "deals"])
+      setError(null)
+    } catch (err: any) {
+      setError(err?.message ?? String(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Pipeline Stages</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2">
+        <div className="flex text-[10px] text-gray-500 px-1 gap-2">
+          <span className="flex-1">Stage</span>
+          <span className="w-16">Win %</span>
+          <span className="w-16" />
+        </div>
+        {stages.map((stage, index) => (
+          <div key={stage.id} className="flex items-center gap-2">
+            <input
+              value={stage.name}
+              onChange={(e) => updateStage(index, { name: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none focus:border-blue-500/70"
+            />
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={stage.probability}
+              onChange={(e) => updateStage(index, { probability: Number(e.target.value) })}
+              className="w-16 px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none focus:border-blue-500/70"
+            />
+            <div className="w-16 flex items-center">
+              <button
+                title="Move up"
+                onClick={() => moveStage(index, -1)}
+                className="p-1 text-gray-500 hover:text-white"
+              >
+                <FiArrowUp className="w-3 h-3" />
+              </button>
+              <button
+                title="Move down"
+                onClick={() => moveStage(index, 1)}
+                className="p-1 text-gray-500 hover:text-white"
+              >
+                <FiArrowDown className="w-3 h-3" />
+              </button>
+              <button
+                title="Remove"
+                onClick={() => setStages((current) => current.filter((_, i) => i !== index))}
+                className="p-1 text-gray-500 hover:text-red-400"
+              >
+                <FiTrash2 className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={() =>
+            setStages((current) => [
+              ...current,
+              { id: crypto.randomUUID(), name: "New stage", probability: 50 }
+            ])
+          }
+          className="flex items-center gap-1 text-xs text-gray-400 hover:text-white px-1 py-1"
+        >
+          <FiPlus className="w-3 h-3" /> Add stage
+        </button>
+      </div>
+
+      <div className="pt-3 border-t border-gray-800/50 space-y-2">
+        <p className="text-[10px] text-gray-500">
+          Deals in a removed stage move to the first stage when you save.
+        </p>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="w-full px-3 py-1.5 bg-blue-600/60 hover:bg-blue-700/70 rounded text-white text-sm disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save stages"}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default StageSettings
@@ -0,0 +1,233 @@
+import React, { useEffect, useState } from "react"
+import { useQuery, useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import {
+  RedactedScreenshot,
+  RedactedText,
+  RedactionKind,
+  RedactionSettings as RedactionTunables
+} from "../../types/redaction"
+
+interface RedactionSettingsProps {
+  screenshots: Array<{ path: string; preview: string }>
+  onClose: () => void
+}
+
+const KIND_LABELS: Record<RedactionKind, string> = {
+  email: "Email",
+  phone: "Phone",
+  card: "Card",
+  "national-id": "National ID",
+  pattern: "Pattern",
+  keyword: "Keyword"
+}
+
+const CATEGORIES: Array<{ key: "emails" | "phones" | "cards" | "nationalIds"; label: string }> = [
+  { key: "emails", label: "Email addresses" },
+  { key: "phones", label: "Phone numbers" },
+  { key: "cards", label: "Card numbers" },
+  { key: "nationalIds", label: "National IDs (US SSN, UK NI number)" }
+]
+
+// The test text is previewed once typing pauses
+const PREVIEW_DELAY_MS = 300
+
+const textareaClass =
+  "mt-1 w-full px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-xs text-gray-200 font-mono focus:outline-none"
+
+const toLines = (value: string) => value.split("\n").map(line => line.trim()).filter(Boolean)
+
+const RedactionSettings: React.FC<RedactionSettingsProps> = ({ screenshots, onClose }) => {
+  const queryClient = useQueryClient()
+  const [error, setError] = useState<string | null>(null)
+  const { data: settings } = useQuery(["redaction-settings"], () => window.electronAPI.getRedactionSettings())
+
+  // Lists are edited as text and saved when the field loses focus
+  const [keywords, setKeywords] = useState("")
+  const [patterns, setPatterns] = useState("")
+  useEffect(() => {
+    if (!settings) return
+    setKeywords(settings.keywords.join("\n"))
+    setPatterns(settings.patterns.join("\n"))
+  }, [settings])
+
+  const [sample, setSample] = useState("")
+  const [samplePreview, setSamplePreview] = useState<RedactedText | null>(null)
+  const [shots, setShots] = useState<Record<string, RedactedScreenshot | "loading" | { error: string }>>({})
+
+  const update = async (patch: Partial<RedactionTunables>) => {
+    try {
+      const saved = await window.electronAPI.updateRedactionSettings(patch)
+      queryClient.setQueryData(["redaction-settings"], saved)
+      setError(null)
+      // Earlier previews no longer match the settings
+      setShots({})
+    } catch (err: any) {
+      setError(err?.message ?? String(err))
+    }
+  }
+
+  useEffect(() => {
+    if (!sample.trim()) {
+      setSamplePreview(null)
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(() => {
+      window.electronAPI
+        .previewRedactedText(sample)
+        .then(preview => !cancelled && setSamplePreview(preview))
+        .catch(err => console.error("[Redaction] Could not preview text:", err))
+    }, PREVIEW_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [sample, settings])
+
+  const previewScreenshot = async (path: string) => {
+    setShots(current => ({ ...current, [path]: "loading" }))
+    try {
+      const preview = await window.electronAPI.previewRedactedScreenshot(path)
+      setShots(current => ({ ...current, [path]: preview }))
+    } catch (err: any) {
+      setShots(current => ({ ...current, [path]: { error: err?.message ?? String(err) } }))
+    }
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Redaction</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      {settings && (
+        <div className="flex-1 overflow-y-auto space-y-3">
+          <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Mask sensitive data before anything is sent to the AI provider
+          </label>
+
+          <div className={`space-y-3 ${settings.enabled ? "" : "opacity-50 pointer-events-none"}`}>
+            <div className="space-y-1">
+              {CATEGORIES.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings[key]}
+                    onChange={(e) => update({ [key]: e.target.checked })}
+                    className="accent-blue-500"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+
+            <label className="block text-xs text-gray-400">
+              Keywords, one per line
+              <textarea
+                value={keywords}
+                onChange={(e) => setKeywords(e.target.value)}
+                onBlur={() => update({ keywords: toLines(keywords) })}
+                rows={3}
+                className={textareaClass}
+              />
+            </label>
+
+            <label className="block text-xs text-gray-400">
+              Regular expressions, one per line
+              <textarea
+                value={patterns}
+                onChange={(e) => setPatterns(e.target.value)}
+                onBlur={() => update({ patterns: toLines(patterns) })}
+                rows={3}
+                placeholder="ACME-\d{6}"
+                className={textareaClass}
+              />
+            </label>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <label className="block text-xs text-gray-400">
+              Try it
+              <textarea
+                value={sample}
+                onChange={(e) => setSample(e.target.value)}
+                rows={3}
+                placeholder="Paste text to see what would be masked"
+                className={textareaClass}
+              />
+            </label>
+            {samplePreview && (
+              <div className="p-2 bg-gray-800/30 rounded border border-gray-700/30 space-y-1">
+                <p className="text-xs text-gray-200 whitespace-pre-wrap break-words">{samplePreview.text}</p>
+                {samplePreview.matches.map((match, index) => (
+                  <p key={index} className="text-[10px] text-gray-500">
+                    {KIND_LABELS[match.kind]}: {match.text}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {screenshots.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-400">Queued screenshots as the provider would see them</p>
+                {screenshots.map(screenshot => {
+                  const shot = shots[screenshot.path]
+                  return (
+                    <div key={screenshot.path} className="p-2 bg-gray-800/30 rounded border border-gray-700/30 space-y-1">
+                      <img
+                        src={shot && typeof shot === "object" && "preview" in shot ? shot.preview : screenshot.preview}
+                        alt="Screenshot"
+                        className="w-full rounded"
+                      />
+                      {!shot && (
+                        <button
+                          onClick={() => previewScreenshot(screenshot.path)}
+                          className="text-xs text-blue-400 hover:text-blue-300"
+                        >
+                          Preview redaction
+                        </button>
+                      )}
+                      {shot === "loading" && <p className="text-xs text-gray-500">Reading screenshot...</p>}
+                      {shot && typeof shot === "object" && "error" in shot && (
+                        <p className="text-xs text-red-400">{shot.error}</p>
+                      )}
+                      {shot && typeof shot === "object" && "regions" in shot && (
+                        <p className="text-[10px] text-gray-500">
+                          {shot.regions.length
+                            ? `${shot.regions.length} area(s) masked: ${[...new Set(shot.regions.map(region => KIND_LABELS[region.kind]))].join(", ")}`
+                            : "Nothing to mask"}
+                        </p>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          <p className="text-[10px] text-gray-500">
+            Text gets placeholders like [EMAIL_1], which are replaced with the real values again in the
+            answer. Screenshots are masked with black boxes. The originals never leave this computer.
+          </p>
+          {settings.enabled && (
+            <p className="text-[10px] text-gray-500">
+              Call audio cannot be masked, so live captions and call imports need a local whisper engine
+              while this is on; Deepgram is refused.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RedactionSettings
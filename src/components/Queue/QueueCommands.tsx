@@ -1,33 +1,68 @@
 import React, { useState, useEffect, useRef } from "react"
+import { useQuery, useQueryClient } from "react-query"
 import { IoLogOutOutline } from "react-icons/io5"
-import { FiHeadphones, FiPower, FiMic, FiSend, FiMessageSquare, FiSettings } from "react-icons/fi"
+import { FiHeadphones, FiPower, FiMic, FiSend, FiMessageSquare, FiSettings, FiClock, FiUsers, FiColumns, FiCheckSquare, FiFlag, FiActivity, FiUpload, FiGlobe, FiSearch, FiShield, FiArchive } from "react-icons/fi"
 import { BsRecordCircle, BsStopCircle, BsPauseFill, BsPlayFill } from "react-icons/bs"
 import { AiOutlineClose } from "react-icons/ai"
+import SessionHistory from "../Sessions/SessionHistory"
+import StageSettings from "../Pipeline/StageSettings"
+import ExtractionReview from "../Crm/ExtractionReview"
+import FinishCallPanel from "../Sessions/FinishCallPanel"
+import TaskList from "../Tasks/TaskList"
+import FollowUpEmail from "../Sessions/FollowUpEmail"
+import { ImportProgress, TranscriptEntry } from "../../types/session"
+import { SystemAudioMode, VadSettings as VadTunables } from "../../types/audio"
+import { openSystemAudioStream } from "../../lib/systemAudio"
+import { listAudioDevices, openMicrophone, resolveDevice } from "../../lib/audioDevices"
+import { createPcmCaptureNode, PCM_SAMPLE_RATE, PcmCaptureNode } from "../../lib/pcmCapture"
+import { DEFAULT_VAD_DEVICE, VadMonitor, vadDeviceKey } from "../../lib/vad"
+import VadSettings from "../Audio/VadSettings"
+import DevicePicker from "../Audio/DevicePicker"
+import LanguageSettings from "../Audio/LanguageSettings"
+import ScreenshotSearch from "./ScreenshotSearch"
+import RedactionSettings from "../Privacy/RedactionSettings"
+import ScreenshotRetention from "./ScreenshotRetention"
+import { AUTO_LANGUAGE, LANGUAGES, languageLabel, languageOptions, needsTranslation } from "../../lib/languages"
+import { LanguageSettings as LanguageTunables } from "../../types/transcription"
+import SpeakerLabel from "../Sessions/SpeakerLabel"
+import {
+  appendSegments,
+  AudioChannel,
+  CHANNEL_SPEAKERS,
+  entryTypeFor,
+  segmentsFromDeepgram,
+  SpeakerSegment
+} from "../../lib/speakers"
 
 interface QueueCommandsProps {
   onTooltipVisibilityChange: (visible: boolean, height: number) => void
   screenshots: Array<{ path: string; preview: string }>
   onChatToggle: () => void
+  onOpenView: (view: "crm" | "pipeline") => void
 }
 
-interface TranscriptEntry {
-  type: 'question' | 'answer' | 'live' | 'interviewer' | 'system'
+interface StreamingResponseState {
+  requestId: string
   text: string
-  timestamp: string
 }
 
-interface LiveTranscriptionState {
-  fullText: string
-  displayedText: string
-  currentIndex: number
-  messageId: string
-}
+// Lets a headset finish connecting before the capture follows it
+const DEVICE_CHECK_DELAY_MS = 500
+
+const formatTimestamp = () =>
+  new Date().toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  })
 
 const QueueCommands: React.FC<QueueCommandsProps> = ({
   onTooltipVisibilityChange,
   screenshots,
-  onChatToggle
+  onChatToggle,
+  onOpenView
 }) => {
+  const queryClient = useQueryClient()
   const [isTooltipVisible, setIsTooltipVisible] = useState(false)
   const tooltipRef = useRef<HTMLDivElement>(null)
 
@@ -41,47 +76,125 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
 
   const [audioResults, setAudioResults] = useState<string[]>([])
   const [transcript, setTranscript] = useState<TranscriptEntry[]>([])
-  const [liveTranscription, setLiveTranscription] = useState<LiveTranscriptionState | null>(null)
+  const [streamingResponse, setStreamingResponse] = useState<StreamingResponseState | null>(null)
   const [currentVolume, setCurrentVolume] = useState(0)
   const [messageInput, setMessageInput] = useState("")
   const [showChat, setShowChat] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showStageSettings, setShowStageSettings] = useState(false)
+  // Session whose extracted CRM fields are waiting for review
+  const [reviewSessionId, setReviewSessionId] = useState<string | null>(null)
+  // Session being summarized after "Finish call"
+  const [summarySessionId, setSummarySessionId] = useState<string | null>(null)
+  // Cleared again as soon as anything is added to a new session
+  const [callFinished, setCallFinished] = useState(false)
+  const [showTasks, setShowTasks] = useState(false)
+  const [emailSessionId, setEmailSessionId] = useState<string | null>(null)
+  // Recorded call being imported, and why the last import failed
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [isDraggingFile, setIsDraggingFile] = useState(false)
+  const importIdRef = useRef<string | null>(null)
+  const importCancelledRef = useRef(false)
   const chunks = useRef<Blob[]>([])
   const transcriptEndRef = useRef<HTMLDivElement>(null)
-  const animationFrameRef = useRef<number | null>(null)
-  const transcriptionTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+  const activeStreamIdRef = useRef<string | null>(null)
 
   // Audio/VAD refs
   const audioContextRef = useRef<AudioContext | null>(null)
   const analyserRef = useRef<AnalyserNode | null>(null)
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null)
+  // Every node of the capture graph, so stopping can tear it all down
+  const graphNodesRef = useRef<AudioNode[]>([])
+  // Microphone and system audio streams as captured
+  const captureStreamsRef = useRef<MediaStream[]>([])
+  // What the recorder records: both sides mixed, or mic left / system right
   const streamRef = useRef<MediaStream | null>(null)
-
-  const meterRafRef = useRef<number | null>(null)
-  const silenceStartRef = useRef<number | null>(null)
-  const isSpeakingRef = useRef(false)
-  const noiseFloorRef = useRef<number | null>(null)
+  const recordingNodeRef = useRef<MediaStreamAudioDestinationNode | null>(null)
+  const rebuildingCaptureRef = useRef(false)
+  const deviceCheckTimerRef = useRef<ReturnType<typeof setTimeout>>()
+  const [showDevicePicker, setShowDevicePicker] = useState(false)
+
+  // Opt-in recording of the whole call; entries store their offsets into it
+  const sessionRecorderRef = useRef<MediaRecorder | null>(null)
+  const sessionAudioStartRef = useRef<number | null>(null)
+  const sessionAudioWritesRef = useRef<Promise<void>>(Promise.resolve())
+  const vadMonitorRef = useRef<VadMonitor | null>(null)
+  // Input device the VAD tunables are read for
+  const [vadDevice, setVadDevice] = useState(DEFAULT_VAD_DEVICE)
+  const [showVadSettings, setShowVadSettings] = useState(false)
   const stopInFlightRef = useRef(false)
 
-  // Deepgram refs
-  const deepgramSocketRef = useRef<WebSocket | null>(null)
-  const deepgramProcessorRef = useRef<ScriptProcessorNode | null>(null)
+  // Live transcription refs
+  // One stream per transcribed channel ('system' only when kept separate from the mic)
+  const transcriptionStreamsRef = useRef<
+    Partial<Record<AudioChannel, { id: string; unsubscribe: () => void }>>
+  >({})
+  const transcriptionCaptureRef = useRef<PcmCaptureNode[]>([])
   const [deepgramLiveText, setDeepgramLiveText] = useState("")
-  const deepgramFinalTextRef = useRef("")
-  const deepgramInterimTextRef = useRef("")
+  // Speaker label -> name for the current session
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({})
+  // Final results so far, split by speaker
+  const deepgramSegmentsRef = useRef<SpeakerSegment[]>([])
+  const deepgramInterimRef = useRef<Partial<Record<AudioChannel, string>>>({})
+  const lastSpeakerRef = useRef<Partial<Record<AudioChannel, string>>>({})
+
+  const { data: audioSettings } = useQuery(["audio-settings"], () =>
+    window.electronAPI.getAudioSettings()
+  )
+  const systemAudio: SystemAudioMode = audioSettings?.systemAudio ?? 'off'
+  // Read from device change handlers, which outlive the render they were made in
+  const audioSettingsRef = useRef(audioSettings)
+  useEffect(() => {
+    audioSettingsRef.current = audioSettings
+  }, [audioSettings])
+  const recordSessions = audioSettings?.recordSessions ?? false
+
+  const fetchVadSettings = (deviceId: string) =>
+    queryClient.fetchQuery(["vad-settings", deviceId], () => window.electronAPI.getVadSettings(deviceId))
+  const { data: vadSettings } = useQuery(["vad-settings", vadDevice], () =>
+    window.electronAPI.getVadSettings(vadDevice)
+  )
+
+  // Tuning changes apply to a running recording right away
+  useEffect(() => {
+    if (vadSettings) vadMonitorRef.current?.update(vadSettings)
+  }, [vadSettings])
+
+  const { data: languageSettings } = useQuery(["language-settings"], () =>
+    window.electronAPI.getLanguageSettings()
+  )
+  const [showLanguageSettings, setShowLanguageSettings] = useState(false)
+  const [showScreenshotSearch, setShowScreenshotSearch] = useState(false)
+  const [showRedactionSettings, setShowRedactionSettings] = useState(false)
+  const [showScreenshotRetention, setShowScreenshotRetention] = useState(false)
+  const callLanguage = languageSettings?.callLanguage ?? 'en'
+  // Read from recorder and transcription callbacks, which outlive the render they were made in
+  const languageSettingsRef = useRef<LanguageTunables | undefined>(languageSettings)
+  useEffect(() => {
+    languageSettingsRef.current = languageSettings
+  }, [languageSettings])
+  // Spoken language of the stored session, fixed when its recording starts
+  const sessionLanguageRef = useRef<string | null>(null)
+
+  const currentCallLanguage = () =>
+    sessionLanguageRef.current ?? languageSettingsRef.current?.callLanguage ?? 'en'
+  const currentLanguageOptions = () =>
+    languageSettingsRef.current && languageOptions(languageSettingsRef.current, currentCallLanguage())
 
   // Session lifetime flag
   const sessionActiveRef = useRef(false)
 
-  // Tunables
-  const SILENCE_DURATION_MS = 1500
-  const CALIBRATION_MS = 800
-  const MIN_THRESHOLD_RMS = 0.002
-  const NOISE_MULTIPLIER = 2.0
+  // Id of the stored session entries are written to (resolved lazily)
+  const storedSessionRef = useRef<Promise<string> | null>(null)
+  // Last session that was ended, so "Finish call" still works after stopping the recording
+  const lastEndedSessionRef = useRef<string | null>(null)
+  // The same id once it has resolved; session history does not let it be deleted
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null)
 
   // Auto-scroll to bottom when new entries are added
   useEffect(() => {
     transcriptEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [transcript, liveTranscription, deepgramLiveText])
+  }, [transcript, streamingResponse, deepgramLiveText])
 
   useEffect(() => {
     let tooltipHeight = 0
@@ -94,10 +207,81 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
   const handleMouseEnter = () => setIsTooltipVisible(true)
   const handleMouseLeave = () => setIsTooltipVisible(false)
 
-  function rmsFromFloatBuffer(buf: Float32Array) {
-    let sum = 0
-    for (let i = 0; i < buf.length; i++) sum += buf[i] * buf[i]
-    return Math.sqrt(sum / buf.length)
+  // Opens a stored session on first use so nothing said or typed is lost on reload
+  const ensureStoredSession = () => {
+    if (!storedSessionRef.current) {
+      const pending = window.electronAPI
+        .startSession(undefined, currentCallLanguage())
+        .then(session => session.id)
+      pending
+        .then(id => {
+          if (storedSessionRef.current === pending) setActiveSessionId(id)
+        })
+        .catch(err => {
+          console.error("[Session] Could not start session:", err)
+          if (storedSessionRef.current === pending) storedSessionRef.current = null
+        })
+      storedSessionRef.current = pending
+    }
+    return storedSessionRef.current
+  }
+
+  // Resolves with the id of the session that was ended, or null if none was open
+  const endStoredSession = async (): Promise<string | null> => {
+    const pending = storedSessionRef.current
+    storedSessionRef.current = null
+    sessionLanguageRef.current = null
+    setActiveSessionId(null)
+    if (!pending) return null
+    try {
+      const id = await pending
+      await window.electronAPI.endSession(id)
+      lastEndedSessionRef.current = id
+      return id
+    } catch (err) {
+      console.error("[Session] Could not end session:", err)
+      return null
+    }
+  }
+
+  // span: when the words were spoken (epoch ms), if known; otherwise the entry is placed at now
+  const addEntry = (
+    type: TranscriptEntry['type'],
+    text: string,
+    source: TranscriptEntry['source'],
+    speaker?: string,
+    span?: { start?: number; end?: number }
+  ) => {
+    const at = Date.now()
+    const entry: TranscriptEntry = { type, text, timestamp: formatTimestamp(), at, source, speaker }
+    const audioStart = sessionAudioStartRef.current
+    if (audioStart != null) {
+      const offset = (time: number) => Math.max(0, (time - audioStart) / 1000)
+      entry.audio = { start: offset(span?.start ?? at), end: offset(span?.end ?? at) }
+    }
+    setTranscript(current => [...current, entry])
+    setCallFinished(false)
+    ensureStoredSession()
+      .then(id => window.electronAPI.addSessionEntry(id, entry))
+      .catch(err => console.error("[Session] Could not store entry:", err))
+    return entry
+  }
+
+  // Adds the rep-language translation under what the other party said, once it arrives
+  const translateEntry = (entry: TranscriptEntry) => {
+    const settings = languageSettingsRef.current
+    if (!settings || !needsTranslation(settings, currentCallLanguage())) return
+    const session = storedSessionRef.current
+    const language = settings.repLanguage
+    window.electronAPI.translateText(entry.text, language)
+      .then(async text => {
+        // Already in the rep's language
+        if (!text || text.toLowerCase() === entry.text.trim().toLowerCase()) return
+        const translation = { language, text }
+        setTranscript(current => current.map(item => (item === entry ? { ...item, translation } : item)))
+        if (session) await window.electronAPI.addSessionTranslation(await session, entry, translation)
+      })
+      .catch(err => console.error("[Translation] Could not translate entry:", err))
   }
 
   function barsFromRms(rms: number) {
@@ -107,263 +291,203 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
     return Math.max(0, Math.min(10, Math.round(t * 10)))
   }
 
-  // Initialize Deepgram WebSocket connection
-  const initializeDeepgram = async () => {
-    console.log("[Deepgram] Starting initialization...")
-    try {
-      // Try to get API key from Electron backend, fallback to hardcoded for testing
-      let apiKey;
-      try {
-        apiKey = await window.electronAPI.invoke('get-deepgram-api-key')
-        console.log("[Deepgram] Got API key from backend")
-      } catch (e) {
-        console.warn("[Deepgram] Could not get API key from backend, using fallback")
-        // TEMPORARY: Replace with your actual Deepgram API key for testing
-        // Get your key from https://console.deepgram.com/
-        apiKey = '318dc352c08f695131a75753cf59d05eeb50de98' // <-- REPLACE THIS
-      }
-      
-      // if (!apiKey || apiKey === '318dc352c08f695131a75753cf59d05eeb50de98') {
-      //   console.error("[Deepgram] No valid API key available - live transcription disabled")
-      //   return false
-      // }
-
-      console.log("[Deepgram] API key obtained, creating WebSocket...")
-
-      // Close existing connection if any
-      if (deepgramSocketRef.current) {
-        deepgramSocketRef.current.close()
-      }
+  const handleRenameSpeaker = (label: string, name: string) => {
+    setSpeakerNames(current => {
+      const next = { ...current }
+      if (name) next[label] = name
+      else delete next[label]
+      return next
+    })
+    ensureStoredSession()
+      .then(id => window.electronAPI.setSpeakerName(id, label, name))
+      .catch(err => console.error("[Session] Could not store speaker name:", err))
+  }
 
-      // Create WebSocket connection to Deepgram with options
-      const socket = new WebSocket(
-        'wss://api.deepgram.com/v1/listen?encoding=linear16&sample_rate=16000&language=en-US&model=nova-2&smart_format=true&interim_results=true&utterance_end_ms=1000&vad_events=true',
-        ['token', apiKey]
-      )
+  const liveTextFromSegments = () =>
+    [
+      ...deepgramSegmentsRef.current.map(segment => segment.text),
+      ...Object.values(deepgramInterimRef.current)
+    ]
+      .filter(Boolean)
+      .join(" ")
+      .trim()
+
+  // Moves the live Deepgram text into the transcript, one entry per speaker turn.
+  // Unfinished interim text goes to whoever last spoke on that channel.
+  const flushDeepgramSegments = () => {
+    const interims = (Object.entries(deepgramInterimRef.current) as Array<[AudioChannel, string]>)
+      .filter(([, text]) => text.trim())
+      .map(([channel, text]) => ({
+        speaker: lastSpeakerRef.current[channel] ?? CHANNEL_SPEAKERS[channel],
+        text: text.trim()
+      }))
+    const pending = appendSegments(deepgramSegmentsRef.current, interims)
+    for (const segment of pending) {
+      const entry = addEntry(entryTypeFor(segment.speaker), segment.text, 'transcription', segment.speaker, segment)
+      if (entry.type === 'interviewer') translateEntry(entry)
+    }
+    setDeepgramLiveText("")
+    deepgramSegmentsRef.current = []
+    deepgramInterimRef.current = {}
+  }
 
-      socket.onopen = () => {
-        console.log("[Deepgram] ✅ WebSocket connected successfully")
-        deepgramFinalTextRef.current = ""
-        deepgramInterimTextRef.current = ""
-      }
+  // Stops listening right away; whatever the engine still flushes is dropped
+  const closeTranscription = (channel: AudioChannel) => {
+    const stream = transcriptionStreamsRef.current[channel]
+    if (!stream) return
+    delete transcriptionStreamsRef.current[channel]
+    stream.unsubscribe()
+    window.electronAPI.closeTranscription(stream.id)
+      .catch(err => console.error("[Transcription] Could not close stream:", err))
+  }
 
-      socket.onmessage = (message) => {
-        const received = JSON.parse(message.data)
-        
-        // Only log non-empty transcripts and important events
-        if (received.type === 'Results' && received.channel?.alternatives?.[0]?.transcript) {
-          console.log("[Deepgram] Transcript received:", received.channel.alternatives[0].transcript, 
-                      "| Final:", received.is_final)
-        }
-        
-        // Handle different message types
-        if (received.type === 'Results') {
-          const transcript = received.channel?.alternatives?.[0]?.transcript || ''
-          
-          if (transcript && transcript.trim() !== '') {
-            if (received.is_final) {
-              console.log("[Deepgram] ✅ Final:", transcript)
-              deepgramFinalTextRef.current += transcript + " "
-              setDeepgramLiveText(deepgramFinalTextRef.current.trim())
-            } else {
-              console.log("[Deepgram] 📝 Interim:", transcript)
-              deepgramInterimTextRef.current = transcript
-              setDeepgramLiveText((deepgramFinalTextRef.current + " " + deepgramInterimTextRef.current).trim())
+  // Opens a live transcription stream for one channel through the engine configured in main.
+  // Every engine reports in Deepgram's message format.
+  const initializeTranscription = async (channel: AudioChannel = 'mic') => {
+    console.log(`[Transcription] Opening stream (${channel})...`)
+    closeTranscription(channel)
+
+    const streamId = `${channel}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    // Result times are seconds since the stream was opened
+    let origin = Date.now()
+    const unsubscribe = window.electronAPI.onTranscriptionEvent(streamId, (received) => {
+      if (received.type === 'Results') {
+        const alternative = received.channel?.alternatives?.[0]
+        const transcript = alternative?.transcript || ''
+
+        if (transcript && transcript.trim() !== '') {
+          if (received.is_final) {
+            console.log("[Transcription] ✅ Final:", transcript)
+            const segments = segmentsFromDeepgram(alternative, channel, {
+              origin,
+              start: received.start,
+              duration: received.duration
+            })
+            deepgramSegmentsRef.current = appendSegments(deepgramSegmentsRef.current, segments)
+            deepgramInterimRef.current[channel] = ""
+            if (segments.length > 0) {
+              lastSpeakerRef.current[channel] = segments[segments.length - 1].speaker
             }
+            const at = Date.now()
+            ensureStoredSession()
+              .then(id => Promise.all(segments.map(segment =>
+                window.electronAPI.addSessionFinal(id, { text: segment.text, at, speaker: segment.speaker })
+              )))
+              .catch(err => console.error("[Session] Could not store final:", err))
+            setDeepgramLiveText(liveTextFromSegments())
+          } else {
+            console.log("[Transcription] 📝 Interim:", transcript)
+            deepgramInterimRef.current[channel] = transcript
+            setDeepgramLiveText(liveTextFromSegments())
           }
-        } else if (received.type === 'SpeechStarted') {
-          console.log("[Deepgram] 🎤 Speech started")
+        }
+      } else if (received.type === 'SpeechStarted') {
+        console.log("[Transcription] 🎤 Speech started")
+      } else if (received.type === 'Error') {
+        console.error("[Transcription] ❌ Engine error:", received.message)
+        // Main ended the stream (redaction was switched on), so stop sending it audio
+        if (received.closed && transcriptionStreamsRef.current[channel]?.id === streamId) {
+          closeTranscription(channel)
+          setAudioResults(prev => [...prev, `Live transcription stopped: ${received.message}`])
         }
       }
+    })
 
-      socket.onerror = (error) => {
-        console.error("[Deepgram] ❌ WebSocket error:", error)
-      }
-
-      socket.onclose = (event) => {
-        console.log("[Deepgram] WebSocket closed - Code:", event.code, "Reason:", event.reason)
-      }
-
-      deepgramSocketRef.current = socket
-      return true
-    } catch (error) {
-      console.error("[Deepgram] ❌ Failed to initialize:", error)
+    try {
+      await window.electronAPI.openTranscription(streamId, { diarize: true, language: currentCallLanguage() })
+      origin = Date.now()
+    } catch (error: any) {
+      unsubscribe()
+      console.error("[Transcription] ❌ Failed to open stream:", error)
+      // Errors from main arrive as "Error invoking remote method '...': <name>: <message>"
+      const message = String(error?.message ?? error).replace(/^Error invoking remote method '[^']+': (\w+: )?/, "")
+      setAudioResults(prev => [...prev, `Live transcription unavailable: ${message}`])
       return false
     }
+    transcriptionStreamsRef.current[channel] = { id: streamId, unsubscribe }
+    console.log(`[Transcription] ✅ Stream open (${channel})`)
+    return true
   }
 
-  // Setup audio processor for Deepgram
-  const setupDeepgramProcessor = (audioContext: AudioContext, source: MediaStreamAudioSourceNode) => {
-    console.log("[Deepgram] Setting up audio processor...")
-    
-    // Create processor with smaller buffer for lower latency
-    const bufferSize = 2048 // Smaller buffer = lower latency
-    const processor = audioContext.createScriptProcessor(bufferSize, 1, 1)
-    let audioSentCount = 0
-    
-    processor.onaudioprocess = (e) => {
-      if (!deepgramSocketRef.current || deepgramSocketRef.current.readyState !== WebSocket.OPEN) {
-        if (audioSentCount === 0) {
-          console.warn("[Deepgram] WebSocket not ready, audio not being sent")
-        }
-        return
+  // Taps the graph with the PCM capture worklet; its 16 kHz Int16 frames go to the
+  // channel's transcription stream for as long as one is open
+  const setupTranscriptionProcessor = async (audioContext: AudioContext, source: AudioNode, channel: AudioChannel) => {
+    console.log(`[Transcription] Setting up audio capture (${channel})...`)
+    let framesSent = 0
+    const capture = await createPcmCaptureNode(audioContext, source, (pcm) => {
+      const stream = transcriptionStreamsRef.current[channel]
+      if (!stream) return
+      window.electronAPI.sendTranscriptionAudio(stream.id, pcm)
+
+      // Log periodically to confirm audio is being sent
+      framesSent++
+      if (framesSent % 250 === 0) {
+        console.log(`[Transcription] Frames sent: ${framesSent} (sample rate: ${audioContext.sampleRate}→${PCM_SAMPLE_RATE / 1000}kHz)`)
       }
+    })
+    transcriptionCaptureRef.current.push(capture)
+    console.log("[Transcription] ✅ Audio capture setup complete")
+  }
+
+  // Streams an LLM response into the live bubble, then moves it into the transcript.
+  // Resolves with the full text, or null if it was cancelled or failed.
+  const streamResponse = async (
+    start: (requestId: string) => Promise<string | null>
+  ): Promise<string | null> => {
+    // Only one response streams at a time
+    if (activeStreamIdRef.current) {
+      window.electronAPI.cancelLLMStream(activeStreamIdRef.current)
+    }
 
-      const inputData = e.inputBuffer.getChannelData(0)
-      
-      // Downsample to 16kHz if needed (Deepgram expects 16kHz)
-      const targetSampleRate = 16000
-      const sourceSampleRate = audioContext.sampleRate
-      const downsampleRatio = sourceSampleRate / targetSampleRate
-      
-      let outputData
-      if (Math.abs(downsampleRatio - 1) > 0.01) {
-        // Need to downsample
-        const outputLength = Math.floor(inputData.length / downsampleRatio)
-        const downsampled = new Float32Array(outputLength)
-        for (let i = 0; i < outputLength; i++) {
-          const sourceIndex = Math.floor(i * downsampleRatio)
-          downsampled[i] = inputData[sourceIndex]
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+    activeStreamIdRef.current = requestId
+    setStreamingResponse({ requestId, text: '' })
+
+    let received = ''
+    const unsubscribe = window.electronAPI.onLLMStream(requestId, (event) => {
+      if (event.type !== 'chunk') return
+      received += event.text
+      setStreamingResponse(prev =>
+        prev && prev.requestId === requestId ? { ...prev, text: received } : prev
+      )
+    })
+
+    try {
+      const text = await start(requestId)
+      if (text === null) {
+        // Cancelled: keep whatever already arrived
+        if (received.trim()) {
+          addEntry('answer', `${received.trim()} …`, 'assistant')
         }
-        outputData = downsampled
-      } else {
-        outputData = inputData
+        return null
       }
-      
-      // Convert float32 to int16 PCM
-      const int16Data = new Int16Array(outputData.length)
-      for (let i = 0; i < outputData.length; i++) {
-        const s = Math.max(-1, Math.min(1, outputData[i]))
-        int16Data[i] = s < 0 ? s * 0x8000 : s * 0x7FFF
+      if (text.trim()) {
+        addEntry('answer', text, 'assistant')
       }
-
-      // Send to Deepgram
-      deepgramSocketRef.current.send(int16Data.buffer)
-      
-      // Log periodically to confirm audio is being sent
-      audioSentCount++
-      if (audioSentCount % 100 === 0) {
-        console.log(`[Deepgram] Audio chunks sent: ${audioSentCount} (sample rate: ${sourceSampleRate}→16kHz)`)
+      return text
+    } catch (err: any) {
+      console.error("[Stream] Response failed:", err)
+      addEntry('system', `Response failed: ${err.message}`, 'system')
+      return null
+    } finally {
+      unsubscribe()
+      if (activeStreamIdRef.current === requestId) {
+        activeStreamIdRef.current = null
       }
+      setStreamingResponse(prev => (prev && prev.requestId === requestId ? null : prev))
     }
-
-    source.connect(processor)
-    processor.connect(audioContext.destination)
-    deepgramProcessorRef.current = processor
-    console.log("[Deepgram] ✅ Audio processor setup complete")
   }
 
-  // Improved smooth live transcription animation
-  const simulateLiveTranscription = (text: string) => {
-    // Clear any existing animation
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current)
-    }
-    if (transcriptionTimeoutRef.current) {
-      clearTimeout(transcriptionTimeoutRef.current)
-    }
-
-    // Generate unique ID for this message
-    const messageId = Date.now().toString()
-    
-    // Initialize live transcription state
-    const liveState: LiveTranscriptionState = {
-      fullText: text,
-      displayedText: '',
-      currentIndex: 0,
-      messageId
-    }
-    
-    setLiveTranscription(liveState)
-
-    // Character-by-character animation with variable speed
-    const animateText = () => {
-      setLiveTranscription(prev => {
-        if (!prev || prev.messageId !== messageId) return prev
-        
-        if (prev.currentIndex >= prev.fullText.length) {
-          // Animation complete - convert to final transcript entry
-          const timestamp = new Date().toLocaleTimeString('en-US', { 
-            hour: 'numeric', 
-            minute: '2-digit',
-            hour12: true 
-          })
-          
-          // Add to transcript
-          setTranscript(current => [...current, {
-            type: 'answer',
-            text: prev.fullText,
-            timestamp
-          }])
-          
-          // Clear live transcription immediately
-          return null
-        }
-        
-        // Calculate how many characters to add (variable speed for more natural feel)
-        const remainingChars = prev.fullText.length - prev.currentIndex
-        let charsToAdd = 1
-        
-        // Speed up for longer remaining text
-        if (remainingChars > 100) charsToAdd = 3
-        else if (remainingChars > 50) charsToAdd = 2
-        
-        // Don't break words - if we're in the middle of a word, complete it
-        const nextIndex = Math.min(prev.currentIndex + charsToAdd, prev.fullText.length)
-        const nextChar = prev.fullText[nextIndex]
-        const currentChar = prev.fullText[prev.currentIndex + charsToAdd - 1]
-        
-        // If we're about to break a word, find the end of the word
-        let adjustedIndex = nextIndex
-        if (nextChar && nextChar !== ' ' && currentChar !== ' ') {
-          const spaceIndex = prev.fullText.indexOf(' ', nextIndex)
-          if (spaceIndex !== -1 && spaceIndex - nextIndex < 10) {
-            adjustedIndex = spaceIndex
-          }
-        }
-        
-        return {
-          ...prev,
-          displayedText: prev.fullText.substring(0, adjustedIndex),
-          currentIndex: adjustedIndex
-        }
-      })
-      
-      // Variable delay for more natural typing effect
-      const delay = Math.random() * 20 + 15 // 15-35ms
-      animationFrameRef.current = requestAnimationFrame(() => {
-        transcriptionTimeoutRef.current = setTimeout(animateText, delay)
-      })
+  const handleCancelResponse = () => {
+    if (activeStreamIdRef.current) {
+      window.electronAPI.cancelLLMStream(activeStreamIdRef.current)
     }
-    
-    // Start animation
-    animateText()
   }
 
   const sendAudioForAnalysis = async () => {
     if (chunks.current.length === 0) return
     
-    // Clear any existing live transcription
-    setLiveTranscription(null)
-    
-    // Save the final Deepgram transcription if any
-    if (deepgramLiveText.trim()) {
-      const timestamp = new Date().toLocaleTimeString('en-US', { 
-        hour: 'numeric', 
-        minute: '2-digit',
-        hour12: true 
-      })
-      setTranscript(prev => [...prev, {
-        type: 'question',
-        text: deepgramLiveText.trim(),
-        timestamp
-      }])
-    }
-    
-    // Clear Deepgram text
-    setDeepgramLiveText("")
-    deepgramFinalTextRef.current = ""
-    deepgramInterimTextRef.current = ""
+    flushDeepgramSegments()
     
     const audioBlob = new Blob(chunks.current, { type: "audio/webm" })
     console.log("[VAD] Sending audio, size:", audioBlob.size)
@@ -371,75 +495,36 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
     const reader = new FileReader()
     reader.onloadend = async () => {
       const base64Data = (reader.result as string).split(",")[1]
-      try {
-        const result = await window.electronAPI.analyzeAudioFromBase64(
-          base64Data,
-          audioBlob.type
-        )
-        if (result?.text && result.text.trim()) {
-          setAudioResults(prev => [...prev, result.text])
-          
-          // Add smooth animation for the response
-          simulateLiveTranscription(result.text)
-        }
-      } catch (err) {
-        console.error("[VAD] Analysis failed:", err)
+      const text = await streamResponse(requestId =>
+        window.electronAPI.streamAudioAnalysis(requestId, base64Data, audioBlob.type, currentLanguageOptions())
+      )
+      if (text && text.trim()) {
+        setAudioResults(prev => [...prev, text])
       }
     }
     reader.readAsDataURL(audioBlob)
     chunks.current = []
   }
 
-  function startMeterLoop(startTs: number) {
-    const analyser = analyserRef.current
-    if (!analyser) return
-
-    analyser.fftSize = 512
-    analyser.smoothingTimeConstant = 0.2
-    const buf = new Float32Array(analyser.fftSize)
-
-    const tick = () => {
-      analyser.getFloatTimeDomainData(buf)
-      const rms = rmsFromFloatBuffer(buf)
-
-      const now = performance.now()
-      if (now - startTs < CALIBRATION_MS) {
-        noiseFloorRef.current =
-          noiseFloorRef.current == null
-            ? rms
-            : noiseFloorRef.current * 0.9 + rms * 0.1
-      }
-
-      const noise = noiseFloorRef.current ?? 0.001
-      const threshold = Math.max(MIN_THRESHOLD_RMS, noise * NOISE_MULTIPLIER)
-
-      setCurrentVolume(barsFromRms(rms))
-
-      if (rms > threshold) {
-        isSpeakingRef.current = true
-        silenceStartRef.current = null
-      } else {
-        if (isSpeakingRef.current) {
-          if (silenceStartRef.current == null) {
-            silenceStartRef.current = now
-          } else if (now - silenceStartRef.current >= SILENCE_DURATION_MS) {
-            if (!stopInFlightRef.current) {
-              const rec = mediaRecorderRef.current
-              if (rec && rec.state === "recording") {
-                console.log("[VAD] Silence detected → stopping recorder")
-                stopInFlightRef.current = true
-                rec.stop()
-              }
-            }
-            silenceStartRef.current = null
-            isSpeakingRef.current = false
-          }
+  // Runs the configured detector on the analyser; the end of every speech segment sends
+  // what was recorded for analysis
+  function startVad(analyser: AnalyserNode, settings: VadTunables) {
+    const monitor = new VadMonitor(analyser, settings, {
+      onFrame: decision => setCurrentVolume(barsFromRms(decision.level)),
+      onSpeechStart: start => console.log(`[VAD] Speech started at ${(start / 1000).toFixed(2)}s`),
+      onSegment: segment => {
+        console.log(`[VAD] Speech segment ${(segment.start / 1000).toFixed(2)}s-${(segment.end / 1000).toFixed(2)}s`)
+        if (stopInFlightRef.current) return
+        const rec = mediaRecorderRef.current
+        if (rec && rec.state === "recording") {
+          console.log("[VAD] Silence detected → stopping recorder")
+          stopInFlightRef.current = true
+          rec.stop()
         }
       }
-      meterRafRef.current = requestAnimationFrame(tick)
-    }
-
-    meterRafRef.current = requestAnimationFrame(tick)
+    })
+    monitor.start()
+    vadMonitorRef.current = monitor
   }
 
   const createMediaRecorder = (stream: MediaStream) => {
@@ -451,8 +536,7 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
 
     recorder.onstart = () => {
       stopInFlightRef.current = false
-      isSpeakingRef.current = false
-      silenceStartRef.current = null
+      vadMonitorRef.current?.resetSegment()
       console.log("[VAD] Recorder started (onstart)")
     }
 
@@ -483,15 +567,127 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
     return recorder
   }
 
+  // Saves everything the call graph hears into the stored session, chunk by chunk and in order
+  const startSessionRecorder = (stream: MediaStream) => {
+    const recorder = new MediaRecorder(stream, { mimeType: "audio/webm" })
+    const write = (task: (id: string) => Promise<void>) => {
+      sessionAudioWritesRef.current = sessionAudioWritesRef.current
+        .then(() => ensureStoredSession())
+        .then(task)
+        .catch(err => console.error("[Session] Could not store call audio:", err))
+    }
+
+    recorder.onstart = () => {
+      const startedAt = Date.now()
+      sessionAudioStartRef.current = startedAt
+      write(id => window.electronAPI.startSessionRecording(id, startedAt, recorder.mimeType))
+    }
+    recorder.ondataavailable = (e) => {
+      if (!e.data || e.data.size === 0) return
+      const data = e.data.arrayBuffer()
+      write(async id => window.electronAPI.appendSessionAudio(id, await data))
+    }
+    recorder.start(1000)
+    sessionRecorderRef.current = recorder
+  }
+
+  // Opens the microphone (and system audio) and builds everything that hangs off them: sources,
+  // analyser, transcription streams and VAD. Both recorders record `recording`, which outlives
+  // this part of the graph, so it can be rebuilt when devices change without ending the call.
+  const openCapture = async (ac: AudioContext, recording: MediaStreamAudioDestinationNode) => {
+    console.log("[VAD] Requesting microphone access...")
+    const micStream = await openMicrophone(audioSettingsRef.current?.inputDevice)
+    captureStreamsRef.current = [micStream]
+    console.log("[VAD] Microphone access granted:", micStream.getAudioTracks()[0]?.label)
+    const micDevice = vadDeviceKey(micStream)
+    setVadDevice(micDevice)
+    const vadTunables = await fetchVadSettings(micDevice)
+
+    let systemStream: MediaStream | null = null
+    if (systemAudio !== 'off') {
+      try {
+        systemStream = await openSystemAudioStream()
+        captureStreamsRef.current.push(systemStream)
+        console.log("[SystemAudio] Capturing system audio, mode:", systemAudio)
+      } catch (err: any) {
+        console.error("[SystemAudio] Could not capture system audio:", err)
+        addEntry('system', `System audio unavailable, recording the microphone only: ${err.message}`, 'system')
+      }
+    }
+    // An unplugged device ends its track, sometimes without a devicechange event
+    captureStreamsRef.current.forEach(stream =>
+      stream.getAudioTracks().forEach(track => track.addEventListener('ended', scheduleDeviceCheck))
+    )
+
+    const micSource = ac.createMediaStreamSource(micStream)
+    const systemSource = systemStream ? ac.createMediaStreamSource(systemStream) : null
+    const separate = systemSource !== null && systemAudio === 'separate'
+
+    // VAD listens to both sides so the other party talking is not taken for silence
+    const mix = ac.createGain()
+    micSource.connect(mix)
+    systemSource?.connect(mix)
+    const analyser = ac.createAnalyser()
+    mix.connect(analyser)
+
+    const nodes: AudioNode[] = [micSource, mix, analyser]
+    if (systemSource) nodes.push(systemSource)
+    if (separate) {
+      const merger = ac.createChannelMerger(2)
+      micSource.connect(merger, 0, 0)
+      systemSource.connect(merger, 0, 1)
+      merger.connect(recording)
+      nodes.push(merger)
+    } else {
+      mix.connect(recording)
+    }
+
+    graphNodesRef.current = nodes
+    analyserRef.current = analyser
+
+    // Open live transcription streams and processors
+    deepgramSegmentsRef.current = []
+    deepgramInterimRef.current = {}
+    lastSpeakerRef.current = {}
+    const transcribed: Array<[AudioChannel, AudioNode]> = separate
+      ? [['mic', micSource], ['system', systemSource]]
+      : [['mic', mix]]
+    for (const [channel, node] of transcribed) {
+      if (await initializeTranscription(channel)) {
+        await setupTranscriptionProcessor(ac, node, channel)
+      } else {
+        console.warn("[Transcription] Initialization failed - continuing without live transcription")
+      }
+    }
+
+    startVad(analyser, vadTunables)
+  }
+
+  // Tears down what openCapture built; the recorders and the AudioContext stay
+  const closeCapture = () => {
+    // Close live transcription streams
+    closeTranscription('mic')
+    closeTranscription('system')
+
+    // Disconnect transcription capture nodes
+    transcriptionCaptureRef.current.forEach(capture => capture.disconnect())
+    transcriptionCaptureRef.current = []
+
+    vadMonitorRef.current?.stop()
+    vadMonitorRef.current = null
+
+    captureStreamsRef.current.forEach(stream => stream.getTracks().forEach(t => t.stop()))
+    captureStreamsRef.current = []
+
+    graphNodesRef.current.forEach(node => {
+      try { node.disconnect() } catch {}
+    })
+    graphNodesRef.current = []
+    analyserRef.current = null
+  }
+
   const startRecording = async () => {
     try {
-      console.log("[VAD] Requesting microphone access...")
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
-      })
-      streamRef.current = stream
-      console.log("[VAD] Microphone access granted")
-
       audioContextRef.current = new (window.AudioContext ||
         (window as any).webkitAudioContext)()
       if (audioContextRef.current.state === "suspended") {
@@ -500,82 +696,60 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
       console.log("[VAD] AudioContext created, state:", audioContextRef.current.state)
 
       const ac = audioContextRef.current
-      const analyser = ac.createAnalyser()
-      const source = ac.createMediaStreamSource(stream)
-      source.connect(analyser)
-
-      analyserRef.current = analyser
-      sourceRef.current = source
-
-      // Initialize Deepgram connection and processor
-      console.log("[Deepgram] Attempting to initialize...")
-      const deepgramInitialized = await initializeDeepgram()
-      if (deepgramInitialized && deepgramSocketRef.current) {
-        console.log("[Deepgram] Waiting for socket to be ready...")
-        // Wait a moment for socket to be fully ready
-        setTimeout(() => {
-          if (deepgramSocketRef.current?.readyState === WebSocket.OPEN) {
-            console.log("[Deepgram] Socket is OPEN, setting up processor")
-            setupDeepgramProcessor(ac, source)
-          } else {
-            console.warn("[Deepgram] Socket state:", deepgramSocketRef.current?.readyState, "(0=CONNECTING, 1=OPEN, 2=CLOSING, 3=CLOSED)")
-          }
-        }, 500)
-      } else {
-        console.warn("[Deepgram] Initialization failed - continuing without live transcription")
-      }
+      const recording = ac.createMediaStreamDestination()
+      recordingNodeRef.current = recording
+      streamRef.current = recording.stream
+
+      await openCapture(ac, recording)
 
       stopInFlightRef.current = false
       chunks.current = []
 
-      const recorder = createMediaRecorder(stream)
+      const recorder = createMediaRecorder(recording.stream)
       recorder.start(100)
       setMediaRecorder(recorder)
 
-      noiseFloorRef.current = null
-      startMeterLoop(performance.now())
+      if (recordSessions) {
+        try {
+          startSessionRecorder(recording.stream)
+        } catch (err: any) {
+          console.error("[Session] Could not record call audio:", err)
+          addEntry('system', `Call audio is not being saved: ${err.message}`, 'system')
+        }
+      }
 
       sessionActiveRef.current = true
       console.log("[VAD] Recording started successfully")
     } catch (err: any) {
       console.error("[VAD] Could not start recording:", err)
       setAudioResults(prev => [...prev, `Microphone error: ${err.message}`])
+      closeCapture()
+      streamRef.current = null
+      recordingNodeRef.current = null
+      audioContextRef.current?.close()
+      audioContextRef.current = null
     }
   }
 
   const stopRecording = () => {
     sessionActiveRef.current = false
+    clearTimeout(deviceCheckTimerRef.current)
 
-    // Close Deepgram connection
-    if (deepgramSocketRef.current) {
-      deepgramSocketRef.current.close()
-      deepgramSocketRef.current = null
-    }
-
-    // Disconnect Deepgram processor
-    if (deepgramProcessorRef.current) {
-      deepgramProcessorRef.current.disconnect()
-      deepgramProcessorRef.current = null
-    }
-
-    if (meterRafRef.current != null) {
-      cancelAnimationFrame(meterRafRef.current)
-      meterRafRef.current = null
+    // Stopping flushes the last chunk before the tracks go away
+    const sessionRecorder = sessionRecorderRef.current
+    if (sessionRecorder && sessionRecorder.state !== "inactive") {
+      try { sessionRecorder.stop() } catch {}
     }
+    sessionRecorderRef.current = null
+    sessionAudioStartRef.current = null
     const rec = mediaRecorderRef.current
     if (rec && rec.state !== "inactive") {
       try { rec.stop() } catch {}
     }
 
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(t => t.stop())
-      streamRef.current = null
-    }
-
-    try { sourceRef.current?.disconnect() } catch {}
-    try { analyserRef.current?.disconnect() } catch {}
-    sourceRef.current = null
-    analyserRef.current = null
+    closeCapture()
+    streamRef.current = null
+    recordingNodeRef.current = null
 
     if (audioContextRef.current) {
       audioContextRef.current.close()
@@ -585,25 +759,198 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
     setCurrentVolume(0)
     setMediaRecorder(null)
     stopInFlightRef.current = false
-    isSpeakingRef.current = false
-    silenceStartRef.current = null
-    setLiveTranscription(null)
-    setDeepgramLiveText("")
-    deepgramFinalTextRef.current = ""
-    deepgramInterimTextRef.current = ""
+    // Keep the last utterance if the recorder had nothing left to send
+    flushDeepgramSegments()
+  }
+
+  // Why the capture has to follow a device change, or null if it does not: the microphone (or
+  // system audio) went away, the picked microphone is connected again or was changed, or, with
+  // no pick, the system default now points at another device
+  const deviceChangeReason = async (): Promise<string | null> => {
+    const [micStream, ...others] = captureStreamsRef.current
+    const track = micStream?.getAudioTracks()[0]
+    if (!track || track.readyState === 'ended') return 'Microphone disconnected'
+    if (others.some(stream => stream.getAudioTracks().every(t => t.readyState === 'ended'))) {
+      return 'System audio source changed'
+    }
+    const { inputs } = await listAudioDevices()
+    const captured = track.getSettings()
+    const picked = resolveDevice(inputs, audioSettingsRef.current?.inputDevice)
+    if (picked) return picked.deviceId !== captured.deviceId ? 'Microphone changed' : null
+    const systemDefault = inputs.find(device => device.deviceId === 'default')
+    if (systemDefault && captured.groupId && systemDefault.groupId !== captured.groupId) {
+      return 'Default microphone changed'
+    }
+    return null
+  }
+
+  // Swaps the capture over to the current devices; transcript, session and recordings carry on
+  const rebuildCapture = async (reason: string) => {
+    const ac = audioContextRef.current
+    const recording = recordingNodeRef.current
+    if (!sessionActiveRef.current || !ac || !recording || rebuildingCaptureRef.current) return
+    rebuildingCaptureRef.current = true
+    console.log(`[Devices] ${reason}, rebuilding the capture graph`)
+    try {
+      // Whatever was heard so far goes into the transcript before its streams are closed
+      flushDeepgramSegments()
+      closeCapture()
+      await openCapture(ac, recording)
+      if (!sessionActiveRef.current) {
+        closeCapture()
+        return
+      }
+      const label = captureStreamsRef.current[0]?.getAudioTracks()[0]?.label || 'the default microphone'
+      addEntry('system', `${reason}, now recording from ${label}`, 'system')
+    } catch (err: any) {
+      console.error("[Devices] Could not rebuild capture:", err)
+      addEntry('system', `${reason}, and no microphone could be opened: ${err.message}`, 'system')
+    } finally {
+      rebuildingCaptureRef.current = false
+    }
   }
 
+  // devicechange tends to fire several times in a row while a headset connects
+  const scheduleDeviceCheck = () => {
+    clearTimeout(deviceCheckTimerRef.current)
+    deviceCheckTimerRef.current = setTimeout(() => {
+      if (!sessionActiveRef.current) return
+      deviceChangeReason()
+        .then(reason => {
+          if (reason) return rebuildCapture(reason)
+        })
+        .catch(err => console.error("[Devices] Could not check devices:", err))
+    }, DEVICE_CHECK_DELAY_MS)
+  }
+
+  useEffect(() => {
+    if (!isRecording) return
+    navigator.mediaDevices.addEventListener('devicechange', scheduleDeviceCheck)
+    return () => navigator.mediaDevices.removeEventListener('devicechange', scheduleDeviceCheck)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRecording])
+
+  // A microphone picked during the call is switched to right away
+  useEffect(() => {
+    if (isRecording) scheduleDeviceCheck()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [audioSettings?.inputDevice?.deviceId])
+
   const handleRecordClick = async () => {
     if (!isRecording) {
       setIsRecording(true)
       setAudioResults([])
       setTranscript([])
-      setLiveTranscription(null)
+      setSpeakerNames({})
+      handleCancelResponse()
       setDeepgramLiveText("")
+      // A new recording always gets its own stored session, in the language picked for it
+      endStoredSession()
+      sessionLanguageRef.current = callLanguage
+      ensureStoredSession()
       await startRecording()
     } else {
       setIsRecording(false)
       stopRecording()
+      const endedId = await endStoredSession()
+      if (endedId && transcript.length > 0) {
+        setSummarySessionId(null)
+        setReviewSessionId(endedId)
+      }
+    }
+  }
+
+  // Ends the call for good: stops audio, closes the stored session and summarizes it
+  const handleFinishCall = async () => {
+    if (isRecording) {
+      setIsRecording(false)
+      stopRecording()
+    }
+    handleCancelResponse()
+    const endedId = (await endStoredSession()) ?? lastEndedSessionRef.current
+    if (!endedId) return
+    setCallFinished(true)
+    setReviewSessionId(null)
+    setSummarySessionId(endedId)
+  }
+
+  // Transcribes a recorded call into its own session, then shows it and its summary like a
+  // live call that was just finished
+  const handleImportRecording = async (filePath: string) => {
+    if (isRecording || importIdRef.current) return
+    const importId = crypto.randomUUID()
+    importIdRef.current = importId
+    importCancelledRef.current = false
+    setImportError(null)
+    setImportProgress({ stage: 'convert', completed: 0, total: 0 })
+    const unsubscribe = window.electronAPI.onImportProgress(importId, setImportProgress)
+    try {
+      const { sessionId } = await window.electronAPI.importRecording(importId, filePath, callLanguage)
+      const session = await window.electronAPI.getSession(sessionId)
+      handleCancelResponse()
+      await endStoredSession()
+      lastEndedSessionRef.current = sessionId
+      setTranscript(session.entries)
+      setSpeakerNames(session.speakerNames)
+      setAudioResults([])
+      setDeepgramLiveText("")
+      setCallFinished(true)
+      setReviewSessionId(null)
+      setSummarySessionId(sessionId)
+    } catch (err: any) {
+      console.error("[Import] Could not import recording:", err)
+      if (!importCancelledRef.current) {
+        setImportError(err?.message ?? String(err))
+      }
+    } finally {
+      unsubscribe()
+      importIdRef.current = null
+      setImportProgress(null)
+    }
+  }
+
+  const handlePickRecording = async () => {
+    const filePath = await window.electronAPI.pickRecording()
+    if (filePath) await handleImportRecording(filePath)
+  }
+
+  const handleCancelImport = () => {
+    if (!importIdRef.current) return
+    importCancelledRef.current = true
+    window.electronAPI.cancelImport(importIdRef.current)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDraggingFile(false)
+    const file = e.dataTransfer.files[0]
+    if (file) handleImportRecording(window.electronAPI.getPathForFile(file))
+  }
+
+  const handleSystemAudioChange = async (mode: SystemAudioMode) => {
+    try {
+      const updated = await window.electronAPI.updateAudioSettings({ systemAudio: mode })
+      queryClient.setQueryData(["audio-settings"], updated)
+    } catch (err) {
+      console.error("[SystemAudio] Could not save setting:", err)
+    }
+  }
+
+  const handleRecordSessionsChange = async (enabled: boolean) => {
+    try {
+      const updated = await window.electronAPI.updateAudioSettings({ recordSessions: enabled })
+      queryClient.setQueryData(["audio-settings"], updated)
+    } catch (err) {
+      console.error("[Session] Could not save setting:", err)
+    }
+  }
+
+  const handleCallLanguageChange = async (language: string) => {
+    try {
+      const updated = await window.electronAPI.updateLanguageSettings({ callLanguage: language })
+      queryClient.setQueryData(["language-settings"], updated)
+    } catch (err) {
+      console.error("[Language] Could not save setting:", err)
     }
   }
 
@@ -623,36 +970,21 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
 
   const handleSendMessage = () => {
     if (messageInput.trim()) {
-      const timestamp = new Date().toLocaleTimeString('en-US', { 
-        hour: 'numeric', 
-        minute: '2-digit',
-        hour12: true 
-      })
-      setTranscript(prev => [...prev, {
-        type: 'question',
-        text: messageInput,
-        timestamp
-      }])
+      const message = messageInput
+      addEntry('question', message, 'user')
       setMessageInput("")
-      // Simulate a response
-      setTimeout(() => {
-        simulateLiveTranscription("I understand your message. Let me help you with that.")
-      }, 1000)
+      streamResponse(requestId => window.electronAPI.streamChat(requestId, message, currentLanguageOptions()))
     }
   }
 
   useEffect(() => {
     return () => {
       if (isRecording) stopRecording()
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current)
-      }
-      if (transcriptionTimeoutRef.current) {
-        clearTimeout(transcriptionTimeoutRef.current)
-      }
-      if (deepgramSocketRef.current) {
-        deepgramSocketRef.current.close()
+      if (activeStreamIdRef.current) {
+        window.electronAPI.cancelLLMStream(activeStreamIdRef.current)
       }
+      closeTranscription('mic')
+      closeTranscription('system')
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
@@ -695,7 +1027,11 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
 
           <div className="flex items-center gap-4">
             {/* Control buttons - make them non-draggable */}
-            <button className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag">
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Audio Devices"
+              onClick={() => setShowDevicePicker(!showDevicePicker)}
+            >
               <FiHeadphones className="w-4 h-4" />
             </button>
             <button 
@@ -704,7 +1040,74 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
             >
               <FiMessageSquare className="w-4 h-4" />
             </button>
-            <button className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag">
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Session History"
+              onClick={() => setShowHistory(!showHistory)}
+            >
+              <FiClock className="w-4 h-4" />
+            </button>
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Tasks"
+              onClick={() => setShowTasks(!showTasks)}
+            >
+              <FiCheckSquare className="w-4 h-4" />
+            </button>
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Contacts & Accounts"
+              onClick={() => onOpenView("crm")}
+            >
+              <FiUsers className="w-4 h-4" />
+            </button>
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Deal Pipeline"
+              onClick={() => onOpenView("pipeline")}
+            >
+              <FiColumns className="w-4 h-4" />
+            </button>
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Voice Detection"
+              onClick={() => setShowVadSettings(!showVadSettings)}
+            >
+              <FiActivity className="w-4 h-4" />
+            </button>
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Languages"
+              onClick={() => setShowLanguageSettings(!showLanguageSettings)}
+            >
+              <FiGlobe className="w-4 h-4" />
+            </button>
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Search Screenshots"
+              onClick={() => setShowScreenshotSearch(!showScreenshotSearch)}
+            >
+              <FiSearch className="w-4 h-4" />
+            </button>
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Redaction"
+              onClick={() => setShowRedactionSettings(!showRedactionSettings)}
+            >
+              <FiShield className="w-4 h-4" />
+            </button>
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Screenshot Retention"
+              onClick={() => setShowScreenshotRetention(!showScreenshotRetention)}
+            >
+              <FiArchive className="w-4 h-4" />
+            </button>
+            <button
+              className="text-gray-400/80 hover:text-white transition-colors p-2 no-drag"
+              title="Pipeline Stages"
+              onClick={() => setShowStageSettings(!showStageSettings)}
+            >
               <FiSettings className="w-4 h-4" />
             </button>
             <div className="w-px h-6 bg-gray-700/50" />
@@ -721,8 +1124,17 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
 
       {/* Main Content Area */}
       <div className="flex-1 flex overflow-hidden">
-        {/* Chat/Transcript Area */}
-        <div className="flex-1 flex flex-col bg-black/10 backdrop-blur-sm">
+        {/* Chat/Transcript Area, also the drop target for call recordings */}
+        <div
+          className={`flex-1 flex flex-col bg-black/10 backdrop-blur-sm ${isDraggingFile ? 'ring-2 ring-inset ring-blue-500/60' : ''}`}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return
+            e.preventDefault()
+            setIsDraggingFile(true)
+          }}
+          onDragLeave={() => setIsDraggingFile(false)}
+          onDrop={handleDrop}
+        >
           <div className="flex-1 overflow-y-auto p-6">
             <div className="max-w-4xl mx-auto space-y-4">
               {/* Sample initial messages */}
@@ -748,8 +1160,21 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
                         : 'bg-gray-800/30 backdrop-blur-md text-gray-200 border border-gray-700/50'
                     }`}>
                       <p className="text-sm leading-relaxed">{entry.text}</p>
+                      {entry.translation && (
+                        <p className="mt-1.5 pt-1.5 border-t border-white/20 text-xs italic leading-relaxed text-white/80">
+                          {entry.translation.text}
+                        </p>
+                      )}
                     </div>
                     <div className="flex items-center gap-2 mt-1 px-2">
+                      {entry.speaker && (
+                        <SpeakerLabel
+                          label={entry.speaker}
+                          name={speakerNames[entry.speaker]}
+                          onRename={handleRenameSpeaker}
+                          className={entry.type === 'interviewer' ? 'text-pink-300/80' : 'text-blue-300/80'}
+                        />
+                      )}
                       <span className="text-[10px] text-gray-500">{entry.timestamp}</span>
                     </div>
                   </div>
@@ -775,21 +1200,27 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
                 </div>
               )}
 
-              {/* Live Transcription (AI Response) */}
-              {liveTranscription && (
+              {/* Streaming AI Response */}
+              {streamingResponse && (
                 <div className="flex justify-start">
                   <div className="max-w-2xl">
                     <div className="rounded-2xl px-4 py-3 bg-gradient-to-r from-orange-500/15 to-yellow-500/15 backdrop-blur-md text-orange-200 border border-orange-500/20 shadow-xl">
                       <div className="flex items-start gap-2">
                         <div className="w-2 h-2 bg-orange-400 rounded-full animate-pulse mt-1.5 flex-shrink-0" />
                         <p className="text-sm leading-relaxed">
-                          {liveTranscription.displayedText}
-                          {liveTranscription.currentIndex < liveTranscription.fullText.length && (
-                            <span className="inline-block w-0.5 h-4 bg-orange-400 animate-pulse ml-0.5" />
-                          )}
+                          {streamingResponse.text || <span className="text-orange-300/60">Thinking...</span>}
+                          <span className="inline-block w-0.5 h-4 bg-orange-400 animate-pulse ml-0.5" />
                         </p>
                       </div>
                     </div>
+                    <div className="flex items-center gap-2 mt-1 px-2">
+                      <button
+                        onClick={handleCancelResponse}
+                        className="text-[10px] text-gray-500 hover:text-orange-300 transition-colors"
+                      >
+                        Stop generating
+                      </button>
+                    </div>
                   </div>
                 </div>
               )}
@@ -814,6 +1245,44 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
                   {isRecording ? <BsStopCircle className="w-5 h-5" /> : <BsRecordCircle className="w-5 h-5" />}
                 </button>
 
+                <select
+                  value={systemAudio}
+                  onChange={(e) => handleSystemAudioChange(e.target.value as SystemAudioMode)}
+                  disabled={isRecording}
+                  title={isRecording ? "Stop recording to change audio sources" : "Audio sources"}
+                  className="px-2 py-2 bg-gray-800/40 backdrop-blur-md border border-gray-700/50 rounded-full text-xs text-gray-300 focus:outline-none disabled:opacity-50"
+                >
+                  <option value="off">Mic only</option>
+                  <option value="mixed">Mic + system audio</option>
+                  <option value="separate">Mic + system audio (separate)</option>
+                </select>
+
+                <select
+                  value={callLanguage}
+                  onChange={(e) => handleCallLanguageChange(e.target.value)}
+                  disabled={isRecording}
+                  title={isRecording ? "Stop recording to change the call language" : "Language of the call"}
+                  className="px-2 py-2 bg-gray-800/40 backdrop-blur-md border border-gray-700/50 rounded-full text-xs text-gray-300 focus:outline-none disabled:opacity-50"
+                >
+                  {[AUTO_LANGUAGE, ...LANGUAGES].map(code => (
+                    <option key={code} value={code}>{languageLabel(code)}</option>
+                  ))}
+                </select>
+
+                <label
+                  title={isRecording ? "Stop recording to change this" : "Keep the call audio with the session for playback"}
+                  className={`flex items-center gap-1.5 text-xs text-gray-300 ${isRecording ? 'opacity-50' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={recordSessions}
+                    onChange={(e) => handleRecordSessionsChange(e.target.checked)}
+                    disabled={isRecording}
+                    className="accent-blue-500"
+                  />
+                  Save call audio
+                </label>
+
                 {isRecording && (
                   <>
                     <VolumeMeter />
@@ -826,6 +1295,17 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
                   </>
                 )}
 
+                {transcript.length > 0 && !callFinished && (
+                  <button
+                    onClick={handleFinishCall}
+                    title="Finish call and summarize"
+                    className="px-4 py-2 rounded-full bg-gray-800/40 hover:bg-green-600/60 backdrop-blur-md text-gray-200 text-sm font-medium transition-all shadow-lg flex items-center gap-2"
+                  >
+                    <FiFlag className="w-4 h-4" />
+                    Finish call
+                  </button>
+                )}
+
                 {/* Text Input */}
                 <div className="flex-1 relative">
                   <input
@@ -846,7 +1326,18 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
 
                 {/* Additional Controls */}
                 <div className="flex items-center gap-2">
-                  <button className="p-2 text-gray-400 hover:text-white transition-colors">
+                  <button
+                    onClick={handlePickRecording}
+                    disabled={isRecording || importProgress !== null}
+                    title="Import a call recording (or drop one here)"
+                    className="p-2 text-gray-400 hover:text-white transition-colors disabled:opacity-50"
+                  >
+                    <FiUpload className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => setShowDevicePicker(!showDevicePicker)}
+                    className="p-2 text-gray-400 hover:text-white transition-colors"
+                  >
                     <FiHeadphones className="w-5 h-5" />
                   </button>
                   <button 
@@ -862,7 +1353,38 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
               {isRecording && (
                 <div className="mt-3 flex items-center justify-center gap-2">
                   <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
-                  <span className="text-xs text-gray-400">Recording... Live transcription active • VAD will auto-send after 1.5s of silence</span>
+                  <span className="text-xs text-gray-400">Recording... Live transcription active • VAD will auto-send after {((vadSettings?.silenceMs ?? 1500) / 1000).toFixed(1)}s of silence</span>
+                </div>
+              )}
+
+              {/* Import Status */}
+              {importProgress && (
+                <div className="mt-3 flex items-center justify-center gap-3">
+                  <span className="text-xs text-gray-400">
+                    {importProgress.stage === 'convert'
+                      ? 'Preparing recording...'
+                      : `Transcribing recording... ${importProgress.completed}/${importProgress.total}`}
+                  </span>
+                  <div className="w-40 h-1 rounded-full bg-gray-700/60 overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500/80 transition-all"
+                      style={{ width: `${importProgress.total ? (importProgress.completed / importProgress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <button
+                    onClick={handleCancelImport}
+                    className="text-[10px] text-gray-500 hover:text-orange-300 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+              {importError && !importProgress && (
+                <div className="mt-3 flex items-center justify-center gap-2">
+                  <span className="text-xs text-red-400">{importError}</span>
+                  <button onClick={() => setImportError(null)} className="text-gray-500 hover:text-white">
+                    <AiOutlineClose className="w-3 h-3" />
+                  </button>
                 </div>
               )}
             </div>
@@ -931,6 +1453,56 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
             </div>
           </div>
         )}
+
+        {showHistory && (
+          <SessionHistory
+            activeSessionId={activeSessionId}
+            onClose={() => setShowHistory(false)}
+            onDraftEmail={(sessionId) => {
+              setShowHistory(false)
+              setEmailSessionId(sessionId)
+            }}
+          />
+        )}
+        {showStageSettings && <StageSettings onClose={() => setShowStageSettings(false)} />}
+        {showDevicePicker && <DevicePicker onClose={() => setShowDevicePicker(false)} />}
+        {showVadSettings && <VadSettings onClose={() => setShowVadSettings(false)} />}
+        {showLanguageSettings && <LanguageSettings onClose={() => setShowLanguageSettings(false)} />}
+        {showScreenshotSearch && <ScreenshotSearch onClose={() => setShowScreenshotSearch(false)} />}
+        {showRedactionSettings && (
+          <RedactionSettings screenshots={screenshots} onClose={() => setShowRedactionSettings(false)} />
+        )}
+        {showScreenshotRetention && <ScreenshotRetention onClose={() => setShowScreenshotRetention(false)} />}
+        {showTasks && <TaskList onClose={() => setShowTasks(false)} />}
+        {summarySessionId && (
+          <FinishCallPanel
+            key={summarySessionId}
+            sessionId={summarySessionId}
+            onClose={() => setSummarySessionId(null)}
+            onReviewCrm={() => {
+              setReviewSessionId(summarySessionId)
+              setSummarySessionId(null)
+            }}
+            onDraftEmail={() => {
+              setEmailSessionId(summarySessionId)
+              setSummarySessionId(null)
+            }}
+          />
+        )}
+        {emailSessionId && (
+          <FollowUpEmail
+            key={emailSessionId}
+            sessionId={emailSessionId}
+            onClose={() => setEmailSessionId(null)}
+          />
+        )}
+        {reviewSessionId && (
+          <ExtractionReview
+            key={reviewSessionId}
+            sessionId={reviewSessionId}
+            onClose={() => setReviewSessionId(null)}
+          />
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react"
+import { useQuery, useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { ScreenshotSettings } from "../../types/screenshot"
+
+interface ScreenshotRetentionProps {
+  onClose: () => void
+}
+
+const FIELDS: Array<{ key: keyof ScreenshotSettings; label: string; hint?: string }> = [
+  { key: "maxQueued", label: "Screenshots per queue" },
+  { key: "maxAgeDays", label: "Delete after (days)", hint: "0 keeps them" },
+  { key: "maxFiles", label: "Most screenshots kept", hint: "0 for no limit" },
+  { key: "maxTotalMb", label: "Most disk space (MB)", hint: "0 for no limit" }
+]
+
+const ScreenshotRetention: React.FC<ScreenshotRetentionProps> = ({ onClose }) => {
+  const queryClient = useQueryClient()
+  const [error, setError] = useState<string | null>(null)
+  const { data: settings } = useQuery(["screenshot-settings"], () => window.electronAPI.getScreenshotSettings())
+
+  // Edited as text and saved when the field loses focus
+  const [draft, setDraft] = useState<Record<string, string>>({})
+  useEffect(() => {
+    if (!settings) return
+    setDraft(Object.fromEntries(Object.entries(settings).map(([key, value]) => [key, String(value)])))
+  }, [settings])
+
+  const save = async (key: keyof ScreenshotSettings) => {
+    if (!settings || draft[key] === String(settings[key])) return
+    try {
+      const saved = await window.electronAPI.updateScreenshotSettings({ [key]: Number(draft[key]) })
+      queryClient.setQueryData(["screenshot-settings"], saved)
+      setError(null)
+      // Lower limits may have removed queued screenshots
+      queryClient.invalidateQueries(["screenshots"])
+      queryClient.invalidateQueries(["extras"])
+    } catch (err: any) {
+      setError(err?.message ?? String(err))
+      setDraft(current => ({ ...current, [key]: String(settings[key]) }))
+    }
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Screenshot Retention</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      {settings && (
+        <div className="space-y-3">
+          {FIELDS.map(({ key, label, hint }) => (
+            <label key={key} className="flex items-center justify-between gap-2 text-xs text-gray-300">
+              <span>
+                {label}
+                {hint && <span className="block text-[10px] text-gray-500">{hint}</span>}
+              </span>
+              <input
+                type="number"
+                min={key === "maxQueued" ? 1 : 0}
+                value={draft[key] ?? ""}
+                onChange={(e) => setDraft(current => ({ ...current, [key]: e.target.value }))}
+                onBlur={() => save(key)}
+                className="w-20 px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-xs text-gray-200 focus:outline-none"
+              />
+            </label>
+          ))}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <p className="text-[10px] text-gray-500">
+            Queued screenshots are kept across restarts. When a queue is full the oldest screenshot is
+            dropped; the other limits apply to both queues together.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ScreenshotRetention
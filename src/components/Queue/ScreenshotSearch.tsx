@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from "react"
+import { AiOutlineClose } from "react-icons/ai"
+import { ScreenshotMatch } from "../../types/screenshot"
+
+interface ScreenshotSearchProps {
+  onClose: () => void
+}
+
+// Waits for a pause in typing; screenshots that have not been read yet are OCR'd on the first search
+const SEARCH_DELAY_MS = 300
+
+// Outlines the matching lines on the screenshot; boxes are in image pixels
+const MatchPreview: React.FC<{ match: ScreenshotMatch }> = ({ match }) => {
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null)
+  return (
+    <div className="relative">
+      <img
+        src={match.preview}
+        alt="Screenshot"
+        className="w-full rounded"
+        onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+      />
+      {size && match.lines.map((line, index) => (
+        <div
+          key={index}
+          className="absolute border border-yellow-400 bg-yellow-300/20"
+          style={{
+            left: `${(line.box.x / size.width) * 100}%`,
+            top: `${(line.box.y / size.height) * 100}%`,
+            width: `${(line.box.width / size.width) * 100}%`,
+            height: `${(line.box.height / size.height) * 100}%`
+          }}
+        />
+      ))}
+    </div>
+  )
+}
+
+const ScreenshotSearch: React.FC<ScreenshotSearchProps> = ({ onClose }) => {
+  const [query, setQuery] = useState("")
+  const [matches, setMatches] = useState<ScreenshotMatch[] | null>(null)
+  const [searching, setSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setMatches(null)
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const found = await window.electronAPI.searchScreenshots(query)
+        if (!cancelled) {
+          setMatches(found)
+          setError(null)
+        }
+      } catch (err: any) {
+        if (!cancelled) setError(err?.message ?? String(err))
+      } finally {
+        if (!cancelled) setSearching(false)
+      }
+    }, SEARCH_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query])
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Search Screenshots</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Text on a screenshot..."
+        autoFocus
+        className="w-full px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none"
+      />
+
+      <div className="flex-1 overflow-y-auto mt-3 space-y-4">
+        {searching && <p className="text-xs text-gray-500">Reading screenshots...</p>}
+        {!searching && matches?.length === 0 && <p className="text-xs text-gray-500">No screenshot contains that text</p>}
+        {matches?.map(match => (
+          <div key={match.path} className="space-y-1">
+            <MatchPreview match={match} />
+            {match.lines.map((line, index) => (
+              <p key={index} className="text-xs text-gray-300 truncate" title={line.text}>
+                {line.text}
+              </p>
+            ))}
+          </div>
+        ))}
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    </div>
+  )
+}
+
+export default ScreenshotSearch
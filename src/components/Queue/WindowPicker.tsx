@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from "react"
+import { AiOutlineClose } from "react-icons/ai"
+import { CaptureWindow } from "../../types/screenshot"
+
+interface WindowPickerProps {
+  onClose: () => void
+}
+
+// Lists the open windows; clicking one captures just that window
+const WindowPicker: React.FC<WindowPickerProps> = ({ onClose }) => {
+  const [windows, setWindows] = useState<CaptureWindow[] | null>(null)
+  const [capturing, setCapturing] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.electronAPI
+      .listCaptureWindows()
+      .then(setWindows)
+      .catch((err: any) => setError(err?.message ?? String(err)))
+  }, [])
+
+  const capture = async (sourceId: string) => {
+    setCapturing(sourceId)
+    setError(null)
+    try {
+      await window.electronAPI.captureWindow(sourceId)
+      onClose()
+    } catch (err: any) {
+      setError(err?.message ?? String(err))
+    } finally {
+      setCapturing(null)
+    }
+  }
+
+  return (
+    <div className="mt-2 w-[32rem] p-4 bg-black/60 backdrop-blur-md rounded-lg border border-white/10">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white text-sm font-semibold">Capture a window</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!windows && !error && <p className="text-xs text-gray-500">Looking for open windows...</p>}
+      {windows && windows.length === 0 && <p className="text-xs text-gray-500">No other windows are open</p>}
+      {windows && windows.length > 0 && (
+        <div className="grid grid-cols-3 gap-2 max-h-72 overflow-y-auto">
+          {windows.map(item => (
+            <button
+              key={item.id}
+              onClick={() => capture(item.id)}
+              disabled={capturing !== null}
+              title={item.name}
+              className="p-1 rounded border border-gray-700/50 hover:border-blue-500/70 bg-gray-900/40 text-left disabled:opacity-50"
+            >
+              <img src={item.thumbnail} alt="" className="w-full h-20 object-contain bg-black/40 rounded" />
+              <p className="mt-1 text-[10px] text-gray-300 truncate">
+                {capturing === item.id ? "Capturing..." : item.name}
+              </p>
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  )
+}
+
+export default WindowPicker
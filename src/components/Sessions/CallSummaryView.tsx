@@ -0,0 +1,44 @@
+import React from "react"
+import { CallSummary } from "../../types/session"
+
+interface CallSummaryViewProps {
+  summary: CallSummary
+}
+
+const Section: React.FC<{ title: string; items: string[] }> = ({ title, items }) =>
+  items.length === 0 ? null : (
+    <div>
+      <p className="text-[11px] uppercase tracking-wide text-gray-500 mb-1">{title}</p>
+      <ul className="space-y-1">
+        {items.map((item, index) => (
+          <li key={index} className="text-xs text-gray-200 leading-relaxed">
+            • {item}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+
+const CallSummaryView: React.FC<CallSummaryViewProps> = ({ summary }) => (
+  <div className="space-y-3">
+    <div className="p-3 bg-blue-600/10 border border-blue-500/20 rounded-lg">
+      <p className="text-[11px] uppercase tracking-wide text-blue-300/80 mb-1">TL;DR</p>
+      <p className="text-sm text-gray-100 leading-relaxed">{summary.tldr}</p>
+    </div>
+    <Section title="Key points" items={summary.key_points} />
+    <Section title="Objections" items={summary.objections} />
+    <Section title="We committed to" items={summary.commitments.rep} />
+    <Section title="They committed to" items={summary.commitments.prospect} />
+    <Section
+      title="Action items"
+      items={summary.action_items.map(
+        (item) =>
+          `${item.title}${item.owner ? ` (${item.owner})` : ""}${
+            item.due_date ? ` — due ${item.due_date}` : ""
+          }`
+      )}
+    />
+  </div>
+)
+
+export default CallSummaryView
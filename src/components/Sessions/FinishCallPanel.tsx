@@ -0,0 +1,80 @@
+import React from "react"
+import { useQuery, useQueryClient } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import CallSummaryView from "./CallSummaryView"
+
+interface FinishCallPanelProps {
+  sessionId: string
+  onClose: () => void
+  onReviewCrm: () => void
+  onDraftEmail: () => void
+}
+
+const FinishCallPanel: React.FC<FinishCallPanelProps> = ({
+  sessionId,
+  onClose,
+  onReviewCrm,
+  onDraftEmail
+}) => {
+  const queryClient = useQueryClient()
+  const { data, error, isLoading, refetch } = useQuery(
+    ["call-summary", sessionId],
+    () => window.electronAPI.finishSession(sessionId),
+    {
+      retry: false,
+      onSuccess: () => queryClient.invalidateQueries(["tasks"])
+    }
+  )
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Call Summary</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <p className="text-xs text-gray-500 text-center py-8 animate-pulse">Summarizing the call...</p>
+        ) : error ? (
+          <div className="text-center py-8 space-y-2">
+            <p className="text-xs text-red-400">{(error as Error).message}</p>
+            <button onClick={() => refetch()} className="text-xs text-gray-400 hover:text-white">
+              Try again
+            </button>
+          </div>
+        ) : data ? (
+          <CallSummaryView summary={data.summary} />
+        ) : null}
+      </div>
+
+      {data && (
+        <div className="pt-3 border-t border-gray-800/50 space-y-2">
+          <p className="text-[11px] text-gray-500">
+            {data.tasks.length === 0
+              ? "No action items to track"
+              : `${data.tasks.length} action item${data.tasks.length === 1 ? "" : "s"} added to your tasks`}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={onReviewCrm}
+              className="flex-1 px-3 py-1.5 bg-blue-600/60 hover:bg-blue-700/70 rounded text-white text-sm"
+            >
+              Review CRM updates
+            </button>
+            <button
+              onClick={onDraftEmail}
+              className="flex-1 px-3 py-1.5 bg-gray-700/50 hover:bg-gray-600/60 rounded text-white text-sm"
+            >
+              Draft follow-up
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FinishCallPanel
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from "react"
+import { useQuery } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { FiRefreshCw } from "react-icons/fi"
+import {
+  EmailAccountDetails,
+  EmailDraft,
+  EmailSection,
+  EmailTemplateId
+} from "../../types/email"
+
+interface FollowUpEmailProps {
+  sessionId: string
+  onClose: () => void
+}
+
+const SECTIONS: Array<{ key: EmailSection; label: string; rows: number }> = [
+  { key: "subject", label: "Subject", rows: 1 },
+  { key: "opening", label: "Opening", rows: 2 },
+  { key: "body", label: "Body", rows: 6 },
+  { key: "call_to_action", label: "Call to action", rows: 2 },
+  { key: "closing", label: "Closing", rows: 2 }
+]
+
+const inputClass =
+  "w-full px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-xs text-gray-200 focus:outline-none focus:border-blue-500/70"
+
+const FollowUpEmail: React.FC<FollowUpEmailProps> = ({ sessionId, onClose }) => {
+  const [account, setAccount] = useState<EmailAccountDetails>({
+    name: "",
+    email: "",
+    company: "",
+    stage: ""
+  })
+  const [templateId, setTemplateId] = useState<EmailTemplateId>("recap")
+  const [draft, setDraft] = useState<EmailDraft | null>(null)
+  const [busy, setBusy] = useState<EmailSection | "draft" | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+
+  const { data: templates = [] } = useQuery(["email-templates"], () =>
+    window.electronAPI.getEmailTemplates()
+  )
+
+  // Prefill from the contact this call is linked to, if any
+  useEffect(() => {
+    let cancelled = false
+    const prefill = async () => {
+      const contactId = await window.electronAPI.crmGetSessionContact(sessionId)
+      if (!contactId) return
+      const [contacts, companies, deals, stages] = await Promise.all([
+        window.electronAPI.crmList("contacts"),
+        window.electronAPI.crmList("companies"),
+        window.electronAPI.crmList("deals"),
+        window.electronAPI.crmGetStages()
+      ])
+      const contact = contacts.find((c) => c.id === contactId)
+      if (!contact || cancelled) return
+      const deal = deals.find((d) => d.contactId === contactId)
+      setAccount({
+        name: contact.name,
+        email: contact.email,
+        company: companies.find((c) => c.id === contact.companyId)?.name ?? "",
+        stage: stages.find((s) => s.id === deal?.stage)?.name ?? ""
+      })
+    }
+    prefill().catch((error) => console.error("Error prefilling account details:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId])
+
+  const run = async (label: EmailSection | "draft", task: () => Promise<void>) => {
+    setBusy(label)
+    setStatus(null)
+    try {
+      await task()
+    } catch (error: any) {
+      setStatus(error?.message ?? String(error))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleGenerate = () =>
+    run("draft", async () => {
+      setDraft(await window.electronAPI.draftFollowUpEmail(sessionId, account, templateId))
+    })
+
+  const handleRegenerate = (section: EmailSection) =>
+    run(section, async () => {
+      if (!draft) return
+      const text = await window.electronAPI.regenerateEmailSection(
+        sessionId,
+        account,
+        templateId,
+        draft,
+        section
+      )
+      setDraft((current) => (current ? { ...current, [section]: text } : current))
+    })
+
+  const handleCopy = async (format: "text" | "html") => {
+    if (!draft) return
+    await window.electronAPI.copyEmail(draft, format)
+    setStatus(format === "html" ? "Copied as HTML" : "Copied as plain text")
+  }
+
+  const handleExport = async () => {
+    if (!draft) return
+    const to = account.email ? (account.name ? `${account.name} <${account.email}>` : account.email) : ""
+    const savedPath = await window.electronAPI.exportEmailEml(draft, to)
+    if (savedPath) setStatus(`Saved to ${savedPath}`)
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Follow-up Email</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3">
+        <div className="grid grid-cols-2 gap-2">
+          {(["name", "email", "company", "stage"] as const).map((field) => (
+            <input
+              key={field}
+              value={account[field]}
+              onChange={(e) => setAccount({ ...account, [field]: e.target.value })}
+              placeholder={field[0].toUpperCase() + field.slice(1)}
+              className={inputClass}
+            />
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value as EmailTemplateId)}
+            className={inputClass}
+          >
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleGenerate}
+            disabled={busy !== null}
+            className="px-3 py-1 bg-blue-600/60 hover:bg-blue-700/70 rounded text-white text-xs whitespace-nowrap disabled:opacity-50"
+          >
+            {busy === "draft" ? "Drafting..." : draft ? "Redraft" : "Draft email"}
+          </button>
+        </div>
+
+        {draft &&
+          SECTIONS.map((section) => (
+            <div key={section.key}>
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-[11px] text-gray-400">{section.label}</span>
+                <button
+                  title={`Regenerate ${section.label.toLowerCase()}`}
+                  onClick={() => handleRegenerate(section.key)}
+                  disabled={busy !== null}
+                  className="p-0.5 text-gray-500 hover:text-white disabled:opacity-50"
+                >
+                  <FiRefreshCw className={`w-3 h-3 ${busy === section.key ? "animate-spin" : ""}`} />
+                </button>
+              </div>
+              <textarea
+                rows={section.rows}
+                value={draft[section.key]}
+                onChange={(e) => setDraft({ ...draft, [section.key]: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          ))}
+      </div>
+
+      <div className="pt-3 border-t border-gray-800/50 space-y-2">
+        {status && <p className="text-[11px] text-gray-400 break-all">{status}</p>}
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleCopy("text")}
+            disabled={!draft}
+            className="flex-1 px-2 py-1.5 bg-gray-700/50 hover:bg-gray-600/60 rounded text-white text-xs disabled:opacity-50"
+          >
+            Copy text
+          </button>
+          <button
+            onClick={() => handleCopy("html")}
+            disabled={!draft}
+            className="flex-1 px-2 py-1.5 bg-gray-700/50 hover:bg-gray-600/60 rounded text-white text-xs disabled:opacity-50"
+          >
+            Copy HTML
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!draft}
+            className="flex-1 px-2 py-1.5 bg-blue-600/60 hover:bg-blue-700/70 rounded text-white text-xs disabled:opacity-50"
+          >
+            Export .eml
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default FollowUpEmail
@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from "react"
+import { useQuery } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { FiArrowLeft, FiEdit2, FiMail, FiTrash2 } from "react-icons/fi"
+import { CallSession } from "../../types/session"
+import CallSummaryView from "./CallSummaryView"
+import SessionPlayer from "./SessionPlayer"
+import SpeakerLabel from "./SpeakerLabel"
+
+interface SessionHistoryProps {
+  activeSessionId: string | null // the call being recorded, which cannot be deleted
+  onClose: () => void
+  onDraftEmail: (sessionId: string) => void
+}
+
+const formatDuration = (startedAt: number, endedAt: number | null) => {
+  if (!endedAt) return "In progress"
+  const seconds = Math.max(0, Math.round((endedAt - startedAt) / 1000))
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ activeSessionId, onClose, onDraftEmail }) => {
+  const [openSession, setOpenSession] = useState<CallSession | null>(null)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null)
+  const playerRef = useRef<HTMLAudioElement>(null)
+  const entryRefs = useRef<Array<HTMLDivElement | null>>([])
+
+  // The line being played is the last one that started at or before the playback position
+  let activeEntry = -1
+  if (openSession?.recording && playbackTime != null) {
+    openSession.entries.forEach((entry, index) => {
+      if (entry.audio && entry.audio.start <= playbackTime) activeEntry = index
+    })
+  }
+
+  useEffect(() => {
+    if (activeEntry >= 0) entryRefs.current[activeEntry]?.scrollIntoView({ behavior: "smooth", block: "nearest" })
+  }, [activeEntry])
+
+  useEffect(() => setPlaybackTime(null), [openSession?.id])
+
+  const handleSeek = (seconds: number) => {
+    const audio = playerRef.current
+    if (!audio) return
+    audio.currentTime = seconds
+    audio.play().catch(err => console.error("Could not play call audio:", err))
+  }
+
+  const { data: sessions = [], isLoading, refetch } = useQuery(
+    ["sessions"],
+    () => window.electronAPI.listSessions(),
+    { staleTime: 0, cacheTime: 0 }
+  )
+
+  const handleOpen = async (id: string) => {
+    try {
+      setOpenSession(await window.electronAPI.getSession(id))
+    } catch (error) {
+      console.error("Error opening session:", error)
+    }
+  }
+
+  const handleRename = async (id: string) => {
+    const title = renameValue.trim()
+    setRenamingId(null)
+    if (!title) return
+    await window.electronAPI.renameSession(id, title)
+    if (openSession?.id === id) setOpenSession({ ...openSession, title })
+    refetch()
+  }
+
+  const handleRenameSpeaker = async (label: string, name: string) => {
+    if (!openSession) return
+    await window.electronAPI.setSpeakerName(openSession.id, label, name)
+    const speakerNames = { ...openSession.speakerNames }
+    if (name) speakerNames[label] = name
+    else delete speakerNames[label]
+    setOpenSession({ ...openSession, speakerNames })
+  }
+
+  const handleDelete = async (id: string) => {
+    if (id === activeSessionId) return
+    if (!window.confirm("Delete this session and its transcript?")) return
+    const response = await window.electronAPI.deleteSession(id)
+    if (!response.success) {
+      console.error("Failed to delete session:", response.error)
+      return
+    }
+    if (openSession?.id === id) setOpenSession(null)
+    refetch()
+  }
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 min-w-0">
+          {openSession && (
+            <button
+              onClick={() => setOpenSession(null)}
+              className="text-gray-400 hover:text-white"
+            >
+              <FiArrowLeft className="w-4 h-4" />
+            </button>
+          )}
+          <h3 className="text-white font-semibold truncate">
+            {openSession ? openSession.title : "Session History"}
+          </h3>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {openSession && (
+            <button
+              title="Draft follow-up email"
+              onClick={() => onDraftEmail(openSession.id)}
+              className="text-gray-400 hover:text-white"
+            >
+              <FiMail className="w-4 h-4" />
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <AiOutlineClose className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2">
+        {openSession ? (
+          <>
+            {openSession.summary && (
+              <div className="pb-3 mb-1 border-b border-gray-800/50">
+                <CallSummaryView summary={openSession.summary} />
+              </div>
+            )}
+            {openSession.recording && (
+              <div className="pb-3 mb-1 border-b border-gray-800/50">
+                <SessionPlayer
+                  ref={playerRef}
+                  sessionId={openSession.id}
+                  recording={openSession.recording}
+                  onTimeUpdate={setPlaybackTime}
+                />
+              </div>
+            )}
+            {openSession.entries.length === 0 ? (
+              <p className="text-xs text-gray-500 text-center py-8">No transcript entries</p>
+            ) : (
+              openSession.entries.map((entry, index) => (
+                <div
+                  key={index}
+                  ref={element => (entryRefs.current[index] = element)}
+                  onClick={entry.audio && openSession.recording ? () => handleSeek(entry.audio!.start) : undefined}
+                  title={entry.audio && openSession.recording ? "Play from here" : undefined}
+                  className={`p-2 rounded-lg text-xs border ${
+                    entry.audio && openSession.recording ? "cursor-pointer hover:border-gray-500/50 " : ""
+                  }${index === activeEntry ? "ring-1 ring-blue-400/70 " : ""}${
+                    entry.type === "question"
+                      ? "bg-blue-600/20 border-blue-500/20 text-blue-100"
+                      : entry.type === "interviewer"
+                      ? "bg-pink-600/15 border-pink-500/20 text-pink-100"
+                      : entry.type === "system"
+                      ? "bg-gray-800/20 border-gray-700/30 text-gray-400"
+                      : "bg-gray-800/30 border-gray-700/30 text-gray-200"
+                  }`}
+                >
+                  <div className="flex items-center gap-2 text-[10px] text-gray-500 mb-1">
+                    {entry.speaker && (
+                      <SpeakerLabel
+                        label={entry.speaker}
+                        name={openSession.speakerNames[entry.speaker]}
+                        onRename={handleRenameSpeaker}
+                        className="text-gray-300"
+                      />
+                    )}
+                    <span>{entry.timestamp}</span>
+                  </div>
+                  <p className="leading-relaxed whitespace-pre-wrap">{entry.text}</p>
+                  {entry.translation && (
+                    <p className="mt-1 leading-relaxed whitespace-pre-wrap italic text-gray-400">
+                      {entry.translation.text}
+                    </p>
+                  )}
+                </div>
+              ))
+            )}
+          </>
+        ) : isLoading ? (
+          <p className="text-xs text-gray-500 text-center py-8 animate-pulse">Loading sessions...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-8">No saved sessions yet</p>
+        ) : (
+          sessions.map((session) => (
+            <div
+              key={session.id}
+              className="p-3 bg-gray-800/30 backdrop-blur-md rounded-lg border border-gray-700/30 hover:border-gray-600/50 transition-colors"
+            >
+              {renamingId === session.id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={() => handleRename(session.id)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleRename(session.id)
+                    if (e.key === "Escape") setRenamingId(null)
+                  }}
+                  className="w-full px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-sm text-gray-200 focus:outline-none focus:border-blue-500/70"
+                />
+              ) : (
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    onClick={() => handleOpen(session.id)}
+                    className="text-left min-w-0 flex-1"
+                  >
+                    <p className="text-sm text-gray-200 truncate">{session.title}</p>
+                    <p className="text-[10px] text-gray-500">
+                      {new Date(session.startedAt).toLocaleString()} •{" "}
+                      {formatDuration(session.startedAt, session.endedAt)} •{" "}
+                      {session.entryCount} entries
+                    </p>
+                    {session.preview && (
+                      <p className="text-xs text-gray-400 mt-1 line-clamp-2">{session.preview}</p>
+                    )}
+                  </button>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      title="Rename"
+                      onClick={() => {
+                        setRenamingId(session.id)
+                        setRenameValue(session.title)
+                      }}
+                      className="p-1 text-gray-500 hover:text-white"
+                    >
+                      <FiEdit2 className="w-3 h-3" />
+                    </button>
+                    <button
+                      title={session.id === activeSessionId ? "End the call before deleting it" : "Delete"}
+                      onClick={() => handleDelete(session.id)}
+                      disabled={session.id === activeSessionId}
+                      className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-500"
+                    >
+                      <FiTrash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default SessionHistory
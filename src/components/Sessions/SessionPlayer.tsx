@@ -0,0 +1,89 @@
+import React, { forwardRef, useEffect, useRef, useState } from "react"
+import { useQuery } from "react-query"
+import { SessionRecording } from "../../types/session"
+import { listAudioDevices, resolveDevice } from "../../lib/audioDevices"
+
+interface SessionPlayerProps {
+  sessionId: string
+  recording: SessionRecording
+  onTimeUpdate: (seconds: number) => void
+}
+
+// Plays the audio saved with a session; the parent seeks through the forwarded element
+const SessionPlayer = forwardRef<HTMLAudioElement, SessionPlayerProps>(
+  ({ sessionId, recording, onTimeUpdate }, ref) => {
+    const [url, setUrl] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+    const audioRef = useRef<HTMLAudioElement | null>(null)
+    const { data: audioSettings } = useQuery(["audio-settings"], () => window.electronAPI.getAudioSettings())
+    const outputDevice = audioSettings?.outputDevice
+
+    // Plays on the picked output if it is connected, the system default otherwise
+    useEffect(() => {
+      const audio = audioRef.current
+      if (!audio) return
+      listAudioDevices()
+        .then(({ outputs }) => audio.setSinkId(resolveDevice(outputs, outputDevice)?.deviceId ?? ""))
+        .catch(err => console.error("Could not select the playback device:", err))
+    }, [url, outputDevice])
+
+    const setAudio = (element: HTMLAudioElement | null) => {
+      audioRef.current = element
+      if (typeof ref === "function") ref(element)
+      else if (ref) ref.current = element
+    }
+
+    useEffect(() => {
+      let objectUrl: string | null = null
+      let cancelled = false
+      setUrl(null)
+      setError(null)
+      window.electronAPI
+        .getSessionAudio(sessionId)
+        .then(bytes => {
+          if (cancelled) return
+          if (!bytes) {
+            setError("The audio for this call is missing")
+            return
+          }
+          objectUrl = URL.createObjectURL(new Blob([bytes], { type: recording.mimeType }))
+          setUrl(objectUrl)
+        })
+        .catch(err => !cancelled && setError(err?.message ?? String(err)))
+      return () => {
+        cancelled = true
+        if (objectUrl) URL.revokeObjectURL(objectUrl)
+      }
+    }, [sessionId, recording.mimeType])
+
+    // MediaRecorder webm has no duration in its header; seeking past the end makes the
+    // browser scan the file, after which duration and the seek bar are known
+    const handleLoadedMetadata = (e: React.SyntheticEvent<HTMLAudioElement>) => {
+      const audio = e.currentTarget
+      if (audio.duration !== Infinity) return
+      const reset = () => {
+        audio.removeEventListener("durationchange", reset)
+        audio.currentTime = 0
+      }
+      audio.addEventListener("durationchange", reset)
+      audio.currentTime = 1e101
+    }
+
+    if (error) return <p className="text-xs text-red-400">{error}</p>
+    if (!url) return <p className="text-xs text-gray-500">Loading call audio...</p>
+    return (
+      <audio
+        ref={setAudio}
+        src={url}
+        controls
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+        className="w-full h-8"
+      />
+    )
+  }
+)
+
+SessionPlayer.displayName = "SessionPlayer"
+
+export default SessionPlayer
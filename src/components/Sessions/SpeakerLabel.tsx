@@ -0,0 +1,51 @@
+import React, { useState } from "react"
+
+interface SpeakerLabelProps {
+  label: string
+  name?: string
+  onRename: (label: string, name: string) => void
+  className?: string
+}
+
+// Shows the mapped name for a speaker label; click to rename everyone with that label
+const SpeakerLabel: React.FC<SpeakerLabelProps> = ({ label, name, onRename, className = "" }) => {
+  const [editing, setEditing] = useState(false)
+  const [value, setValue] = useState("")
+
+  const commit = () => {
+    setEditing(false)
+    if (value.trim() !== (name ?? "")) onRename(label, value.trim())
+  }
+
+  if (editing) {
+    return (
+      <input
+        autoFocus
+        value={value}
+        placeholder={label}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit()
+          if (e.key === "Escape") setEditing(false)
+        }}
+        className="px-1 bg-gray-900/60 border border-gray-700/50 rounded text-[10px] text-gray-200 focus:outline-none w-28"
+      />
+    )
+  }
+
+  return (
+    <button
+      title={name ? `${label} — click to rename` : "Click to name this speaker"}
+      onClick={() => {
+        setValue(name ?? "")
+        setEditing(true)
+      }}
+      className={`text-[10px] font-medium hover:underline ${className}`}
+    >
+      {name || label}
+    </button>
+  )
+}
+
+export default SpeakerLabel
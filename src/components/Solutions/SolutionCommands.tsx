@@ -156,6 +156,72 @@ const SolutionCommands: React.FC<SolutionCommandsProps> = ({
                           are saved.
                         </p>
                       </div>
+                      {/* Region Command */}
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="whitespace-nowrap">
+                            Capture Region
+                          </span>
+                          <div className="flex gap-1">
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              ⌘
+                            </span>
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              ⇧
+                            </span>
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              H
+                            </span>
+                          </div>
+                        </div>
+                        <p className="text-[10px] leading-relaxed text-white/70 whitespace-nowrap truncate">
+                          Drag a rectangle over the part of the screen you need.
+                        </p>
+                      </div>
+                      {/* Window Command */}
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="whitespace-nowrap">
+                            Capture Window
+                          </span>
+                          <div className="flex gap-1">
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              ⌘
+                            </span>
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              ⌥
+                            </span>
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              H
+                            </span>
+                          </div>
+                        </div>
+                        <p className="text-[10px] leading-relaxed text-white/70 whitespace-nowrap truncate">
+                          Pick a single window to capture.
+                        </p>
+                      </div>
+                      {/* Display Command */}
+                      <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="whitespace-nowrap">
+                            Capture Display
+                          </span>
+                          <div className="flex gap-1">
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              ⌘
+                            </span>
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              ⌥
+                            </span>
+                            <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
+                              1-9
+                            </span>
+                          </div>
+                        </div>
+                        <p className="text-[10px] leading-relaxed text-white/70 whitespace-nowrap truncate">
+                          Capture one display by its number.
+                        </p>
+                      </div>
                       {/* Debug Command */}
                       <div className="space-y-1">
                         <div className="flex items-center justify-between">
@@ -0,0 +1,157 @@
+import React, { useState } from "react"
+import { useQuery } from "react-query"
+import { AiOutlineClose } from "react-icons/ai"
+import { FiPlus, FiTrash2 } from "react-icons/fi"
+import { Task, TaskInput } from "../../types/task"
+
+interface TaskListProps {
+  onClose: () => void
+}
+
+const today = () => new Date().toLocaleDateString("en-CA") // YYYY-MM-DD in local time
+
+const inputClass =
+  "px-2 py-1 bg-gray-900/60 border border-gray-700/50 rounded text-xs text-gray-200 focus:outline-none focus:border-blue-500/70"
+
+const TaskList: React.FC<TaskListProps> = ({ onClose }) => {
+  const [showDone, setShowDone] = useState(false)
+  const [title, setTitle] = useState("")
+  const [owner, setOwner] = useState("")
+  const [dueDate, setDueDate] = useState("")
+
+  const { data: tasks = [], refetch } = useQuery(["tasks"], () => window.electronAPI.listTasks(), {
+    staleTime: 0
+  })
+
+  const updateTask = async (task: Task, patch: TaskInput) => {
+    try {
+      await window.electronAPI.updateTask(task.id, patch)
+    } catch (error) {
+      console.error("Error updating task:", error)
+    }
+    refetch()
+  }
+
+  const handleAdd = async () => {
+    if (!title.trim()) return
+    await window.electronAPI.createTask({ title, owner, dueDate: dueDate || null })
+    setTitle("")
+    setOwner("")
+    setDueDate("")
+    refetch()
+  }
+
+  const handleDelete = async (task: Task) => {
+    await window.electronAPI.deleteTask(task.id)
+    refetch()
+  }
+
+  const visible = tasks.filter((task) => showDone || !task.done)
+  const openCount = tasks.filter((task) => !task.done).length
+  const now = today()
+
+  return (
+    <div className="w-96 border-l border-gray-800/30 bg-black/20 backdrop-blur-2xl p-4 flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-semibold">Tasks ({openCount} open)</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <AiOutlineClose className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2 mb-3">
+        <input
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          placeholder="New task..."
+          className={`${inputClass} w-full`}
+        />
+        <div className="flex gap-2">
+          <input
+            value={owner}
+            onChange={(e) => setOwner(e.target.value)}
+            placeholder="Owner"
+            className={`${inputClass} flex-1 min-w-0`}
+          />
+          <input
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            className={inputClass}
+          />
+          <button
+            title="Add task"
+            onClick={handleAdd}
+            disabled={!title.trim()}
+            className="px-2 bg-blue-600/60 hover:bg-blue-700/70 rounded text-white disabled:opacity-50"
+          >
+            <FiPlus className="w-3 h-3" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-2">
+        {visible.length === 0 ? (
+          <p className="text-xs text-gray-500 text-center py-8">
+            No open tasks. Finish a call to turn its action items into tasks.
+          </p>
+        ) : (
+          visible.map((task) => {
+            const overdue = !task.done && task.dueDate !== null && task.dueDate < now
+            return (
+              <div
+                key={task.id}
+                className={`p-2 rounded-lg border flex items-start gap-2 ${
+                  task.done ? "bg-gray-900/30 border-gray-800/40 opacity-60" : "bg-gray-800/30 border-gray-700/30"
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={task.done}
+                  onChange={() => updateTask(task, { done: !task.done })}
+                  className="mt-0.5"
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={`text-xs text-gray-200 ${task.done ? "line-through" : ""}`}>{task.title}</p>
+                  <div className="flex items-center gap-2 mt-1">
+                    <input
+                      defaultValue={task.owner}
+                      onBlur={(e) => e.target.value !== task.owner && updateTask(task, { owner: e.target.value })}
+                      placeholder="Owner"
+                      className="bg-transparent text-[10px] text-gray-400 w-24 focus:outline-none focus:text-gray-200"
+                    />
+                    <input
+                      type="date"
+                      value={task.dueDate ?? ""}
+                      onChange={(e) => updateTask(task, { dueDate: e.target.value || null })}
+                      className={`bg-transparent text-[10px] focus:outline-none ${
+                        overdue ? "text-red-400" : "text-gray-400"
+                      }`}
+                    />
+                  </div>
+                </div>
+                <button
+                  title="Delete"
+                  onClick={() => handleDelete(task)}
+                  className="p-1 text-gray-500 hover:text-red-400"
+                >
+                  <FiTrash2 className="w-3 h-3" />
+                </button>
+              </div>
+            )
+          })
+        )}
+      </div>
+
+      <button
+        onClick={() => setShowDone(!showDone)}
+        className="pt-3 text-[11px] text-gray-500 hover:text-gray-300"
+      >
+        {showDone ? "Hide completed" : "Show completed"}
+      </button>
+    </div>
+  )
+}
+
+export default TaskList
@@ -0,0 +1,50 @@
+// src/lib/audioDevices.ts
+// Audio input/output lists and opening the microphone the user picked. Labels are only filled
+// in once microphone permission has been granted.
+
+import { AudioDeviceChoice } from '../types/audio'
+
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[]
+  outputs: MediaDeviceInfo[]
+}
+
+export async function listAudioDevices(): Promise<AudioDevices> {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return {
+    inputs: devices.filter(device => device.kind === 'audioinput'),
+    outputs: devices.filter(device => device.kind === 'audiooutput')
+  }
+}
+
+// Finds a remembered device; ids can change (after clearing app data), so the label is the
+// fallback. Null means the device is not connected, or no choice was made.
+export function resolveDevice(
+  devices: MediaDeviceInfo[],
+  choice: AudioDeviceChoice | null | undefined
+): MediaDeviceInfo | null {
+  if (!choice) return null
+  return (
+    devices.find(device => device.deviceId === choice.deviceId) ??
+    devices.find(device => device.label && device.label === choice.label) ??
+    null
+  )
+}
+
+export const deviceChoice = (device: MediaDeviceInfo): AudioDeviceChoice => ({
+  deviceId: device.deviceId,
+  label: device.label
+})
+
+// The picked microphone if it is connected, the system default otherwise
+export async function openMicrophone(choice: AudioDeviceChoice | null | undefined): Promise<MediaStream> {
+  const device = resolveDevice((await listAudioDevices()).inputs, choice)
+  return navigator.mediaDevices.getUserMedia({
+    audio: {
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      ...(device ? { deviceId: { exact: device.deviceId } } : {})
+    }
+  })
+}
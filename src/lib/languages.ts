@@ -0,0 +1,30 @@
+// src/lib/languages.ts
+// Languages offered for calls and for the rep. Codes are what Deepgram expects; whisper.cpp
+// gets the bare language ("es-419" becomes "es").
+
+import { LanguageOptions, LanguageSettings } from '../types/transcription'
+
+export const AUTO_LANGUAGE = 'auto'
+
+export const LANGUAGES = ['en', 'es', 'es-419', 'pt', 'pt-BR', 'de', 'de-CH', 'fr', 'it', 'nl']
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language' })
+
+export function languageLabel(code: string): string {
+  if (code === AUTO_LANGUAGE) return 'Auto-detect'
+  try {
+    return languageNames.of(code) ?? code
+  } catch {
+    return code
+  }
+}
+
+// What the assistant is told for a call held in callLanguage
+export const languageOptions = (settings: LanguageSettings, callLanguage: string): LanguageOptions => ({
+  call: callLanguage,
+  answer: settings.answerIn === 'rep' ? settings.repLanguage : callLanguage
+})
+
+// Translation is pointless when the call is known to be in the rep's own language
+export const needsTranslation = (settings: LanguageSettings, callLanguage: string) =>
+  settings.translate && callLanguage.split('-')[0] !== settings.repLanguage.split('-')[0]
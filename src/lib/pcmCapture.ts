@@ -0,0 +1,53 @@
+// src/lib/pcmCapture.ts
+import workletUrl from './pcmCaptureWorklet.ts?worker&url'
+import type { PcmCaptureOptions } from './pcmCaptureWorklet'
+
+// What every transcription engine expects: 16 kHz mono Int16
+export const PCM_SAMPLE_RATE = 16000
+const DEFAULT_FRAME_MS = 40
+
+const loadedContexts = new WeakSet<BaseAudioContext>()
+
+export interface PcmCaptureNode {
+  node: AudioWorkletNode
+  disconnect: () => void
+}
+
+// Taps `source` and calls onFrame with fixed-size Int16 frames (frameMs of audio each).
+// Resampling and conversion happen on the audio thread.
+export async function createPcmCaptureNode(
+  context: AudioContext,
+  source: AudioNode,
+  onFrame: (pcm: ArrayBuffer) => void,
+  frameMs: number = DEFAULT_FRAME_MS
+): Promise<PcmCaptureNode> {
+  if (!loadedContexts.has(context)) {
+    await context.audioWorklet.addModule(workletUrl)
+    loadedContexts.add(context)
+  }
+
+  const processorOptions: PcmCaptureOptions = {
+    targetSampleRate: PCM_SAMPLE_RATE,
+    frameSamples: Math.round((PCM_SAMPLE_RATE * frameMs) / 1000)
+  }
+  // No outputs: the node is pulled by the graph without being wired to the speakers
+  const node = new AudioWorkletNode(context, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    channelInterpretation: 'speakers',
+    processorOptions
+  })
+  node.port.onmessage = (event: MessageEvent<ArrayBuffer>) => onFrame(event.data)
+  source.connect(node)
+
+  return {
+    node,
+    disconnect: () => {
+      try { source.disconnect(node) } catch {}
+      node.port.onmessage = null
+      node.port.close()
+    }
+  }
+}
@@ -0,0 +1,117 @@
+// src/lib/pcmCaptureWorklet.ts
+// Runs on the audio rendering thread. Resamples the (mono) input to the target rate with a
+// polyphase windowed-sinc filter, converts to Int16 and posts fixed-size frames to the node.
+
+export {}
+
+// Globals of the AudioWorkletGlobalScope, which the DOM lib does not describe
+declare const sampleRate: number
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+  constructor(options?: AudioWorkletNodeOptions)
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void
+
+export interface PcmCaptureOptions {
+  targetSampleRate: number
+  frameSamples: number
+}
+
+const HALF_TAPS = 16 // filter reaches 16 input samples either side of the output position
+const PHASES = 256 // fractional positions the kernel is tabulated for
+
+// Blackman-windowed sinc low-pass, one row of 2 * HALF_TAPS coefficients per phase.
+// cutoff is relative to the input Nyquist frequency.
+function buildKernel(cutoff: number): Float32Array[] {
+  const table: Float32Array[] = []
+  for (let phase = 0; phase <= PHASES; phase++) {
+    const row = new Float32Array(2 * HALF_TAPS)
+    const fraction = phase / PHASES
+    let sum = 0
+    for (let tap = 0; tap < 2 * HALF_TAPS; tap++) {
+      // Distance from the output position to input sample (floor(position) - HALF_TAPS + 1 + tap)
+      const x = tap - HALF_TAPS + 1 - fraction
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x)
+      const w = (x + HALF_TAPS) / (2 * HALF_TAPS)
+      const window =
+        w <= 0 || w >= 1 ? 0 : 0.42 - 0.5 * Math.cos(2 * Math.PI * w) + 0.08 * Math.cos(4 * Math.PI * w)
+      row[tap] = sinc * window
+      sum += row[tap]
+    }
+    // Unity gain at DC for every phase
+    for (let tap = 0; tap < row.length; tap++) row[tap] /= sum
+    table.push(row)
+  }
+  return table
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private readonly step: number // input samples per output sample
+  private readonly kernel: Float32Array[]
+  private input = new Float32Array(4096)
+  private inputLength = HALF_TAPS // starts with HALF_TAPS samples of silence as history
+  private position = HALF_TAPS - 1 // fractional index of the next output sample
+  private frame: Int16Array
+  private frameLength = 0
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options)
+    const { targetSampleRate, frameSamples } = options.processorOptions as PcmCaptureOptions
+    this.step = sampleRate / targetSampleRate
+    // Leave a little room below the new Nyquist frequency for the filter's transition band
+    this.kernel = buildKernel(Math.min(1, 1 / this.step) * 0.9)
+    this.frame = new Int16Array(frameSamples)
+  }
+
+  private append(samples: Float32Array) {
+    if (this.inputLength + samples.length > this.input.length) {
+      const grown = new Float32Array((this.inputLength + samples.length) * 2)
+      grown.set(this.input.subarray(0, this.inputLength))
+      this.input = grown
+    }
+    this.input.set(samples, this.inputLength)
+    this.inputLength += samples.length
+  }
+
+  private pushSample(value: number) {
+    const s = Math.max(-1, Math.min(1, value))
+    this.frame[this.frameLength++] = s < 0 ? s * 0x8000 : s * 0x7fff
+    if (this.frameLength === this.frame.length) {
+      const pcm = this.frame.slice()
+      this.port.postMessage(pcm.buffer, [pcm.buffer])
+      this.frameLength = 0
+    }
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // The node downmixes to one channel; an unconnected input has none
+    const channel = inputs[0]?.[0]
+    if (!channel) return true
+    this.append(channel)
+
+    // Emit every output sample whose filter window is fully available
+    while (this.position + HALF_TAPS < this.inputLength) {
+      const base = Math.floor(this.position)
+      const row = this.kernel[Math.round((this.position - base) * PHASES)]
+      const first = base - HALF_TAPS + 1
+      let acc = 0
+      for (let tap = 0; tap < row.length; tap++) acc += row[tap] * this.input[first + tap]
+      this.pushSample(acc)
+      this.position += this.step
+    }
+
+    // Drop input that no future output sample can reach
+    const keepFrom = Math.floor(this.position) - HALF_TAPS + 1
+    if (keepFrom > 0) {
+      this.input.copyWithin(0, keepFrom, this.inputLength)
+      this.inputLength -= keepFrom
+      this.position -= keepFrom
+    }
+    return true
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor)
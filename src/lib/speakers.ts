@@ -0,0 +1,86 @@
+// src/lib/speakers.ts
+
+export type AudioChannel = 'mic' | 'system'
+
+export interface SpeakerSegment {
+  speaker: string
+  text: string
+  start?: number // epoch ms, when the engine reported timing
+  end?: number
+}
+
+// Where a result sits in time: the stream's opening time (epoch ms) and the result's own
+// start and duration in seconds since then
+export interface ResultTiming {
+  origin: number
+  start: number
+  duration: number
+}
+
+// Labels used when the transcription engine returns no speaker information
+export const CHANNEL_SPEAKERS: Record<AudioChannel, string> = {
+  mic: 'Mic',
+  system: 'System audio'
+}
+
+const diarizedLabel = (channel: AudioChannel, speaker: number) =>
+  `${channel === 'system' ? 'Remote' : 'Speaker'} ${speaker + 1}`
+
+// Splits a Deepgram alternative into runs of consecutive words from the same speaker.
+// Without diarize metadata the whole transcript is attributed to the channel.
+// With timing, segments carry start/end times from the word timestamps (or the whole result).
+export function segmentsFromDeepgram(
+  alternative: any,
+  channel: AudioChannel,
+  timing?: ResultTiming
+): SpeakerSegment[] {
+  const at = (seconds: number) => (timing ? timing.origin + Math.round(seconds * 1000) : undefined)
+  const words: any[] = alternative?.words ?? []
+  if (words.length === 0 || typeof words[0].speaker !== 'number') {
+    const text = (alternative?.transcript ?? '').trim()
+    if (!text) return []
+    return [{
+      speaker: CHANNEL_SPEAKERS[channel],
+      text,
+      start: at(timing?.start ?? 0),
+      end: at((timing?.start ?? 0) + (timing?.duration ?? 0))
+    }]
+  }
+
+  const segments: SpeakerSegment[] = []
+  for (const word of words) {
+    const speaker = diarizedLabel(channel, word.speaker)
+    const text = word.punctuated_word ?? word.word
+    const last = segments[segments.length - 1]
+    if (last && last.speaker === speaker) {
+      last.text += ` ${text}`
+      last.end = at(word.end)
+    } else {
+      segments.push({ speaker, text, start: at(word.start), end: at(word.end) })
+    }
+  }
+  return segments
+}
+
+// Appends new segments, continuing the last one when the same person keeps talking
+export function appendSegments(current: SpeakerSegment[], next: SpeakerSegment[]): SpeakerSegment[] {
+  const merged = current.map(segment => ({ ...segment }))
+  for (const segment of next) {
+    const last = merged[merged.length - 1]
+    if (last && last.speaker === segment.speaker) {
+      last.text += ` ${segment.text}`
+      last.start ??= segment.start
+      last.end = segment.end ?? last.end
+    } else {
+      merged.push({ ...segment })
+    }
+  }
+  return merged
+}
+
+// The mic channel is the rep's side; on a single diarized mic stream the first voice is assumed to be the rep
+export function entryTypeFor(speaker: string): 'question' | 'interviewer' {
+  return speaker === CHANNEL_SPEAKERS.mic || speaker === diarizedLabel('mic', 0)
+    ? 'question'
+    : 'interviewer'
+}
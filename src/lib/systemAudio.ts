@@ -0,0 +1,42 @@
+// src/lib/systemAudio.ts
+
+// Echo cancellation would subtract exactly the audio we are trying to capture
+const RAW_AUDIO: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false
+}
+
+// Linux: pick the PulseAudio/PipeWire monitor of the default output among the audio inputs.
+// Device labels are only filled in once microphone permission has been granted.
+async function openMonitorSource(description: string | null): Promise<MediaStream> {
+  const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(
+    device => device.kind === 'audioinput'
+  )
+  const monitor =
+    (description && inputs.find(device => device.label === description)) ||
+    inputs.find(device => /^monitor of /i.test(device.label))
+  if (!monitor) {
+    throw new Error('No monitor source found; is PulseAudio or PipeWire running?')
+  }
+  return navigator.mediaDevices.getUserMedia({
+    audio: { ...RAW_AUDIO, deviceId: { exact: monitor.deviceId } }
+  })
+}
+
+// Windows/macOS: main answers getDisplayMedia with desktopCapturer loopback audio
+async function openLoopback(): Promise<MediaStream> {
+  const display = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: RAW_AUDIO })
+  display.getVideoTracks().forEach(track => track.stop())
+  const audioTracks = display.getAudioTracks()
+  if (audioTracks.length === 0) {
+    throw new Error('System audio capture is not supported on this platform')
+  }
+  return new MediaStream(audioTracks)
+}
+
+// Opens an audio-only stream of whatever the computer is playing
+export async function openSystemAudioStream(): Promise<MediaStream> {
+  const source = await window.electronAPI.getSystemAudioSource()
+  return source.kind === 'monitor' ? openMonitorSource(source.description) : openLoopback()
+}
@@ -0,0 +1,215 @@
+// src/lib/vad.ts
+// Voice activity detection on an AnalyserNode. A detector decides per frame whether someone
+// is speaking; the segmenter turns those decisions into speech segments with start/end times.
+
+import { VadDetectorName, VadSettings } from '../types/audio'
+
+// Key the tunables of the system default input are stored under
+export const DEFAULT_VAD_DEVICE = 'default'
+
+// Tunables are stored per input device, keyed by the id of the device actually captured
+export const vadDeviceKey = (stream: MediaStream) =>
+  stream.getAudioTracks()[0]?.getSettings().deviceId || DEFAULT_VAD_DEVICE
+
+const VOICE_BAND_HZ: [number, number] = [300, 3400]
+
+export interface VadFrame {
+  time: number // ms since the monitor started
+  samples: Float32Array // time domain, -1..1
+  spectrum: Float32Array // dB per frequency bin
+  sampleRate: number
+}
+
+export interface VadDecision {
+  level: number // RMS
+  threshold: number // RMS the level has to exceed
+  speech: boolean
+}
+
+export interface VadSegment {
+  start: number // ms since the monitor started
+  end: number
+}
+
+// Detectors keep their own state (such as the noise floor) and read the tunables per frame
+export interface VadDetector {
+  analyze(frame: VadFrame, settings: VadSettings): VadDecision
+}
+
+export function rms(samples: Float32Array): number {
+  let sum = 0
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i]
+  return Math.sqrt(sum / samples.length)
+}
+
+// Sign changes per sample; voiced speech sits well below hiss, clicks and key strikes
+export function zeroCrossingRate(samples: Float32Array): number {
+  let crossings = 0
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i - 1] >= 0) !== (samples[i] >= 0)) crossings++
+  }
+  return crossings / Math.max(1, samples.length - 1)
+}
+
+// Share of the spectrum's power that falls within the voice band
+export function voiceBandRatio(spectrum: Float32Array, sampleRate: number): number {
+  const binHz = sampleRate / 2 / spectrum.length
+  let voice = 0
+  let total = 0
+  for (let bin = 0; bin < spectrum.length; bin++) {
+    const power = Math.pow(10, spectrum[bin] / 10)
+    total += power
+    const hz = bin * binHz
+    if (hz >= VOICE_BAND_HZ[0] && hz <= VOICE_BAND_HZ[1]) voice += power
+  }
+  return total > 0 ? voice / total : 0
+}
+
+// Level above the noise floor measured during the first calibrationMs it hears
+class EnergyDetector implements VadDetector {
+  private calibrationStart: number | null = null
+  private noiseFloor: number | null = null
+
+  analyze(frame: VadFrame, settings: VadSettings): VadDecision {
+    const level = rms(frame.samples)
+    if (this.calibrationStart == null) this.calibrationStart = frame.time
+    if (frame.time - this.calibrationStart < settings.calibrationMs) {
+      this.noiseFloor = this.noiseFloor == null ? level : this.noiseFloor * 0.9 + level * 0.1
+    }
+    const threshold = Math.max(settings.minThresholdRms, (this.noiseFloor ?? 0.001) * settings.noiseMultiplier)
+    return { level, threshold, speech: level > threshold }
+  }
+}
+
+// Loud enough, and shaped like a voice
+class SpectralDetector extends EnergyDetector {
+  analyze(frame: VadFrame, settings: VadSettings): VadDecision {
+    const decision = super.analyze(frame, settings)
+    if (!decision.speech) return decision
+    const speech =
+      voiceBandRatio(frame.spectrum, frame.sampleRate) >= settings.minVoiceBandRatio &&
+      zeroCrossingRate(frame.samples) <= settings.maxZeroCrossingRate
+    return { ...decision, speech }
+  }
+}
+
+export const VAD_DETECTORS: Record<VadDetectorName, { label: string; create: () => VadDetector }> = {
+  energy: { label: 'Energy', create: () => new EnergyDetector() },
+  spectral: { label: 'Energy + voice spectrum', create: () => new SpectralDetector() }
+}
+
+interface VadSegmenterHandlers {
+  onSpeechStart?: (start: number) => void
+  onSegment?: (segment: VadSegment) => void
+}
+
+// A segment opens once speech has lasted minSpeechMs and closes after silenceMs of silence.
+// Bursts shorter than minSpeechMs (a key press, a cough) never open one.
+export class VadSegmenter {
+  private candidateStart: number | null = null
+  private lastSpeech = 0
+  private open = false
+
+  constructor(
+    private settings: VadSettings,
+    private readonly handlers: VadSegmenterHandlers
+  ) {}
+
+  update(settings: VadSettings) {
+    this.settings = settings
+  }
+
+  push(time: number, speech: boolean) {
+    if (speech) {
+      if (this.candidateStart == null) this.candidateStart = time
+      this.lastSpeech = time
+      if (!this.open && time - this.candidateStart >= this.settings.minSpeechMs) {
+        this.open = true
+        this.handlers.onSpeechStart?.(this.candidateStart)
+      }
+      return
+    }
+    if (!this.open) {
+      this.candidateStart = null
+    } else if (time - this.lastSpeech >= this.settings.silenceMs) {
+      this.close()
+    }
+  }
+
+  // Ends the open segment at the last speech frame, if there is one
+  close(): VadSegment | null {
+    const segment = this.open && this.candidateStart != null
+      ? { start: this.candidateStart, end: this.lastSpeech }
+      : null
+    this.reset()
+    if (segment) this.handlers.onSegment?.(segment)
+    return segment
+  }
+
+  // Forgets the open segment without reporting it
+  reset() {
+    this.open = false
+    this.candidateStart = null
+  }
+}
+
+interface VadMonitorHandlers extends VadSegmenterHandlers {
+  onFrame?: (decision: VadDecision, time: number) => void
+}
+
+// Polls the analyser every animation frame and runs detector and segmenter on it
+export class VadMonitor {
+  private detector: VadDetector
+  private readonly segmenter: VadSegmenter
+  private readonly samples: Float32Array<ArrayBuffer>
+  private readonly spectrum: Float32Array<ArrayBuffer>
+  private startedAt = 0
+  private raf: number | null = null
+
+  constructor(
+    private readonly analyser: AnalyserNode,
+    private settings: VadSettings,
+    private readonly handlers: VadMonitorHandlers
+  ) {
+    analyser.fftSize = 512
+    analyser.smoothingTimeConstant = 0.2
+    this.samples = new Float32Array(analyser.fftSize)
+    this.spectrum = new Float32Array(analyser.frequencyBinCount)
+    this.detector = VAD_DETECTORS[settings.detector].create()
+    this.segmenter = new VadSegmenter(settings, handlers)
+  }
+
+  start() {
+    this.startedAt = performance.now()
+    const tick = () => {
+      const time = performance.now() - this.startedAt
+      this.analyser.getFloatTimeDomainData(this.samples)
+      this.analyser.getFloatFrequencyData(this.spectrum)
+      const frame = { time, samples: this.samples, spectrum: this.spectrum, sampleRate: this.analyser.context.sampleRate }
+      const decision = this.detector.analyze(frame, this.settings)
+      this.segmenter.push(time, decision.speech)
+      this.handlers.onFrame?.(decision, time)
+      this.raf = requestAnimationFrame(tick)
+    }
+    this.raf = requestAnimationFrame(tick)
+  }
+
+  stop() {
+    if (this.raf != null) cancelAnimationFrame(this.raf)
+    this.raf = null
+  }
+
+  // Takes effect on the next frame; a different detector or calibration time measures the
+  // noise floor again
+  update(settings: VadSettings) {
+    if (settings.detector !== this.settings.detector || settings.calibrationMs !== this.settings.calibrationMs) {
+      this.detector = VAD_DETECTORS[settings.detector].create()
+    }
+    this.settings = settings
+    this.segmenter.update(settings)
+  }
+
+  resetSegment() {
+    this.segmenter.reset()
+  }
+}
@@ -1,4 +1,35 @@
 export interface AudioResult {
   text: string;
   timestamp: number;
-} 
\ No newline at end of file
+} 
+
+export type SystemAudioMode = 'off' | 'mixed' | 'separate'
+
+export interface AudioDeviceChoice {
+  deviceId: string
+  label: string
+}
+
+export interface AudioSettings {
+  systemAudio: SystemAudioMode
+  recordSessions: boolean
+  inputDevice: AudioDeviceChoice | null // null follows the system default
+  outputDevice: AudioDeviceChoice | null
+}
+
+export type SystemAudioSource =
+  | { kind: 'loopback' }
+  | { kind: 'monitor'; name: string | null; description: string | null }
+
+export type VadDetectorName = 'energy' | 'spectral'
+
+export interface VadSettings {
+  detector: VadDetectorName
+  silenceMs: number
+  minSpeechMs: number
+  calibrationMs: number
+  minThresholdRms: number
+  noiseMultiplier: number
+  minVoiceBandRatio: number
+  maxZeroCrossingRate: number
+}
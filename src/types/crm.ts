@@ -0,0 +1,79 @@
+import { SessionSummary } from './session'
+
+interface RecordMeta {
+  id: string
+  createdAt: number
+  updatedAt: number
+}
+
+export interface Company extends RecordMeta {
+  name: string
+  domain: string
+  industry: string
+  notes: string
+}
+
+export interface Contact extends RecordMeta {
+  name: string
+  email: string
+  phone: string
+  title: string
+  companyId: string | null
+  notes: string
+}
+
+export interface StageChange {
+  from: string | null // null when the deal was created
+  to: string
+  at: number
+}
+
+export interface Deal extends RecordMeta {
+  title: string
+  companyId: string | null
+  contactId: string | null
+  amount: number | null
+  stage: string // PipelineStage id
+  closeDate: string | null // YYYY-MM-DD
+  budget: string
+  timeline: string
+  decisionMakers: string[]
+  competitors: string[]
+  nextSteps: string[]
+  notes: string
+  stageHistory: StageChange[]
+}
+
+export interface PipelineStage {
+  id: string
+  name: string
+  probability: number // 0-100
+}
+
+export interface CrmRecords {
+  companies: Company
+  contacts: Contact
+  deals: Deal
+}
+
+export type CrmCollection = keyof CrmRecords
+export type CrmInput<C extends CrmCollection> = Partial<
+  Omit<CrmRecords[C], keyof RecordMeta | 'stageHistory'>
+>
+
+// Sessions and screenshots linked to a contact, resolved by the main process
+export interface ContactActivity {
+  sessions: SessionSummary[]
+  screenshots: Array<{ path: string; preview: string; linkedAt: number }>
+}
+
+// Account fields the post-call pass pulled out of a transcript
+export interface CrmExtraction {
+  contacts: Array<{ name: string; title: string; email: string }>
+  company: string | null
+  budget: string | null
+  timeline: string | null
+  decision_makers: string[]
+  competitors: string[]
+  next_steps: string[]
+}
@@ -1,3 +1,42 @@
+import { LLMStreamEvent } from "./stream"
+import { StructuredOutputErrorPayload } from "./solutions"
+import {
+  CallSession,
+  CallSummary,
+  EntryTranslation,
+  ImportProgress,
+  ImportResult,
+  SessionSummary,
+  TranscriptEntry,
+  TranscriptionFinal
+} from "./session"
+import { Task, TaskInput } from "./task"
+import { CaptureTarget, CaptureWindow, ScreenshotMatch, ScreenshotSettings } from "./screenshot"
+import { RedactedScreenshot, RedactedText, RedactionSettings } from "./redaction"
+import { AudioSettings, SystemAudioSource, VadSettings } from "./audio"
+import {
+  LanguageOptions,
+  LanguageSettings,
+  TranscriptionEvent,
+  TranscriptionStreamOptions
+} from "./transcription"
+import {
+  EmailAccountDetails,
+  EmailDraft,
+  EmailSection,
+  EmailTemplate,
+  EmailTemplateId
+} from "./email"
+import {
+  ContactActivity,
+  CrmExtraction,
+  CrmCollection,
+  CrmInput,
+  CrmRecords,
+  Deal,
+  PipelineStage
+} from "./crm"
+
 export interface ElectronAPI {
   updateContentDimensions: (dimensions: {
     width: number
@@ -17,16 +56,106 @@ export interface ElectronAPI {
   onSolutionSuccess: (callback: (data: any) => void) => () => void
   onUnauthorized: (callback: () => void) => () => void
   onDebugError: (callback: (error: string) => void) => () => void
-  takeScreenshot: () => Promise<void>
+  onStructuredOutputError: (callback: (error: StructuredOutputErrorPayload) => void) => () => void
+  takeScreenshot: (target?: CaptureTarget) => Promise<void>
+  listCaptureWindows: () => Promise<CaptureWindow[]>
+  captureWindow: (sourceId: string) => Promise<void>
+  onPickCaptureWindow: (callback: () => void) => () => void
+  searchScreenshots: (query: string) => Promise<ScreenshotMatch[]>
+  getScreenshotSettings: () => Promise<ScreenshotSettings>
+  updateScreenshotSettings: (patch: Partial<ScreenshotSettings>) => Promise<ScreenshotSettings>
   moveWindowLeft: () => Promise<void>
   moveWindowRight: () => Promise<void>
   moveWindowUp: () => Promise<void>
   moveWindowDown: () => Promise<void>
   analyzeAudioFromBase64: (data: string, mimeType: string) => Promise<{ text: string; timestamp: number }>
   analyzeAudioFile: (path: string) => Promise<{ text: string; timestamp: number }>
+  streamChat: (requestId: string, message: string, languages?: LanguageOptions) => Promise<string | null>
+  streamImageAnalysis: (requestId: string, path: string) => Promise<string | null>
+  streamAudioAnalysis: (
+    requestId: string,
+    data: string,
+    mimeType: string,
+    languages?: LanguageOptions
+  ) => Promise<string | null>
+  translateText: (text: string, language: string) => Promise<string>
+  cancelLLMStream: (requestId: string) => Promise<boolean>
+  onLLMStream: (requestId: string, callback: (event: LLMStreamEvent) => void) => () => void
+  startSession: (title?: string, language?: string) => Promise<SessionSummary>
+  addSessionEntry: (id: string, entry: TranscriptEntry) => Promise<void>
+  addSessionTranslation: (id: string, entry: TranscriptEntry, translation: EntryTranslation) => Promise<void>
+  addSessionFinal: (id: string, final: TranscriptionFinal) => Promise<void>
+  setSpeakerName: (id: string, label: string, name: string) => Promise<void>
+  endSession: (id: string) => Promise<void>
+  listSessions: () => Promise<SessionSummary[]>
+  getSession: (id: string) => Promise<CallSession>
+  renameSession: (id: string, title: string) => Promise<void>
+  deleteSession: (id: string) => Promise<{ success: boolean; error?: string }>
+  finishSession: (id: string) => Promise<{ summary: CallSummary; tasks: Task[] }>
+  startSessionRecording: (id: string, startedAt: number, mimeType: string) => Promise<void>
+  appendSessionAudio: (id: string, chunk: ArrayBuffer) => Promise<void>
+  getSessionAudio: (id: string) => Promise<Uint8Array<ArrayBuffer> | null>
+  pickRecording: () => Promise<string | null>
+  getPathForFile: (file: File) => string
+  importRecording: (importId: string, filePath: string, language?: string) => Promise<ImportResult>
+  cancelImport: (importId: string) => Promise<boolean>
+  onImportProgress: (importId: string, callback: (progress: ImportProgress) => void) => () => void
+  getEmailTemplates: () => Promise<EmailTemplate[]>
+  draftFollowUpEmail: (
+    sessionId: string,
+    account: EmailAccountDetails,
+    templateId: EmailTemplateId
+  ) => Promise<EmailDraft>
+  regenerateEmailSection: (
+    sessionId: string,
+    account: EmailAccountDetails,
+    templateId: EmailTemplateId,
+    draft: EmailDraft,
+    section: EmailSection
+  ) => Promise<string>
+  copyEmail: (draft: EmailDraft, format: "text" | "html") => Promise<void>
+  exportEmailEml: (draft: EmailDraft, to: string) => Promise<string | null>
+  listTasks: () => Promise<Task[]>
+  createTask: (input: TaskInput) => Promise<Task>
+  updateTask: (id: string, patch: TaskInput) => Promise<Task>
+  deleteTask: (id: string) => Promise<{ success: boolean }>
+  getAudioSettings: () => Promise<AudioSettings>
+  updateAudioSettings: (patch: Partial<AudioSettings>) => Promise<AudioSettings>
+  getSystemAudioSource: () => Promise<SystemAudioSource>
+  getVadSettings: (deviceId: string) => Promise<VadSettings>
+  updateVadSettings: (deviceId: string, patch: Partial<VadSettings>) => Promise<VadSettings>
+  getLanguageSettings: () => Promise<LanguageSettings>
+  updateLanguageSettings: (patch: Partial<LanguageSettings>) => Promise<LanguageSettings>
+  getRedactionSettings: () => Promise<RedactionSettings>
+  updateRedactionSettings: (patch: Partial<RedactionSettings>) => Promise<RedactionSettings>
+  previewRedactedText: (text: string) => Promise<RedactedText>
+  previewRedactedScreenshot: (path: string) => Promise<RedactedScreenshot>
+  openTranscription: (streamId: string, options: TranscriptionStreamOptions) => Promise<void>
+  sendTranscriptionAudio: (streamId: string, pcm: ArrayBuffer) => void
+  closeTranscription: (streamId: string) => Promise<void>
+  onTranscriptionEvent: (
+    streamId: string,
+    callback: (event: TranscriptionEvent) => void
+  ) => () => void
+  crmList: <C extends CrmCollection>(collection: C) => Promise<CrmRecords[C][]>
+  crmCreate: <C extends CrmCollection>(collection: C, input: CrmInput<C>) => Promise<CrmRecords[C]>
+  crmUpdate: <C extends CrmCollection>(
+    collection: C,
+    id: string,
+    patch: CrmInput<C>
+  ) => Promise<CrmRecords[C]>
+  crmDelete: (collection: CrmCollection, id: string) => Promise<{ success: boolean }>
+  crmGetStages: () => Promise<PipelineStage[]>
+  crmSetStages: (stages: PipelineStage[]) => Promise<PipelineStage[]>
+  crmMoveDeal: (id: string, stageId: string) => Promise<Deal>
+  crmLinkSession: (contactId: string, sessionId: string) => Promise<void>
+  crmAttachScreenshot: (contactId: string, path: string) => Promise<string>
+  crmUnlink: (kind: "session" | "screenshot", ref: string) => Promise<void>
+  crmGetSessionContact: (sessionId: string) => Promise<string | null>
+  crmGetContactActivity: (contactId: string) => Promise<ContactActivity>
+  crmExtractSession: (sessionId: string) => Promise<CrmExtraction>
   quitApp: () => Promise<void>
   invoke: (channel: string, ...args: any[]) => Promise<any>
-  getDeepgramApiKey: () => Promise<string>
 }
 
 declare global {
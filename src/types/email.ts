@@ -0,0 +1,23 @@
+export type EmailTemplateId = 'recap' | 'proposal' | 'meeting-request' | 'break-up'
+
+export interface EmailTemplate {
+  id: EmailTemplateId
+  label: string
+}
+
+export interface EmailDraft {
+  subject: string
+  opening: string
+  body: string
+  call_to_action: string
+  closing: string
+}
+
+export type EmailSection = keyof EmailDraft
+
+export interface EmailAccountDetails {
+  name: string
+  email: string
+  company: string
+  stage: string
+}
@@ -0,0 +1,29 @@
+// Custom patterns are regular expressions and keywords plain text, both case-insensitive
+export interface RedactionSettings {
+  enabled: boolean
+  emails: boolean
+  phones: boolean
+  cards: boolean
+  nationalIds: boolean
+  patterns: string[]
+  keywords: string[]
+}
+
+export type RedactionKind = 'email' | 'phone' | 'card' | 'national-id' | 'pattern' | 'keyword'
+
+export interface RedactionMatch {
+  kind: RedactionKind
+  start: number
+  end: number
+  text: string
+}
+
+export interface RedactedText {
+  text: string
+  matches: RedactionMatch[]
+}
+
+export interface RedactedScreenshot {
+  preview: string // data URL of the masked image
+  regions: Array<{ kind: RedactionKind; box: { x: number; y: number; width: number; height: number } }>
+}
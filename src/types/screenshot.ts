@@ -0,0 +1,45 @@
+export type CaptureTarget =
+  | { mode: 'display'; index?: number } // the display the overlay is on when left out
+  | { mode: 'window'; sourceId: string }
+  | { mode: 'region'; index?: number }
+
+export interface CaptureWindow {
+  id: string
+  name: string
+  thumbnail: string // data URL
+}
+
+// Pixels of the screenshot, origin top-left
+export interface OcrBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface OcrWord {
+  text: string
+  confidence: number
+  box: OcrBox
+}
+
+export interface OcrLine {
+  text: string
+  confidence: number
+  box: OcrBox
+  words: OcrWord[]
+}
+
+export interface ScreenshotMatch {
+  path: string
+  preview: string
+  lines: OcrLine[]
+}
+
+// Limits for keeping screenshots; 0 turns the age, count and size limits off
+export interface ScreenshotSettings {
+  maxQueued: number // per queue
+  maxAgeDays: number
+  maxFiles: number // across both queues
+  maxTotalMb: number
+}
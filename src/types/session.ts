@@ -0,0 +1,76 @@
+export type TranscriptEntryType = 'question' | 'answer' | 'live' | 'interviewer' | 'system'
+
+export interface TranscriptEntry {
+  type: TranscriptEntryType
+  text: string
+  timestamp: string // display time, e.g. "3:04 PM"
+  at: number // epoch ms
+  source?: 'transcription' | 'assistant' | 'user' | 'system'
+  speaker?: string // diarization or channel label, e.g. "Speaker 2" or "System audio"
+  audio?: EntryAudioSpan // where the entry was said in the session recording, if there is one
+  translation?: EntryTranslation // live translation for the rep
+}
+
+export interface EntryTranslation {
+  language: string
+  text: string
+}
+
+// Seconds from the start of the session recording
+export interface EntryAudioSpan {
+  start: number
+  end: number
+}
+
+export interface SessionRecording {
+  startedAt: number // epoch ms of the first recorded sample
+  mimeType: string
+}
+
+export interface TranscriptionFinal {
+  text: string
+  at: number
+  speaker?: string
+}
+
+export interface SessionSummary {
+  id: string
+  title: string
+  startedAt: number
+  endedAt: number | null
+  entryCount: number
+  preview: string
+}
+
+export interface CallSummary {
+  tldr: string
+  key_points: string[]
+  objections: string[]
+  commitments: { rep: string[]; prospect: string[] }
+  action_items: Array<{ title: string; owner: string; due_date: string | null }>
+}
+
+export interface CallSession {
+  id: string
+  title: string
+  startedAt: number
+  endedAt: number | null
+  language: string | null // spoken language of the call, 'auto' if it was detected
+  entries: TranscriptEntry[]
+  finals: TranscriptionFinal[]
+  summary: CallSummary | null
+  speakerNames: Record<string, string> // speaker label -> real name
+  recording: SessionRecording | null
+}
+
+// Recorded call import; total is 0 until the recording has been converted and chunked
+export interface ImportProgress {
+  stage: 'convert' | 'transcribe' | 'done'
+  completed: number
+  total: number
+}
+
+export interface ImportResult {
+  sessionId: string
+  entryCount: number
+}
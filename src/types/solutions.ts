@@ -27,4 +27,11 @@ export interface ProblemStatementData {
   test_cases: any[];
   validation_type: string;
   difficulty: string;
-}
\ No newline at end of file
+}
+
+// Sent when the model's JSON kept failing schema validation after the re-ask loop
+export interface StructuredOutputErrorPayload {
+  stage: "problem" | "solution" | "debug"
+  field: string
+  reason: string
+}
@@ -0,0 +1,5 @@
+export type LLMStreamEvent =
+  | { type: "chunk"; text: string }
+  | { type: "done"; text: string }
+  | { type: "error"; error: string }
+  | { type: "cancelled" }
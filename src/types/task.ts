@@ -0,0 +1,13 @@
+export interface Task {
+  id: string
+  title: string
+  owner: string
+  dueDate: string | null // YYYY-MM-DD
+  done: boolean
+  sessionId: string | null
+  createdAt: number
+  updatedAt: number
+  completedAt: number | null
+}
+
+export type TaskInput = Partial<Pick<Task, 'title' | 'owner' | 'dueDate' | 'done' | 'sessionId'>>
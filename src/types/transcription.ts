@@ -0,0 +1,41 @@
+export interface TranscriptWord {
+  word: string
+  punctuated_word?: string
+  start: number
+  end: number
+  speaker?: number
+}
+
+// Every engine reports in Deepgram's live message format
+export type TranscriptionEvent =
+  | {
+      type: 'Results'
+      is_final: boolean
+      start: number
+      duration: number
+      channel: { alternatives: Array<{ transcript: string; words: TranscriptWord[] }> }
+    }
+  | { type: 'SpeechStarted'; timestamp: number }
+  | { type: 'UtteranceEnd'; last_word_end: number }
+  | { type: 'Error'; message: string; closed?: boolean } // closed: the stream was ended in main
+
+export interface TranscriptionStreamOptions {
+  language?: string
+  diarize?: boolean
+}
+
+export type AnswerLanguage = 'rep' | 'call'
+
+// Languages are ISO 639-1 codes, optionally with a region; 'auto' lets the engine detect it
+export interface LanguageSettings {
+  callLanguage: string
+  repLanguage: string
+  answerIn: AnswerLanguage
+  translate: boolean
+}
+
+// Spoken language of the call and the language live suggestions are written in
+export interface LanguageOptions {
+  call?: string
+  answer?: string
+}
@@ -1,49 +1,388 @@
-const { parentPort } = require('worker_threads');
+// worker-script/node/index.js
+// Live whisper.cpp transcription off the main thread. The worker keeps a whisper-server child
+// running per model (English-only and multilingual), so a model is loaded once instead of on
+// every chunk, and turns the PCM frames of each open stream into partial and final segments.
+//
+// Messages in:  open {streamId, model, language}, audio {streamId, pcm}, close {streamId},
+//               transcribe-file {requestId, wavPath, model, language}, cancel-file {requestId}, shutdown
+// Messages out: ready, server-started {pid}, server-exited {pid}, speech-started {streamId, timestamp},
+//               segment {streamId, final, start, end, text}, utterance-end {streamId, lastWordEnd},
+//               closed {streamId}, file-result {requestId, segments}, error {streamId?, requestId?, error}
+// Stream times are seconds since the stream was opened. The server pids let the main thread
+// kill the servers itself when the app quits before this worker has handled shutdown.
+
+const { parentPort, workerData } = require('worker_threads');
+const { spawn } = require('child_process');
+const fs = require('fs');
+const net = require('net');
+
+const config = workerData;
+
+const SAMPLE_RATE = 16000;
+const BYTES_PER_SECOND = SAMPLE_RATE * 2;
+const SPEECH_RMS = 400; // Int16 RMS above which a frame counts as speech
+const PRE_ROLL_SECONDS = 0.3; // audio kept from before speech was detected
+const STARTUP_TIMEOUT_MS = 60000;
+// whisper marks silence and noise as "[BLANK_AUDIO]", "(music)" and the like
+const NON_SPEECH = /^[[(].*[\])]$/;
+
+const servers = new Map(); // model path -> { child, url, ready }
+const streams = new Map();
+const fileRequests = new Map(); // requestId -> AbortController
+// whisper-server handles one request at a time; finals queue up, partials are skipped while busy
+let inference = Promise.resolve();
+let busy = false;
+
+function freePort() {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+async function waitForServer(url, child) {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) throw new Error(`whisper-server exited with ${child.exitCode}`);
+    try {
+      await fetch(url);
+      return;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
+  }
+  throw new Error('whisper-server did not start in time');
+}
+
+// Starts whisper-server for a model on first use; later calls share the same process
+function ensureServer(model) {
+  const existing = servers.get(model);
+  if (existing) return existing.ready.then(() => existing);
+  const current = { child: null, url: '', ready: null };
+  current.ready = (async () => {
+    const port = await freePort();
+    let stderr = '';
+    const child = spawn(
+      config.serverPath,
+      [
+        '-m', model,
+        '-t', String(config.threads),
+        '--host', '127.0.0.1',
+        '--port', String(port)
+      ],
+      { windowsHide: true, stdio: ['ignore', 'ignore', 'pipe'] }
+    );
+    current.child = child;
+    current.url = `http://127.0.0.1:${port}`;
+    child.stderr.on('data', chunk => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+    child.on('exit', code => {
+      if (servers.get(model) === current) servers.delete(model);
+      if (child.pid) parentPort.postMessage({ type: 'server-exited', pid: child.pid });
+      if (code !== 0 && code !== null) {
+        parentPort.postMessage({ type: 'error', error: `whisper-server exited with ${code}: ${stderr.trim()}` });
+      }
+    });
+    const started = new Promise((resolve, reject) => {
+      child.once('error', error => reject(new Error(`could not start ${config.serverPath}: ${error.message}`)));
+      child.once('spawn', () => {
+        parentPort.postMessage({ type: 'server-started', pid: child.pid });
+        resolve();
+      });
+    });
+    await started;
+    await waitForServer(current.url, child);
+    parentPort.postMessage({ type: 'ready' });
+  })();
+  servers.set(model, current);
+  current.ready.catch(() => {
+    if (servers.get(model) === current) servers.delete(model);
+    if (current.child && current.child.exitCode === null) current.child.kill();
+  });
+  return current.ready.then(() => current);
+}
+
+function stopServers() {
+  for (const server of servers.values()) {
+    if (server.child && server.child.exitCode === null) server.child.kill();
+  }
+  servers.clear();
+}
+
+function wav(pcm) {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(BYTES_PER_SECOND, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+}
+
+// Sends one WAV to the model's whisper-server and returns its timed segments.
+// language is a whisper code or "auto" to have the model detect it.
+async function infer(wavBytes, model, language, signal) {
+  const server = await ensureServer(model);
+  const form = new FormData();
+  form.append('file', new Blob([wavBytes], { type: 'audio/wav' }), 'audio.wav');
+  form.append('response_format', 'verbose_json');
+  form.append('temperature', '0');
+  form.append('language', language);
+  const response = await fetch(`${server.url}/inference`, { method: 'POST', body: form, signal });
+  if (!response.ok) {
+    throw new Error(`whisper-server answered ${response.status}: ${(await response.text()).trim()}`);
+  }
+  const result = await response.json();
+  return (result.segments || [])
+    .map(segment => ({ start: Number(segment.start), end: Number(segment.end), text: String(segment.text).trim() }))
+    .filter(segment => segment.text && !NON_SPEECH.test(segment.text));
+}
+
+function enqueue(task) {
+  const run = inference.then(async () => {
+    busy = true;
+    try {
+      return await task();
+    } finally {
+      busy = false;
+    }
+  });
+  inference = run.catch(() => {});
+  return run;
+}
+
+function frameRms(pcm) {
+  const samples = Math.floor(pcm.length / 2);
+  if (samples === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(i * 2);
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples);
+}
+
+function openStream(streamId, model, language) {
+  const stream = {
+    id: streamId,
+    model,
+    language,
+    receivedBytes: 0,
+    preRoll: [], // recent silent frames, prepended when speech starts
+    preRollBytes: 0,
+    utterance: null, // { frames, bytes, start, lastSpeechAt, lastPartialAt }
+    pending: Promise.resolve()
+  };
+  streams.set(streamId, stream);
+  ensureServer(model).catch(error => parentPort.postMessage({ type: 'error', streamId, error: error.message }));
+}
+
+// Re-transcribes the open utterance and reports it as one partial segment
+function partial(stream) {
+  const utterance = stream.utterance;
+  utterance.lastPartialAt = stream.receivedBytes;
+  const pcm = Buffer.concat(utterance.frames);
+  const start = utterance.start;
+  enqueue(() => infer(wav(pcm), stream.model, stream.language))
+    .then(segments => {
+      // Drop partials that arrive after their utterance was finalized
+      if (stream.utterance !== utterance || segments.length === 0) return;
+      parentPort.postMessage({
+        type: 'segment',
+        streamId: stream.id,
+        final: false,
+        start,
+        end: start + pcm.length / BYTES_PER_SECOND,
+        text: segments.map(segment => segment.text).join(' ')
+      });
+    })
+    .catch(error => parentPort.postMessage({ type: 'error', streamId: stream.id, error: error.message }));
+}
+
+// Transcribes the finished utterance; its segments are reported in stream time
+function finalize(stream) {
+  const utterance = stream.utterance;
+  if (!utterance) return stream.pending;
+  stream.utterance = null;
+  const pcm = Buffer.concat(utterance.frames);
+  const start = utterance.start;
+  const job = enqueue(() => infer(wav(pcm), stream.model, stream.language));
+  stream.pending = stream.pending
+    .then(() => job)
+    .then(segments => {
+      if (segments.length === 0) return;
+      for (const segment of segments) {
+        parentPort.postMessage({
+          type: 'segment',
+          streamId: stream.id,
+          final: true,
+          start: start + segment.start,
+          end: start + Math.min(segment.end, pcm.length / BYTES_PER_SECOND),
+          text: segment.text
+        });
+      }
+      parentPort.postMessage({
+        type: 'utterance-end',
+        streamId: stream.id,
+        lastWordEnd: start + Math.min(segments[segments.length - 1].end, pcm.length / BYTES_PER_SECOND)
+      });
+    })
+    .catch(error => parentPort.postMessage({ type: 'error', streamId: stream.id, error: error.message }));
+  return stream.pending;
+}
+
+function writeAudio(stream, pcm) {
+  stream.receivedBytes += pcm.length;
+  const now = stream.receivedBytes / BYTES_PER_SECOND;
+  const speaking = frameRms(pcm) >= SPEECH_RMS;
+
+  if (!stream.utterance) {
+    if (!speaking) {
+      stream.preRoll.push(pcm);
+      stream.preRollBytes += pcm.length;
+      while (stream.preRollBytes - stream.preRoll[0].length >= PRE_ROLL_SECONDS * BYTES_PER_SECOND) {
+        stream.preRollBytes -= stream.preRoll.shift().length;
+      }
+      return;
+    }
+    const frames = [...stream.preRoll, pcm];
+    const bytes = stream.preRollBytes + pcm.length;
+    stream.utterance = {
+      frames,
+      bytes,
+      start: now - bytes / BYTES_PER_SECOND,
+      lastSpeechAt: now,
+      lastPartialAt: stream.receivedBytes
+    };
+    stream.preRoll = [];
+    stream.preRollBytes = 0;
+    parentPort.postMessage({ type: 'speech-started', streamId: stream.id, timestamp: stream.utterance.start });
+    return;
+  }
+
+  const utterance = stream.utterance;
+  utterance.frames.push(pcm);
+  utterance.bytes += pcm.length;
+  if (speaking) utterance.lastSpeechAt = now;
+
+  if ((now - utterance.lastSpeechAt) * 1000 >= config.silenceMs ||
+      utterance.bytes >= config.windowSeconds * BYTES_PER_SECOND) {
+    finalize(stream);
+  } else if (!busy && (stream.receivedBytes - utterance.lastPartialAt) * 1000 >= config.stepMs * BYTES_PER_SECOND) {
+    partial(stream);
+  }
+}
+
+async function closeStream(streamId) {
+  const stream = streams.get(streamId);
+  if (!stream) return;
+  streams.delete(streamId);
+  await finalize(stream);
+  parentPort.postMessage({ type: 'closed', streamId });
+}
+
+// Cancelled requests are skipped while queued and aborted while running; the main thread has
+// stopped listening for them, so nothing is reported
+async function transcribeFile(requestId, wavPath, model, language) {
+  const controller = new AbortController();
+  fileRequests.set(requestId, controller);
+  try {
+    const wavBytes = await fs.promises.readFile(wavPath);
+    const segments = await enqueue(() => {
+      controller.signal.throwIfAborted();
+      return infer(wavBytes, model, language, controller.signal);
+    });
+    parentPort.postMessage({ type: 'file-result', requestId, segments });
+  } catch (error) {
+    if (!controller.signal.aborted) throw error;
+  } finally {
+    fileRequests.delete(requestId);
+  }
+}
+
+function shutdown() {
+  stopServers();
+  parentPort.close();
+}
 
 // Handle messages from the main thread
 parentPort.on('message', async (message) => {
   try {
-    // Process the message based on its type
     switch (message.type) {
-      case 'process':
-        // Add your processing logic here
-        const result = await processTask(message.data);
-        parentPort.postMessage({ type: 'result', data: result });
+      case 'open':
+        openStream(message.streamId, message.model, message.language);
+        break;
+
+      case 'audio': {
+        const stream = streams.get(message.streamId);
+        if (stream) writeAudio(stream, Buffer.from(message.pcm));
+        break;
+      }
+
+      case 'close':
+        await closeStream(message.streamId);
+        break;
+
+      case 'transcribe-file':
+        try {
+          await transcribeFile(message.requestId, message.wavPath, message.model, message.language);
+        } catch (error) {
+          parentPort.postMessage({ type: 'error', requestId: message.requestId, error: error.message });
+        }
+        break;
+
+      case 'cancel-file': {
+        const request = fileRequests.get(message.requestId);
+        if (request) request.abort();
+        break;
+      }
+
+      case 'shutdown':
+        shutdown();
         break;
-      
+
       default:
-        parentPort.postMessage({ 
-          type: 'error', 
-          error: `Unknown message type: ${message.type}` 
+        parentPort.postMessage({
+          type: 'error',
+          error: `Unknown message type: ${message.type}`
         });
     }
   } catch (error) {
-    parentPort.postMessage({ 
-      type: 'error', 
-      error: error.message 
+    parentPort.postMessage({
+      type: 'error',
+      streamId: message.streamId,
+      error: error.message
     });
   }
 });
 
-async function processTask(data) {
-  // Add your task processing logic here
-  return {
-    status: 'success',
-    result: `Processed: ${JSON.stringify(data)}`
-  };
-}
-
 // Error handling for the worker
 process.on('uncaughtException', (error) => {
-  parentPort.postMessage({ 
-    type: 'error', 
-    error: `Uncaught Exception: ${error.message}` 
+  parentPort.postMessage({
+    type: 'error',
+    error: `Uncaught Exception: ${error.message}`
   });
 });
 
 process.on('unhandledRejection', (reason) => {
-  parentPort.postMessage({ 
-    type: 'error', 
-    error: `Unhandled Rejection: ${reason}` 
+  parentPort.postMessage({
+    type: 'error',
+    error: `Unhandled Rejection: ${reason}`
   });
-}); 
\ No newline at end of file
+});
+
+// Never leave whisper-server running without us
+process.on('exit', stopServers);